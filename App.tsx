@@ -3,35 +3,175 @@
  * 集成Redux状态管理和导航系统
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import { Provider } from 'react-redux';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { store } from './src/store';
 import AppNavigator from './src/navigation/AppNavigator';
-import { useAppDispatch } from './src/store/hooks';
-import { checkAuthStatus } from './src/store/slices/authSlice';
-import { ToastProvider } from './src/contexts/ToastContext';
+import { useAppDispatch, useAppSelector } from './src/store/hooks';
+import {
+  checkAuthStatus,
+  clearAuth,
+  logoutUser,
+  restoreCache,
+  selectIsAuthenticated,
+  selectActiveAccountId,
+} from './src/store/slices/authSlice';
+import {
+  restoreUploadQueue,
+  processUploadQueue,
+  setOnline,
+} from './src/store/slices/uploadQueueSlice';
+import {
+  restoreAppLock,
+  unlockApp,
+  appBackgrounded,
+  appForegrounded,
+  selectAppLock,
+} from './src/store/slices/appLockSlice';
+import { subscribeQueueTriggers } from './src/services/uploadQueue';
+import { subscribeAppLockTriggers } from './src/services/appLock';
+import { serverApi, subscribeSessionExpired } from './src/services/api';
+import { restoreLanguage } from './src/services/language';
+import { subscribeCachePersistence } from './src/services/cache';
+import { restoreImageCacheBudgets } from './src/services/imageCache';
+import { selectPersistedCache } from './src/store/persistence';
+import { t } from './src/i18n';
+import { ToastProvider, useToast } from './src/contexts/ToastContext';
+import { SavedRoute, getCurrentRoute, navigateToRoute } from './src/navigation/navigationRef';
+import LockScreen from './src/components/LockScreen';
+import LoadingSpinner from './src/components/LoadingSpinner';
 
 // 应用初始化组件
 const AppInitializer: React.FC = () => {
   const dispatch = useAppDispatch();
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const activeAccountId = useAppSelector(selectActiveAccountId);
+  const appLock = useAppSelector(selectAppLock);
+  const { showWarning } = useToast();
+  // 登录失效时所在的页面，同一账户重新登录后返回
+  const expiredRouteRef = useRef<{ accountId: string | null; route: SavedRoute } | null>(null);
+  const [isLanguageRestored, setIsLanguageRestored] = useState(false);
+
+  // 已登录且开启了应用锁时需要先解锁
+  const isLockActive = isAuthenticated && appLock.isLocked;
+
+  useEffect(() => {
+    // 恢复上次选择的语言，避免启动后界面切换语言
+    restoreLanguage().then(() => setIsLanguageRestored(true));
+    // 恢复上次设置的图片缓存容量
+    restoreImageCacheBudgets();
+  }, []);
 
   useEffect(() => {
-    // 应用启动时检查认证状态
-    dispatch(checkAuthStatus());
+    // 恢复应用锁设置，决定冷启动时是否需要解锁
+    dispatch(restoreAppLock());
+
+    // 在后台停留超过设置的时间后重新锁定
+    return subscribeAppLockTriggers(
+      () => dispatch(appBackgrounded(Date.now())),
+      () => dispatch(appForegrounded(Date.now()))
+    );
   }, [dispatch]);
 
-  return <AppNavigator />;
+  useEffect(() => {
+    // 锁定时自动弹出系统验证
+    if (isLockActive) {
+      dispatch(unlockApp());
+    }
+  }, [isLockActive, dispatch]);
+
+  useEffect(() => {
+    // 应用启动时先恢复上次选择的服务器，再检查认证状态并恢复上次未完成的上传
+    serverApi.restoreServerUrl().then(() => {
+      dispatch(checkAuthStatus());
+      dispatch(restoreUploadQueue()).then(() => dispatch(processUploadQueue()));
+    });
+
+    // 网络恢复或回到前台时继续上传
+    return subscribeQueueTriggers(
+      (isOnline) => {
+        dispatch(setOnline(isOnline));
+        if (isOnline) {
+          dispatch(processUploadQueue());
+        }
+      },
+      () => dispatch(processUploadQueue())
+    );
+  }, [dispatch]);
+
+  useEffect(() => {
+    // 图片、分组和用户信息变化后保存到设备，下次启动时先显示
+    return subscribeCachePersistence(store.subscribe, () => selectPersistedCache(store.getState()));
+  }, []);
+
+  useEffect(() => {
+    // 当前账户的登录失效时清除认证状态，回到登录页
+    return subscribeSessionExpired((accountId) => {
+      const { auth } = store.getState();
+      // 切换账户等过程中其他账户失效不影响当前账户
+      if (!auth.isAuthenticated || auth.activeAccountId !== accountId) {
+        return;
+      }
+      const route = getCurrentRoute();
+      expiredRouteRef.current = route ? { accountId, route } : null;
+      dispatch(clearAuth());
+      showWarning(t('auth.sessionExpired'));
+    });
+  }, [dispatch, showWarning]);
+
+  useEffect(() => {
+    // 登录或切换账户后先显示该账户的离线缓存，并处理等待中的上传
+    if (isAuthenticated) {
+      dispatch(restoreCache());
+      dispatch(processUploadQueue());
+    }
+  }, [isAuthenticated, activeAccountId, dispatch]);
+
+  useEffect(() => {
+    // 重新登录同一账户后回到登录失效时所在的页面
+    const expired = expiredRouteRef.current;
+    if (!isAuthenticated || !expired) {
+      return;
+    }
+    expiredRouteRef.current = null;
+    if (expired.accountId === activeAccountId && expired.route.name !== 'Home') {
+      navigateToRoute(expired.route);
+    }
+  }, [isAuthenticated, activeAccountId]);
+
+  // 语言和应用锁设置恢复前不显示内容；冷启动尚未解锁时不加载页面，回到前台锁定时保留页面状态
+  if (!appLock.isRestored || !isLanguageRestored) {
+    return <LoadingSpinner />;
+  }
+  const showNavigator = !isLockActive || appLock.unlockedAt !== null;
+
+  return (
+    <>
+      {showNavigator && <AppNavigator />}
+      {isLockActive && (
+        <LockScreen
+          isAuthenticating={appLock.isAuthenticating}
+          lockedOutUntil={appLock.lockedOutUntil}
+          onUnlock={() => dispatch(unlockApp())}
+          onLogout={() => dispatch(logoutUser())}
+        />
+      )}
+    </>
+  );
 };
 
 // 主应用组件
 export default function App() {
   return (
-    <Provider store={store}>
-      <ToastProvider>
-        <StatusBar style="auto" />
-        <AppInitializer />
-      </ToastProvider>
-    </Provider>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <Provider store={store}>
+        <ToastProvider>
+          <StatusBar style="auto" />
+          <AppInitializer />
+        </ToastProvider>
+      </Provider>
+    </GestureHandlerRootView>
   );
 }
@@ -0,0 +1,144 @@
+/**
+ * API错误模型测试用例
+ * 验证DRF错误响应的解析、错误码和可重试标记，以及thunk返回的结构化错误
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { apiClient, groupsApi } from '../src/services/api';
+import groupsReducer, { createGroup } from '../src/store/slices/groupsSlice';
+import {
+  createApiError,
+  toApiError,
+  getFieldErrorMessages,
+  parseApiError,
+} from '../src/utils/errorHandling';
+import { ApiError } from '../src/types';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+jest.mock('expo-constants', () => ({ expoConfig: { extra: {} } }));
+
+// 让所有请求返回指定的错误响应
+const respondWith = (status: number, data: unknown) => {
+  apiClient.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const response = { status, data, statusText: '', headers: {}, config };
+    throw new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response);
+  };
+};
+
+// 让所有请求以没有响应的错误失败（网络断开、超时）
+const failWith = (code: string) => {
+  apiClient.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    throw new AxiosError('request failed', code, config, {});
+  };
+};
+
+// 返回请求被拒绝时的错误，请求意外成功时让测试失败
+const catchError = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('expected rejection');
+    },
+    (error: ApiError) => error
+  );
+
+describe('API Errors', () => {
+  test('嵌套序列化器和列表中的字段错误用点号路径保存', async () => {
+    respondWith(400, {
+      name: ['该名称已存在。', '名称过长。'],
+      owner: { email: ['邮箱格式不正确。'] },
+      images: [{}, { id: ['图片不存在。'] }],
+    });
+
+    const error = await catchError(groupsApi.createGroup({ name: 'x', description: '' }));
+
+    expect(error.code).toBe('VALIDATION_ERROR');
+    expect(error.retryable).toBe(false);
+    expect(error.fieldErrors).toEqual({
+      name: ['该名称已存在。', '名称过长。'],
+      'owner.email': ['邮箱格式不正确。'],
+      'images.1.id': ['图片不存在。'],
+    });
+    expect(error.message).toBe('名称: 该名称已存在。, 名称过长。');
+  });
+
+  test('服务器错误可以重试，且不显示HTML错误页', async () => {
+    respondWith(502, '<html><body>Bad Gateway</body></html>');
+
+    const error = await catchError(groupsApi.getGroups());
+
+    expect(error).toMatchObject({ status: 502, code: 'SERVER_ERROR', retryable: true });
+    expect(error.message).toBe('服务器临时不可用，请稍后重试');
+  });
+
+  test('限流、网络断开和超时都可以重试', async () => {
+    respondWith(429, { detail: '请求过于频繁。' });
+    expect(await catchError(groupsApi.getGroups())).toMatchObject({
+      code: 'THROTTLED',
+      message: '请求过于频繁。',
+      retryable: true,
+    });
+
+    failWith('ERR_NETWORK');
+    expect(await catchError(groupsApi.getGroups())).toMatchObject({ code: 'NETWORK_ERROR', retryable: true });
+
+    failWith('ECONNABORTED');
+    expect(await catchError(groupsApi.getGroups())).toMatchObject({ code: 'TIMEOUT', retryable: true });
+  });
+
+  test('thunk以结构化错误拒绝，state中只保存提示信息', async () => {
+    respondWith(400, { name: ['该名称已存在。'] });
+    const store = configureStore({ reducer: { groups: groupsReducer } });
+
+    const result = await store.dispatch(createGroup({ name: '旅行', description: '' }));
+
+    expect(createGroup.rejected.match(result)).toBe(true);
+    expect(result.payload).toMatchObject({
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      fieldErrors: { name: ['该名称已存在。'] },
+    });
+    expect(store.getState().groups.error).toBe('名称: 该名称已存在。');
+  });
+
+  test('任意错误都可以转换为ApiError', () => {
+    expect(toApiError(new Error('存储失败'))).toEqual({
+      message: '存储失败',
+      status: undefined,
+      code: 'UNKNOWN_ERROR',
+      fieldErrors: {},
+      retryable: false,
+    });
+    expect(toApiError({ status: 503 })).toMatchObject({ code: 'SERVER_ERROR', retryable: true });
+
+    const apiError = createApiError('名称: 不能为空', { status: 400, fieldErrors: { name: ['不能为空'] } });
+    expect(toApiError(apiError)).toBe(apiError);
+  });
+
+  test('字段错误合并为每个字段一条提示', () => {
+    const apiError = createApiError(undefined, {
+      status: 400,
+      fieldErrors: { name: ['不能为空', '过长'], description: ['过长'] },
+    });
+
+    expect(getFieldErrorMessages(apiError)).toEqual({ name: '不能为空, 过长', description: '过长' });
+    expect(getFieldErrorMessages(undefined)).toEqual({});
+  });
+
+  test('通用错误解析按错误码分类，可按场景覆盖提示', () => {
+    const apiError = createApiError('没有权限。', { status: 403 });
+
+    expect(parseApiError(apiError)).toMatchObject({
+      type: 'authentication',
+      message: '没有权限。',
+      retryable: false,
+    });
+    expect(parseApiError(apiError, { PERMISSION_DENIED: '只有分组的创建者可以修改' }).message)
+      .toBe('只有分组的创建者可以修改');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * 应用锁测试用例
+ * 验证锁定时间、解锁宽限期和连续失败后的禁止解锁逻辑
+ */
+
+import {
+  DEFAULT_APP_LOCK_SETTINGS,
+  INITIAL_APP_LOCK_STATUS,
+  LOCKOUT_MS,
+  MAX_FAILED_ATTEMPTS,
+  UNLOCK_GRACE_MS,
+  getLaunchStatus,
+  getLockoutRemaining,
+  handleBackground,
+  handleForeground,
+  handleUnlockFailure,
+  handleUnlockSuccess,
+  isCountedFailure,
+} from '../src/utils/appLock';
+import { AppLockSettings, AppLockStatus } from '../src/types';
+
+const NOW = Date.UTC(2024, 0, 1);
+const enabled: AppLockSettings = { enabled: true, timeoutMs: 60 * 1000 };
+
+// 已在NOW之前很久解锁的状态
+const unlocked: AppLockStatus = { ...INITIAL_APP_LOCK_STATUS, unlockedAt: NOW - 3600 * 1000 };
+
+// 进入后台一段时间后回到前台
+const resumeAfter = (settings: AppLockSettings, status: AppLockStatus, awayMs: number) =>
+  handleForeground(settings, handleBackground(status, NOW), NOW + awayMs);
+
+describe('App Lock', () => {
+  test('开启应用锁时冷启动需要解锁', () => {
+    expect(getLaunchStatus(enabled).isLocked).toBe(true);
+    expect(getLaunchStatus(DEFAULT_APP_LOCK_SETTINGS).isLocked).toBe(false);
+  });
+
+  test('在后台停留达到设置时间后锁定', () => {
+    expect(resumeAfter(enabled, unlocked, 59 * 1000).isLocked).toBe(false);
+    expect(resumeAfter(enabled, unlocked, 60 * 1000).isLocked).toBe(true);
+  });
+
+  test('设置为立即锁定时每次回到前台都需要解锁', () => {
+    expect(resumeAfter({ enabled: true, timeoutMs: 0 }, unlocked, 1).isLocked).toBe(true);
+  });
+
+  test('未开启应用锁时不会锁定', () => {
+    const status = resumeAfter(DEFAULT_APP_LOCK_SETTINGS, unlocked, 3600 * 1000);
+
+    expect(status.isLocked).toBe(false);
+    expect(status.backgroundedAt).toBeNull();
+  });
+
+  test('解锁后的宽限期内进入后台不计时', () => {
+    const justUnlocked = handleUnlockSuccess(getLaunchStatus(enabled), NOW - UNLOCK_GRACE_MS + 1);
+
+    expect(handleBackground(justUnlocked, NOW).backgroundedAt).toBeNull();
+    expect(resumeAfter(enabled, justUnlocked, 3600 * 1000).isLocked).toBe(false);
+  });
+
+  test('已锁定时进入后台不改变状态', () => {
+    const locked = getLaunchStatus(enabled);
+
+    expect(handleBackground(locked, NOW)).toBe(locked);
+  });
+
+  test('连续失败达到上限后暂时禁止解锁', () => {
+    let status = getLaunchStatus(enabled);
+    for (let i = 1; i < MAX_FAILED_ATTEMPTS; i++) {
+      status = handleUnlockFailure(status, NOW);
+      expect(getLockoutRemaining(status, NOW)).toBe(0);
+    }
+    status = handleUnlockFailure(status, NOW);
+
+    expect(status.isLocked).toBe(true);
+    expect(getLockoutRemaining(status, NOW)).toBe(LOCKOUT_MS);
+    expect(getLockoutRemaining(status, NOW + LOCKOUT_MS)).toBe(0);
+    // 禁止时间结束后重新计数
+    expect(status.failedAttempts).toBe(0);
+  });
+
+  test('解锁成功后清除失败记录', () => {
+    const failed = handleUnlockFailure(handleUnlockFailure(getLaunchStatus(enabled), NOW), NOW);
+    const status = handleUnlockSuccess(failed, NOW + 1000);
+
+    expect(status).toMatchObject({
+      isLocked: false,
+      failedAttempts: 0,
+      lockedOutUntil: null,
+      unlockedAt: NOW + 1000,
+    });
+  });
+
+  test('用户或系统取消验证不计入失败次数', () => {
+    expect(isCountedFailure('user_cancel')).toBe(false);
+    expect(isCountedFailure('system_cancel')).toBe(false);
+    expect(isCountedFailure('app_cancel')).toBe(false);
+    expect(isCountedFailure('authentication_failed')).toBe(true);
+    expect(isCountedFailure('lockout')).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * 图片网格布局测试用例
+ * 验证瀑布流和按行对齐布局的位置计算，以及可见范围
+ */
+
+import {
+  MAX_GRID_COLUMNS,
+  clampColumns,
+  computeJustifiedLayout,
+  computeMasonryLayout,
+  getTargetRowHeight,
+  getVisibleRange,
+} from '../src/utils/gridLayout';
+
+const size = (width: number, height: number) => ({ width, height });
+
+describe('GridLayout', () => {
+  test('列数限制在支持的范围内', () => {
+    expect(clampColumns(0)).toBe(1);
+    expect(clampColumns(2.4)).toBe(2);
+    expect(clampColumns(100)).toBe(MAX_GRID_COLUMNS);
+  });
+
+  test('瀑布流把图片放入最短的一列', () => {
+    // 容器宽210，两列间距10，列宽100
+    const layout = computeMasonryLayout([size(100, 200), size(100, 50), size(100, 50), size(100, 100)], 210, 2, 10);
+
+    expect(layout.frames).toEqual([
+      { x: 0, y: 0, width: 100, height: 200 },
+      { x: 110, y: 0, width: 100, height: 50 },
+      { x: 110, y: 60, width: 100, height: 50 },
+      { x: 110, y: 120, width: 100, height: 100 },
+    ]);
+    expect(layout.height).toBe(220);
+  });
+
+  test('尺寸未知按正方形，极端宽高比按边界裁剪', () => {
+    const layout = computeMasonryLayout([size(0, 0), size(100, 1000)], 100, 1, 0);
+    expect(layout.frames[0].height).toBe(100);
+    expect(layout.frames[1].height).toBe(300);
+  });
+
+  test('按行对齐时每行撑满容器宽度', () => {
+    // 目标行高100：两张4:3的图片宽266，不足300；加上第三张后超出，三张一行
+    const items = [size(400, 300), size(400, 300), size(300, 300), size(300, 300)];
+    const layout = computeJustifiedLayout(items, 300, 100, 0);
+
+    const firstRow = layout.frames.slice(0, 3);
+    const rowHeight = 300 / (4 / 3 + 4 / 3 + 1);
+    firstRow.forEach(frame => {
+      expect(frame.y).toBe(0);
+      expect(frame.height).toBeCloseTo(rowHeight);
+    });
+    expect(firstRow[2].x + firstRow[2].width).toBeCloseTo(300);
+
+    // 最后一行不足一行，按目标行高显示
+    expect(layout.frames[3]).toMatchObject({ x: 0, width: 100, height: 100 });
+    expect(layout.frames[3].y).toBeCloseTo(rowHeight);
+    expect(layout.height).toBeCloseTo(rowHeight + 100);
+  });
+
+  test('按行对齐时计入图片间距', () => {
+    const layout = computeJustifiedLayout([size(100, 100), size(100, 100)], 210, 100, 10);
+    expect(layout.frames).toEqual([
+      { x: 0, y: 0, width: 100, height: 100 },
+      { x: 110, y: 0, width: 100, height: 100 },
+    ]);
+    expect(layout.height).toBe(100);
+  });
+
+  test('列数越多目标行高越小', () => {
+    expect(getTargetRowHeight(300, 3)).toBe(100);
+    expect(getTargetRowHeight(300, 6)).toBe(50);
+  });
+
+  test('数千张图片时只返回可见区域内的范围', () => {
+    const items = Array.from({ length: 5000 }, () => size(100, 100));
+    const layout = computeMasonryLayout(items, 100, 1, 0);
+
+    expect(getVisibleRange(layout.frames, 1000, 1500)).toEqual({ start: 9, end: 16 });
+    expect(getVisibleRange(layout.frames, -100, -50)).toEqual({ start: 0, end: 0 });
+    expect(getVisibleRange([], 0, 100)).toEqual({ start: 0, end: 0 });
+  });
+});
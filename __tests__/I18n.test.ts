@@ -0,0 +1,117 @@
+/**
+ * 国际化测试用例
+ * 验证各语言文案完整、插值和复数规则，以及按语言格式化日期和文件大小
+ */
+
+import {
+  CATALOGS,
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  formatDate,
+  formatFileSize,
+  formatTimeAgo,
+  getLocale,
+  setLocale,
+  subscribeLocale,
+  t,
+} from '../src/i18n';
+import { createApiError } from '../src/utils/errorHandling';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// n天前的时间
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS + 1000).toISOString();
+
+describe('I18n', () => {
+  afterEach(() => {
+    setLocale(DEFAULT_LOCALE);
+  });
+
+  test('每种语言都提供与默认语言相同的文案', () => {
+    const defaultKeys = Object.keys(CATALOGS[DEFAULT_LOCALE]).sort();
+
+    SUPPORTED_LOCALES.forEach(locale => {
+      const catalog = CATALOGS[locale];
+      expect(Object.keys(catalog).sort()).toEqual(defaultKeys);
+      Object.values(catalog).forEach(message => {
+        if (typeof message === 'string') {
+          expect(message).not.toBe('');
+        } else {
+          expect(typeof message.other).toBe('string');
+          Object.keys(message).forEach(category => expect(['one', 'other']).toContain(category));
+        }
+      });
+    });
+  });
+
+  test('插入参数，缺少的参数保留占位符', () => {
+    expect(t('login.server', { name: '本地' })).toBe('服务器：本地');
+    expect(t('login.server')).toBe('服务器：{name}');
+
+    setLocale('en');
+    expect(t('login.server', { name: 'Local' })).toBe('Server: Local');
+  });
+
+  test('英文按数量选择单复数，中文不区分', () => {
+    expect(t('images.total', { count: 1 })).toBe('共 1 张图片');
+
+    setLocale('en');
+    expect(t('images.total', { count: 1 })).toBe('1 image');
+    expect(t('images.total', { count: 0 })).toBe('0 images');
+    expect(t('images.total', { count: 5 })).toBe('5 images');
+  });
+
+  test('切换语言时通知订阅者，语言相同时不通知', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeLocale(listener);
+
+    setLocale('en');
+    setLocale('en');
+    expect(getLocale()).toBe('en');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    setLocale('zh-CN');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('相对日期按当前语言显示', () => {
+    expect(formatDate(daysAgo(0))).toBe('1天前');
+    expect(formatDate(daysAgo(14))).toBe('2周前');
+
+    setLocale('en');
+    expect(formatDate(daysAgo(0))).toBe('1 day ago');
+    expect(formatDate(daysAgo(3))).toBe('3 days ago');
+    expect(formatDate(daysAgo(400))).toBe('1 year ago');
+  });
+
+  test('更新时间按距现在的分钟和小时显示', () => {
+    const now = Date.now();
+    expect(formatTimeAgo(now - 30 * 1000, now)).toBe('刚刚');
+    expect(formatTimeAgo(now - 5 * 60 * 1000, now)).toBe('5分钟前');
+
+    setLocale('en');
+    expect(formatTimeAgo(now - 5 * 60 * 1000, now)).toBe('5 min ago');
+    expect(formatTimeAgo(now - 60 * 60 * 1000, now)).toBe('1 hour ago');
+    expect(t('cache.status', { time: formatTimeAgo(now - 3 * 60 * 60 * 1000, now) })).toBe(
+      'Cached · updated 3 hours ago'
+    );
+  });
+
+  test('文件大小按当前语言显示', () => {
+    expect(formatFileSize(0)).toBe('0 字节');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+
+    setLocale('en');
+    expect(formatFileSize(1)).toBe('1 byte');
+    expect(formatFileSize(512)).toBe('512 bytes');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5 MB');
+  });
+
+  test('默认错误提示使用当前语言', () => {
+    setLocale('en');
+    expect(createApiError(undefined, { status: 503 }).message).toBe(
+      'The server is temporarily unavailable. Please try again later'
+    );
+  });
+});
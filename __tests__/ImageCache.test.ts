@@ -0,0 +1,148 @@
+/**
+ * 图片缓存测试用例
+ * 验证LRU淘汰和容量限制，以及同一图片同时只下载一次
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import {
+  addEntry,
+  getTotalSize,
+  removeEntries,
+  selectEvictions,
+  touchEntry,
+  LruIndex,
+} from '../src/utils/lruCache';
+import {
+  clearImageCache,
+  configureImageCache,
+  getCacheFileName,
+  getCachedImage,
+  getImageCacheBudgets,
+  getImageCacheSize,
+  peekCachedImage,
+  restoreImageCacheBudgets,
+  splitImageCacheBudget,
+} from '../src/services/imageCache';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// 模拟文件系统，每个文件的大小为100字节
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  downloadAsync: jest.fn((url: string, fileUri: string) => Promise.resolve({ status: 200, uri: fileUri })),
+  getInfoAsync: jest.fn((fileUri: string) => Promise.resolve({ exists: true, uri: fileUri, size: 100 })),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+const mockedFileSystem = FileSystem as jest.Mocked<typeof FileSystem>;
+
+const entry = (key: string, size: number, lastAccessed: number) => ({ key, size, lastAccessed });
+
+const buildIndex = (): LruIndex =>
+  [entry('a', 100, 1), entry('b', 200, 2), entry('c', 300, 3)].reduce(addEntry, {} as LruIndex);
+
+describe('LRU缓存索引', () => {
+  test('计算总大小，删除条目', () => {
+    const index = buildIndex();
+    expect(getTotalSize(index)).toBe(600);
+    expect(getTotalSize(removeEntries(index, ['a', 'c']))).toBe(200);
+  });
+
+  test('未超出容量时不淘汰', () => {
+    expect(selectEvictions(buildIndex(), 600)).toEqual([]);
+  });
+
+  test('按最久未使用的顺序淘汰到不超出容量', () => {
+    expect(selectEvictions(buildIndex(), 500)).toEqual(['a']);
+    expect(selectEvictions(buildIndex(), 350)).toEqual(['a', 'b']);
+  });
+
+  test('使用过的条目最后淘汰', () => {
+    const index = touchEntry(buildIndex(), 'a', 10);
+    expect(index.a.lastAccessed).toBe(10);
+    expect(selectEvictions(index, 350)).toEqual(['b', 'c']);
+    expect(touchEntry(index, 'missing', 20)).toBe(index);
+  });
+
+  test('保留刚加入的条目，自身超出容量时也淘汰', () => {
+    expect(selectEvictions(buildIndex(), 350, 'a')).toEqual(['b', 'c']);
+    expect(selectEvictions(buildIndex(), 50, 'a')).toEqual(['b', 'c', 'a']);
+  });
+});
+
+describe('图片缓存服务', () => {
+  beforeEach(async () => {
+    await clearImageCache();
+    await configureImageCache({ thumbnail: 1000, original: 1000 });
+    jest.clearAllMocks();
+  });
+
+  test('同一图片同时请求只下载一次', async () => {
+    const url = 'http://example.com/media/1.png';
+    const [first, second] = await Promise.all([getCachedImage(url, 'thumbnail'), getCachedImage(url, 'thumbnail')]);
+
+    expect(mockedFileSystem.downloadAsync).toHaveBeenCalledTimes(1);
+    expect(first).toBe(`file:///cache/image-cache/thumbnail/${getCacheFileName(url)}`);
+    expect(second).toBe(first);
+    expect(peekCachedImage(url, 'thumbnail')).toBe(first);
+
+    // 已缓存时不再下载
+    await getCachedImage(url, 'thumbnail');
+    expect(mockedFileSystem.downloadAsync).toHaveBeenCalledTimes(1);
+  });
+
+  test('超出容量时删除最久未使用的文件', async () => {
+    await configureImageCache({ thumbnail: 250 });
+    const urls = [1, 2, 3].map(id => `http://example.com/media/${id}.jpg`);
+    await getCachedImage(urls[0], 'thumbnail');
+    await getCachedImage(urls[1], 'thumbnail');
+    await getCachedImage(urls[2], 'thumbnail');
+
+    expect(peekCachedImage(urls[0], 'thumbnail')).toBeNull();
+    expect(peekCachedImage(urls[2], 'thumbnail')).not.toBeNull();
+    expect(mockedFileSystem.deleteAsync).toHaveBeenCalledWith(
+      `file:///cache/image-cache/thumbnail/${getCacheFileName(urls[0])}`,
+      { idempotent: true }
+    );
+    expect(await getImageCacheSize()).toBe(200);
+  });
+
+  test('下载失败或不是网络地址时使用原地址', async () => {
+    mockedFileSystem.downloadAsync.mockResolvedValueOnce({ status: 404 } as any);
+    const url = 'http://example.com/media/missing.jpg';
+    expect(await getCachedImage(url, 'original')).toBe(url);
+    expect(peekCachedImage(url, 'original')).toBeNull();
+
+    expect(await getCachedImage('file:///local.jpg', 'original')).toBe('file:///local.jpg');
+  });
+
+  test('清除缓存后占用为0', async () => {
+    await getCachedImage('http://example.com/media/1.jpg', 'original');
+    expect(await getImageCacheSize()).toBe(100);
+
+    await clearImageCache();
+    expect(await getImageCacheSize()).toBe(0);
+    expect(mockedFileSystem.deleteAsync).toHaveBeenCalledWith('file:///cache/image-cache/', { idempotent: true });
+  });
+
+  test('保存缓存容量，启动时恢复', async () => {
+    await configureImageCache(splitImageCacheBudget(500));
+    expect(getImageCacheBudgets()).toEqual({ thumbnail: 100, original: 400 });
+    expect(JSON.parse((await AsyncStorage.getItem('image_cache_budgets'))!)).toEqual({ thumbnail: 100, original: 400 });
+
+    // 无效的设置被忽略
+    await AsyncStorage.setItem('image_cache_budgets', JSON.stringify({ thumbnail: 300, original: -1 }));
+    await restoreImageCacheBudgets();
+    expect(getImageCacheBudgets()).toEqual({ thumbnail: 300, original: 400 });
+  });
+
+  test('不同地址生成不同的文件名，保留扩展名', () => {
+    expect(getCacheFileName('http://example.com/a.PNG?v=1')).toMatch(/^[0-9a-f]{16}\.png$/);
+    expect(getCacheFileName('http://example.com/a')).toMatch(/\.jpg$/);
+    expect(getCacheFileName('http://example.com/1.jpg')).not.toBe(getCacheFileName('http://example.com/2.jpg'));
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * 图片筛选测试用例
+ * 验证本地筛选与服务器查询条件的含义一致
+ */
+
+import {
+  matchesImageQuery,
+  getImageOrientation,
+  isValidDateString,
+  countActiveFilters,
+} from '../src/utils/imageFilter';
+import { createImage } from './fixtures';
+
+// 一张横向的、属于分组3的图片
+const sunset = createImage(1, {
+  name: '海边日落',
+  description: '夏天拍的',
+  width: 1920,
+  height: 1080,
+  groups: [3],
+  owner: 7,
+  owner_username: 'Alice',
+  uploaded_at: '2024-05-20T08:30:00Z',
+  updated_at: '2024-05-20T08:30:00Z',
+});
+
+describe('Image Filter', () => {
+  test('没有条件时所有图片都匹配', () => {
+    expect(matchesImageQuery(sunset, undefined)).toBe(true);
+    expect(matchesImageQuery(sunset, {})).toBe(true);
+  });
+
+  test('关键词匹配名称、描述和上传者，不区分大小写', () => {
+    const image = sunset;
+    expect(matchesImageQuery(image, { search: '日落' })).toBe(true);
+    expect(matchesImageQuery(image, { search: '夏天' })).toBe(true);
+    expect(matchesImageQuery(image, { search: 'alice' })).toBe(true);
+    expect(matchesImageQuery(image, { search: '雪山' })).toBe(false);
+  });
+
+  test('上传日期范围包含起止当天', () => {
+    const image = sunset;
+    expect(matchesImageQuery(image, { uploadedAfter: '2024-05-20' })).toBe(true);
+    expect(matchesImageQuery(image, { uploadedBefore: '2024-05-20' })).toBe(true);
+    expect(matchesImageQuery(image, { uploadedAfter: '2024-05-21' })).toBe(false);
+    expect(matchesImageQuery(image, { uploadedBefore: '2024-05-19' })).toBe(false);
+  });
+
+  test('按最低分辨率、方向和分组筛选', () => {
+    const image = sunset;
+    expect(matchesImageQuery(image, { minWidth: 1920, minHeight: 1080 })).toBe(true);
+    expect(matchesImageQuery(image, { minWidth: 2000 })).toBe(false);
+    expect(matchesImageQuery(image, { orientation: 'landscape' })).toBe(true);
+    expect(matchesImageQuery(image, { orientation: 'portrait' })).toBe(false);
+    expect(matchesImageQuery(image, { groupId: 3 })).toBe(true);
+    expect(matchesImageQuery(image, { groupId: 4 })).toBe(false);
+  });
+
+  test('只有提供当前用户时才按“我的图片”筛选', () => {
+    const image = sunset;
+    expect(matchesImageQuery(image, { mine: true })).toBe(true);
+    expect(matchesImageQuery(image, { mine: true }, 7)).toBe(true);
+    expect(matchesImageQuery(image, { mine: true }, 8)).toBe(false);
+  });
+
+  test('根据宽高判断方向', () => {
+    expect(getImageOrientation({ width: 100, height: 50 })).toBe('landscape');
+    expect(getImageOrientation({ width: 50, height: 100 })).toBe('portrait');
+    expect(getImageOrientation({ width: 80, height: 80 })).toBe('square');
+  });
+
+  test('验证日期格式', () => {
+    expect(isValidDateString('2024-05-20')).toBe(true);
+    expect(isValidDateString('2024-5-20')).toBe(false);
+    expect(isValidDateString('2024-13-40')).toBe(false);
+  });
+
+  test('统计已设置的筛选条件，日期范围和分辨率各算一项', () => {
+    expect(countActiveFilters({})).toBe(0);
+    expect(countActiveFilters({ mine: true, search: '猫' })).toBe(0);
+    expect(
+      countActiveFilters({
+        owner: 'alice',
+        uploadedAfter: '2024-01-01',
+        uploadedBefore: '2024-12-31',
+        minWidth: 1000,
+        minHeight: 800,
+        orientation: 'square',
+        groupId: 3,
+      })
+    ).toBe(5);
+  });
+});
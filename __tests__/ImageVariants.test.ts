@@ -0,0 +1,58 @@
+/**
+ * 图片缩放版本测试用例
+ * 验证按显示尺寸和像素比选择最小可用版本，没有缩放版本时使用原图
+ */
+
+import { Image } from '../src/types';
+import { THUMBNAIL_SIZE, getImageVariants, selectImageVariant } from '../src/utils/imageVariants';
+import { createImage } from './fixtures';
+
+// 4000×3000的原图
+const createPhoto = (overrides: Partial<Image> = {}): Image =>
+  createImage(1, { width: 4000, height: 3000, ...overrides });
+
+describe('ImageVariants', () => {
+  test('没有缩放版本时使用原图', () => {
+    const image = createPhoto();
+    expect(getImageVariants(image)).toEqual([{ url: image.image, width: 4000, height: 3000 }]);
+    expect(selectImageVariant(image, 150, 150, 3).url).toBe(image.image);
+  });
+
+  test('缩略图和中等尺寸版本按长边估计尺寸', () => {
+    const variants = getImageVariants(
+      createPhoto({ thumbnail: 'http://example.com/1_thumb.jpg', medium: 'http://example.com/1_medium.jpg' })
+    );
+    expect(variants.map(variant => variant.url)).toEqual([
+      'http://example.com/1_thumb.jpg',
+      'http://example.com/1_medium.jpg',
+      'http://example.com/1.jpg',
+    ]);
+    expect(variants[0]).toMatchObject({ width: THUMBNAIL_SIZE, height: 225 });
+  });
+
+  test('选择覆盖显示尺寸乘以像素比的最小版本', () => {
+    const image = createPhoto({
+      variants: [
+        { url: 'http://example.com/1_1600.jpg', width: 1600, height: 1200 },
+        { url: 'http://example.com/1_400.jpg', width: 400, height: 300 },
+        { url: 'http://example.com/1_800.jpg', width: 800, height: 600 },
+      ],
+    });
+
+    expect(selectImageVariant(image, 150, 100, 2).url).toBe('http://example.com/1_400.jpg');
+    expect(selectImageVariant(image, 150, 100, 3).url).toBe('http://example.com/1_800.jpg');
+    // 正方形网格按cover显示，高度也要覆盖
+    expect(selectImageVariant(image, 160, 160, 2).url).toBe('http://example.com/1_800.jpg');
+    expect(selectImageVariant(image, 1000, 750, 3).url).toBe(image.image);
+  });
+
+  test('忽略不比原图小的版本', () => {
+    const image = createPhoto({
+      width: 200,
+      height: 150,
+      thumbnail: 'http://example.com/1_thumb.jpg',
+      variants: [{ url: 'http://example.com/1_800.jpg', width: 800, height: 600 }],
+    });
+    expect(getImageVariants(image).map(variant => variant.url)).toEqual([image.image]);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * 图片状态管理测试用例
+ * 验证实体表和各列表ID之间的一致性
+ */
+
+import imagesReducer, {
+  fetchImages,
+  fetchImageById,
+  updateImage,
+  deleteImage,
+  batchImageAction,
+  uploadImage,
+  switchToUserImages,
+  selectImages,
+  selectAllImages,
+  selectUserImages,
+  selectImagesForList,
+  selectCurrentImage,
+  selectImagesCount,
+  getImageListKey,
+} from '../src/store/slices/imagesSlice';
+import { configureStore } from '@reduxjs/toolkit';
+import { switchAccount, clearAuth } from '../src/store/slices/authSlice';
+import { imagesApi } from '../src/services/api';
+import { ApiResponse, Image, ImagesState } from '../src/types';
+import { createImage } from './fixtures';
+
+// reducer测试不需要真实的API，乐观更新测试只需要可控的更新和删除接口
+jest.mock('../src/services/api', () => ({
+  imagesApi: { updateImage: jest.fn(), deleteImage: jest.fn() },
+}));
+
+const mockedImagesApi = imagesApi as jest.Mocked<typeof imagesApi>;
+
+const page = (results: Image[], count: number | null = results.length) => ({
+  results,
+  count,
+  nextParams: null,
+});
+
+// 构建一个包含所有图片、我的图片和分组列表的状态
+const buildState = (): ImagesState => {
+  const shared = createImage(1, { groups: [5] });
+  let state = imagesReducer(undefined, { type: '@@INIT' });
+  state = imagesReducer(state, fetchImages.fulfilled(page([shared, createImage(2)]), 'r1', undefined));
+  state = imagesReducer(state, fetchImages.fulfilled(page([shared]), 'r2', { mine: true }));
+  state = imagesReducer(state, fetchImages.fulfilled(page([shared]), 'r3', { groupId: 5 }));
+  state = imagesReducer(state, fetchImageById.fulfilled(shared, 'r4', 1));
+  return state;
+};
+
+const root = (images: ImagesState) => ({ images });
+
+const createStore = () =>
+  configureStore({
+    reducer: { images: imagesReducer },
+    preloadedState: { images: buildState() },
+  });
+
+// 不会自动完成的请求，用于观察请求期间的状态
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('Images Slice', () => {
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  test('同一张图片在实体表中只保存一份', () => {
+    const state = buildState();
+
+    expect(state.ids).toEqual([1, 2]);
+    expect(state.lists.all.ids).toEqual([1, 2]);
+    expect(state.lists.mine.ids).toEqual([1]);
+    expect(state.lists['group:5'].ids).toEqual([1]);
+  });
+
+  test('一次更新会反映到所有列表和当前图片', () => {
+    const updated = createImage(1, { name: '新名称', groups: [5] });
+    const state = imagesReducer(
+      buildState(),
+      updateImage.fulfilled(updated, 'r5', { id: 1, changes: { name: '新名称' } })
+    );
+
+    expect(selectAllImages(root(state))[0].name).toBe('新名称');
+    expect(selectUserImages(root(state))[0].name).toBe('新名称');
+    expect(selectImagesForList(root(state), getImageListKey({ groupId: 5 }))[0].name).toBe('新名称');
+    expect(selectCurrentImage(root(state))?.name).toBe('新名称');
+  });
+
+  test('乐观更新在请求完成前生效', async () => {
+    const request = deferred<ApiResponse<Image>>();
+    mockedImagesApi.updateImage.mockReturnValueOnce(request.promise);
+    const store = createStore();
+
+    const result = store.dispatch(updateImage({ id: 1, changes: { description: '草稿' } }));
+
+    expect(selectAllImages(store.getState())[0].description).toBe('草稿');
+    expect(selectUserImages(store.getState())[0].description).toBe('草稿');
+    expect(selectCurrentImage(store.getState())?.description).toBe('草稿');
+
+    request.resolve({ data: createImage(1, { groups: [5], description: '草稿' }), status: 200 });
+    await result;
+  });
+
+  test('更新失败时恢复修改前的数据', async () => {
+    mockedImagesApi.updateImage.mockRejectedValueOnce({ message: '网络错误' });
+    const store = createStore();
+
+    await store.dispatch(updateImage({ id: 1, changes: { description: '草稿' } }));
+
+    expect(selectCurrentImage(store.getState())?.description).toBe('');
+    expect(store.getState().images.error).toBe('网络错误');
+  });
+
+  test('删除图片会从所有列表中移除并更新总数', async () => {
+    const request = deferred<ApiResponse<void>>();
+    mockedImagesApi.deleteImage.mockReturnValueOnce(request.promise);
+    const store = createStore();
+
+    const result = store.dispatch(deleteImage(1));
+    const state = store.getState().images;
+
+    expect(state.entities[1]).toBeUndefined();
+    expect(state.lists.all.ids).toEqual([2]);
+    expect(state.lists.mine.ids).toEqual([]);
+    expect(state.lists['group:5'].ids).toEqual([]);
+    expect(selectImagesCount(root(state), 'all')).toBe(1);
+    expect(selectCurrentImage(root(state))).toBeNull();
+
+    request.resolve({ data: undefined, status: 204 });
+    await result;
+  });
+
+  test('删除失败时图片回到原来的列表位置', async () => {
+    mockedImagesApi.deleteImage.mockRejectedValueOnce({ message: '网络错误' });
+    const store = createStore();
+
+    await store.dispatch(deleteImage(1));
+    const state = store.getState().images;
+
+    expect(state.entities[1]).toBeDefined();
+    expect(state.lists.all.ids).toEqual([1, 2]);
+    expect(state.lists.mine.ids).toEqual([1]);
+    expect(state.lists['group:5'].ids).toEqual([1]);
+    expect(selectImagesCount(root(state), 'all')).toBe(2);
+    expect(selectCurrentImage(root(state))?.id).toBe(1);
+  });
+
+  test('上传的图片会插入到相关列表的最前面', () => {
+    const uploaded = createImage(3, { groups: [5] });
+    const state = imagesReducer(
+      buildState(),
+      uploadImage.fulfilled(uploaded, 'r7', {
+        uploadId: 'u1',
+        data: {
+          file: { uri: 'file:///3.jpg', name: '3.jpg', type: 'image/jpeg' },
+          name: uploaded.name,
+          description: '',
+          groups: [5],
+        },
+      })
+    );
+
+    expect(state.lists.all.ids[0]).toBe(3);
+    expect(state.lists.mine.ids[0]).toBe(3);
+    expect(state.lists['group:5'].ids[0]).toBe(3);
+    expect(selectImagesCount(root(state), 'all')).toBe(3);
+  });
+
+  test('后端忽略筛选参数时在本地筛选，总数标记为未知', () => {
+    const portrait = createImage(3, { width: 600, height: 800 });
+    const query = { orientation: 'portrait' as const };
+    const state = imagesReducer(
+      buildState(),
+      fetchImages.fulfilled(page([createImage(2), portrait], 2), 'r8', query)
+    );
+    const key = getImageListKey(query);
+
+    expect(key).toBe('orientation:portrait');
+    expect(state.lists[key].ids).toEqual([3]);
+    expect(state.lists[key].count).toBeNull();
+    // 筛选结果不会替换首页当前显示的列表
+    expect(state.currentList).toBe(buildState().currentList);
+  });
+
+  test('切换列表只改变当前列表，不复制图片数据', () => {
+    const state = imagesReducer(buildState(), switchToUserImages());
+
+    expect(state.currentList).toBe('mine');
+    expect(selectImages(root(state))).toBe(selectUserImages(root(state)));
+  });
+
+  test('切换账户后清空上一个账户的图片缓存', () => {
+    const state = imagesReducer(
+      buildState(),
+      switchAccount.fulfilled(
+        { user: null, accounts: [], activeAccountId: 'team@http://example.com' },
+        'r9',
+        'team@http://example.com'
+      )
+    );
+
+    expect(state.ids).toEqual([]);
+    expect(state.lists).toEqual({});
+    expect(selectCurrentImage(root(state))).toBeNull();
+  });
+
+  test('登录失效清除认证状态时清空图片缓存', () => {
+    const state = imagesReducer(buildState(), clearAuth());
+
+    expect(state.ids).toEqual([]);
+    expect(state.lists).toEqual({});
+  });
+
+  test('选择器在状态未变化时返回相同的引用', () => {
+    const state = buildState();
+
+    expect(selectAllImages(root(state))).toBe(selectAllImages(root(state)));
+  });
+
+  test('批量删除时单张失败不影响其他图片，并记录失败原因', async () => {
+    mockedImagesApi.deleteImage.mockImplementation(id =>
+      id === 2 ? Promise.reject({ message: '没有权限' }) : Promise.resolve({ data: undefined, status: 204 })
+    );
+    const store = createStore();
+
+    const result = await store.dispatch(batchImageAction({ ids: [1, 2], action: { type: 'delete' } })).unwrap();
+    const state = store.getState().images;
+
+    expect(result.succeeded).toEqual([1]);
+    expect(result.failed).toEqual([{ id: 2, error: expect.objectContaining({ message: '没有权限' }) }]);
+    expect(state.entities[1]).toBeUndefined();
+    expect(state.lists.all.ids).toEqual([2]);
+    expect(state.error).toBeNull();
+  });
+
+  test('批量加入分组只更新尚未加入的图片，并同步分组列表', async () => {
+    mockedImagesApi.updateImage.mockImplementation((id, changes) =>
+      Promise.resolve({ data: createImage(id, changes), status: 200 })
+    );
+    const store = createStore();
+
+    const result = await store
+      .dispatch(batchImageAction({ ids: [1, 2], action: { type: 'addToGroups', groupIds: [5] } }))
+      .unwrap();
+
+    expect(mockedImagesApi.updateImage).toHaveBeenCalledTimes(1);
+    expect(mockedImagesApi.updateImage).toHaveBeenCalledWith(2, { groups: [5] });
+    expect(result).toEqual({ succeeded: [1, 2], failed: [] });
+    expect(store.getState().images.lists['group:5'].ids).toEqual([2, 1]);
+  });
+
+  test('批量移出分组时失败的图片留在分组列表中', async () => {
+    const store = createStore();
+    mockedImagesApi.updateImage.mockRejectedValueOnce({ message: '网络错误' });
+
+    const result = await store
+      .dispatch(batchImageAction({ ids: [1, 3], action: { type: 'removeFromGroups', groupIds: [5] } }))
+      .unwrap();
+
+    // 图片3未加载，按找不到处理
+    expect(result.succeeded).toEqual([]);
+    expect(result.failed.map(failure => failure.id)).toEqual([1, 3]);
+    expect(result.failed[1].error.code).toBe('NOT_FOUND');
+    expect(store.getState().images.lists['group:5'].ids).toEqual([1]);
+    expect(store.getState().images.entities[1]?.groups).toEqual([5]);
+  });
+});
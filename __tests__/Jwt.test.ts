@@ -0,0 +1,41 @@
+/**
+ * JWT工具函数测试用例
+ * 验证payload解析和过期判断
+ */
+
+import { decodeJwtPayload, getTokenExpiry, isTokenExpired } from '../src/utils/jwt';
+import { createJwt } from './fixtures';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+describe('JWT', () => {
+  test('应该解析payload，包括中文内容', () => {
+    const token = createJwt({ user_id: 1, username: '张三', exp: 1700000000 });
+
+    expect(decodeJwtPayload(token)).toEqual({ user_id: 1, username: '张三', exp: 1700000000 });
+  });
+
+  test('格式不正确的token返回null', () => {
+    expect(decodeJwtPayload('not-a-jwt')).toBeNull();
+    expect(decodeJwtPayload('a.!!!.c')).toBeNull();
+    expect(getTokenExpiry('not-a-jwt')).toBeNull();
+  });
+
+  test('应该读取以毫秒表示的过期时间', () => {
+    expect(getTokenExpiry(createJwt({ exp: 1700000000 }))).toBe(1700000000 * 1000);
+    expect(getTokenExpiry(createJwt({ user_id: 1 }))).toBeNull();
+  });
+
+  test('应该根据exp和提前量判断是否过期', () => {
+    const token = createJwt({ exp: NOW / 1000 + 30 });
+
+    expect(isTokenExpired(token, 0, NOW)).toBe(false);
+    expect(isTokenExpired(token, 60 * 1000, NOW)).toBe(true);
+    expect(isTokenExpired(token, 0, NOW + 30 * 1000)).toBe(true);
+  });
+
+  test('无法读取过期时间的token视为未过期', () => {
+    expect(isTokenExpired('opaque-token', 0, NOW)).toBe(false);
+    expect(isTokenExpired(createJwt({ user_id: 1 }), 0, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * 离线缓存测试用例
+ * 验证缓存版本迁移、过期判断、读写，以及恢复缓存时不覆盖服务器数据
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CACHE_STALE_MS,
+  CACHE_VERSION,
+  isCacheStale,
+  loadCache,
+  migrateCache,
+  saveCache,
+} from '../src/services/cache';
+import { selectPersistedCache } from '../src/store/persistence';
+import authReducer, { cacheRestored } from '../src/store/slices/authSlice';
+import imagesReducer, {
+  fetchImages,
+  fetchMoreImages,
+  selectImagesForList,
+} from '../src/store/slices/imagesSlice';
+import groupsReducer, { fetchGroups } from '../src/store/slices/groupsSlice';
+import { Group, Image, PersistedCache, User } from '../src/types';
+import { createImage } from './fixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// reducer测试不需要真实的API
+jest.mock('../src/services/api', () => ({ authApi: {}, accountsApi: {}, imagesApi: {}, groupsApi: {} }));
+
+const user: User = {
+  id: 1,
+  username: 'tester',
+  email: 'tester@example.com',
+  first_name: '',
+  last_name: '',
+  is_staff: false,
+};
+
+const createGroup = (id: number): Group => ({
+  id,
+  name: `分组${id}`,
+  description: '',
+  created_at: '2024-01-01T00:00:00Z',
+});
+
+const page = (results: Image[]) => ({ results, count: results.length, nextParams: null });
+
+const createCache = (overrides: Partial<PersistedCache> = {}): PersistedCache => ({
+  version: CACHE_VERSION,
+  savedAt: 1000,
+  user,
+  images: [createImage(1), createImage(2)],
+  imageLists: {
+    all: {
+      ids: [1, 2],
+      nextParams: null,
+      count: 2,
+      isLoadingMore: false,
+      updatedAt: 1000,
+      firstPageSize: 2,
+      firstPageNextParams: null,
+    },
+  },
+  groups: [createGroup(5)],
+  groupsUpdatedAt: 1000,
+  ...overrides,
+});
+
+// 已登录账户的状态
+const buildRoot = () => {
+  const auth = { ...authReducer(undefined, { type: '@@INIT' }), user, activeAccountId: 'a1' };
+  return {
+    auth,
+    images: imagesReducer(undefined, { type: '@@INIT' }),
+    groups: groupsReducer(undefined, { type: '@@INIT' }),
+  };
+};
+
+describe('OfflineCache', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  test('依次执行迁移到当前版本', () => {
+    const migrations = {
+      2: (cache: any) => ({ ...cache, groups: cache.groupList }),
+      3: (cache: any) => ({ ...cache, groupsUpdatedAt: null }),
+    };
+
+    const migrated = migrateCache({ version: 1, groupList: [createGroup(5)] }, migrations, 3);
+    expect(migrated).toMatchObject({ version: 3, groups: [createGroup(5)], groupsUpdatedAt: null });
+  });
+
+  test('无法识别、版本更新或缺少迁移时丢弃缓存', () => {
+    expect(migrateCache(null)).toBeNull();
+    expect(migrateCache({ images: [] })).toBeNull();
+    expect(migrateCache({ version: CACHE_VERSION + 1 })).toBeNull();
+    expect(migrateCache({ version: 1 }, {}, 2)).toBeNull();
+  });
+
+  test('超过过期时间才算过期，从未获取过不算过期', () => {
+    expect(isCacheStale(null)).toBe(false);
+    expect(isCacheStale(0, CACHE_STALE_MS - 1)).toBe(false);
+    expect(isCacheStale(0, CACHE_STALE_MS)).toBe(true);
+  });
+
+  test('按账户保存和读取缓存，不兼容的缓存读取为空', async () => {
+    await saveCache('a1', createCache());
+    expect(await loadCache('a1')).toEqual(createCache());
+    expect(await loadCache('a2')).toBeNull();
+
+    await AsyncStorage.setItem('offline_cache:a2', JSON.stringify({ version: CACHE_VERSION + 1 }));
+    expect(await loadCache('a2')).toBeNull();
+  });
+
+  test('只保存已从服务器获取过的图片列表和其中的图片', () => {
+    const initial = buildRoot();
+    expect(selectPersistedCache(initial)).toBeNull();
+
+    let images = imagesReducer(initial.images, fetchImages.fulfilled(page([createImage(1)]), 'r1', undefined));
+    images = imagesReducer(images, fetchImages.fulfilled(page([createImage(2)]), 'r2', { search: '图片' }));
+    const root = { ...initial, images };
+
+    const snapshot = selectPersistedCache(root);
+    expect(snapshot?.accountId).toBe('a1');
+    expect(Object.keys(snapshot!.cache.imageLists)).toEqual(['all']);
+    expect(snapshot!.cache.images.map(image => image.id)).toEqual([1]);
+    expect(snapshot!.cache.user).toEqual(user);
+    // 数据未变化时返回同一个对象，不会重复保存
+    expect(selectPersistedCache({ ...root })).toBe(snapshot);
+  });
+
+  test('列表只保存第一页和其中的图片，恢复后从第二页继续加载', () => {
+    const initial = buildRoot();
+    let images = imagesReducer(
+      initial.images,
+      fetchImages.fulfilled({ results: [createImage(1), createImage(2)], count: 4, nextParams: { page: '2' } }, 'r1', undefined)
+    );
+    images = imagesReducer(
+      images,
+      fetchMoreImages.fulfilled({ results: [createImage(3), createImage(4)], count: 4, nextParams: null }, 'r2', undefined)
+    );
+    expect(images.lists.all.ids).toEqual([1, 2, 3, 4]);
+
+    const snapshot = selectPersistedCache({ ...initial, images });
+    expect(snapshot!.cache.imageLists.all).toMatchObject({ ids: [1, 2], nextParams: { page: '2' }, count: 4 });
+    expect(snapshot!.cache.images.map(image => image.id)).toEqual([1, 2]);
+  });
+
+  test('未登录时不保存', () => {
+    const initial = buildRoot();
+    const root = { ...initial, groups: groupsReducer(initial.groups, fetchGroups.fulfilled([createGroup(5)], 'r1')) };
+    expect(selectPersistedCache(root)).not.toBeNull();
+
+    expect(selectPersistedCache({ ...root, auth: { ...root.auth, activeAccountId: null } })).toBeNull();
+  });
+
+  test('恢复缓存时补充还没有的列表', () => {
+    const images = imagesReducer(undefined, cacheRestored(createCache()));
+    expect(selectImagesForList({ images }, 'all').map(image => image.id)).toEqual([1, 2]);
+    expect(images.lists.all.updatedAt).toBe(1000);
+
+    const groups = groupsReducer(undefined, cacheRestored(createCache()));
+    expect(groups.groups).toEqual([createGroup(5)]);
+    expect(groups.updatedAt).toBe(1000);
+  });
+
+  test('已从服务器获取的数据不被缓存覆盖', () => {
+    let images = imagesReducer(undefined, fetchImages.fulfilled(page([createImage(3)]), 'r1', undefined));
+    images = imagesReducer(images, cacheRestored(createCache()));
+    expect(selectImagesForList({ images }, 'all').map(image => image.id)).toEqual([3]);
+
+    let groups = groupsReducer(undefined, fetchGroups.fulfilled([createGroup(6)], 'r1'));
+    groups = groupsReducer(groups, cacheRestored(createCache()));
+    expect(groups.groups).toEqual([createGroup(6)]);
+    expect(groups.updatedAt).not.toBe(1000);
+  });
+});
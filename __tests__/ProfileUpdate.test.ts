@@ -0,0 +1,130 @@
+/**
+ * 个人资料修改测试用例
+ * 验证乐观更新、失败回滚以及修改密码的表单验证
+ */
+
+import { configureStore } from '@reduxjs/toolkit';
+import authReducer, { updateProfile, selectUser } from '../src/store/slices/authSlice';
+import { authApi } from '../src/services/api';
+import { validatePasswordChangeInput, validateProfileInput } from '../src/utils/errorHandling';
+import { ApiError, User } from '../src/types';
+
+jest.mock('../src/services/api', () => ({
+  authApi: { updateProfile: jest.fn() },
+  accountsApi: {},
+}));
+
+const mockedUpdateProfile = authApi.updateProfile as jest.Mock;
+
+const user: User = {
+  id: 1,
+  username: 'tester',
+  email: 'tester@example.com',
+  first_name: '三',
+  last_name: '张',
+  avatar: null,
+  is_staff: false,
+};
+
+const createStore = () =>
+  configureStore({
+    reducer: { auth: authReducer },
+    preloadedState: {
+      auth: {
+        user,
+        tokens: null,
+        accounts: [],
+        activeAccountId: 'tester@http://example.com',
+        isAuthenticated: true,
+        isLoading: false,
+        error: null,
+      },
+    },
+  });
+
+// 可以手动完成的Promise，用于检查请求进行中的状态
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('Profile Update', () => {
+  beforeEach(() => {
+    mockedUpdateProfile.mockReset();
+  });
+
+  test('修改资料时立即更新用户信息，成功后以服务器数据为准', async () => {
+    const request = deferred<{ data: User }>();
+    mockedUpdateProfile.mockReturnValue(request.promise);
+    const store = createStore();
+
+    const result = store.dispatch(updateProfile({ first_name: '四' }));
+    expect(selectUser(store.getState())?.first_name).toBe('四');
+
+    request.resolve({ data: { ...user, first_name: '四', email: 'new@example.com' } });
+    await result;
+
+    expect(selectUser(store.getState())).toEqual({ ...user, first_name: '四', email: 'new@example.com' });
+  });
+
+  test('新头像在上传完成前显示本地图片', () => {
+    mockedUpdateProfile.mockReturnValue(new Promise(() => {}));
+    const store = createStore();
+
+    store.dispatch(
+      updateProfile({ avatar: { uri: 'file:///avatar.jpg', name: 'avatar.jpg', type: 'image/jpeg' } })
+    );
+
+    expect(selectUser(store.getState())?.avatar).toBe('file:///avatar.jpg');
+  });
+
+  test('修改失败时回滚并返回字段错误', async () => {
+    const apiError: ApiError = {
+      message: '邮箱: 该邮箱已被使用。',
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      fieldErrors: { email: ['该邮箱已被使用。'] },
+      retryable: false,
+    };
+    mockedUpdateProfile.mockRejectedValue(apiError);
+    const store = createStore();
+
+    const result = await store.dispatch(updateProfile({ email: 'taken@example.com', first_name: '四' }));
+
+    expect(selectUser(store.getState())).toEqual(user);
+    expect(result.payload).toEqual(apiError);
+  });
+
+  test('个人资料表单应该验证邮箱', () => {
+    expect(validateProfileInput({ first_name: '', last_name: '', email: 'bad' }).fieldErrors).toEqual({
+      email: '邮箱格式不正确',
+    });
+    expect(validateProfileInput({ first_name: '三', last_name: '张', email: 'a@b.com' }).isValid).toBe(true);
+  });
+
+  test('修改密码表单应该验证各个字段', () => {
+    expect(
+      validatePasswordChangeInput({ oldPassword: '', newPassword: '123', confirmPassword: '' }).fieldErrors
+    ).toEqual({
+      old_password: '请输入当前密码',
+      new_password: '新密码至少需要6个字符',
+    });
+    expect(
+      validatePasswordChangeInput({ oldPassword: 'secret123', newPassword: 'secret123', confirmPassword: 'secret123' })
+        .fieldErrors
+    ).toEqual({ new_password: '新密码不能与当前密码相同' });
+    expect(
+      validatePasswordChangeInput({ oldPassword: 'secret123', newPassword: 'secret456', confirmPassword: 'secret789' })
+        .fieldErrors
+    ).toEqual({ confirmPassword: '两次输入的密码不一致' });
+    expect(
+      validatePasswordChangeInput({ oldPassword: 'secret123', newPassword: 'secret456', confirmPassword: 'secret456' })
+        .isValid
+    ).toBe(true);
+  });
+});
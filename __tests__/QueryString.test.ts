@@ -0,0 +1,26 @@
+/**
+ * 查询参数解析测试用例
+ * 验证值中包含=时不被截断，以及键和值的解码
+ */
+
+import { parseQueryString } from '../src/utils';
+
+describe('parseQueryString', () => {
+  test('解析完整URL中的查询参数，忽略#之后的部分', () => {
+    expect(parseQueryString('http://example.com/api/images/?page=2&page_size=20#top')).toEqual({
+      page: '2',
+      page_size: '20',
+    });
+  });
+
+  test('值中包含=时保留完整的值', () => {
+    expect(parseQueryString('uid=MQ==&token=abc=def')).toEqual({ uid: 'MQ==', token: 'abc=def' });
+  });
+
+  test('解码键和值，没有=的参数值为空', () => {
+    expect(parseQueryString('?search%5Bname%5D=%E6%97%A5%E8%90%BD+2024&flag')).toEqual({
+      'search[name]': '日落 2024',
+      flag: '',
+    });
+  });
+});
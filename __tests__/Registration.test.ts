@@ -0,0 +1,110 @@
+/**
+ * 注册和找回密码测试用例
+ * 验证表单校验以及后端字段错误的解析
+ */
+
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { apiClient, authApi } from '../src/services/api';
+import { validateRegisterInput, validateEmailInput } from '../src/utils/errorHandling';
+
+jest.mock('expo-secure-store', () => ({
+  getItemAsync: jest.fn(async () => null),
+  setItemAsync: jest.fn(async () => undefined),
+  deleteItemAsync: jest.fn(async () => undefined),
+}));
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+jest.mock('expo-constants', () => ({ expoConfig: { extra: {} } }));
+
+// 让所有请求返回指定的错误响应
+const respondWith = (status: number, data: unknown) => {
+  apiClient.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const response = { status, data, statusText: '', headers: {}, config };
+    throw new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response);
+  };
+};
+
+const validForm = {
+  username: 'new_user',
+  email: 'new@example.com',
+  password: 'secret123',
+  confirmPassword: 'secret123',
+};
+
+describe('Registration', () => {
+  test('有效的注册信息应该通过验证', () => {
+    expect(validateRegisterInput(validForm)).toEqual({ isValid: true, fieldErrors: {} });
+  });
+
+  test('应该为每个字段返回对应的错误', () => {
+    const result = validateRegisterInput({
+      username: 'ab',
+      email: 'not-an-email',
+      password: '123',
+      confirmPassword: '123',
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.fieldErrors).toEqual({
+      username: '用户名至少需要3个字符',
+      email: '邮箱格式不正确',
+      password: '密码至少需要6个字符',
+    });
+  });
+
+  test('用户名包含非法字符或两次密码不一致时应该提示', () => {
+    const result = validateRegisterInput({
+      ...validForm,
+      username: 'new user',
+      confirmPassword: 'secret124',
+    });
+
+    expect(result.fieldErrors.username).toContain('字母、数字和下划线');
+    expect(result.fieldErrors.confirmPassword).toBe('两次输入的密码不一致');
+  });
+
+  test('邮箱为空或格式错误时应该提示', () => {
+    expect(validateEmailInput('  ')).toBe('请输入邮箱');
+    expect(validateEmailInput('a@b')).toBe('邮箱格式不正确');
+    expect(validateEmailInput(' user@example.com ')).toBeNull();
+  });
+
+  test('后端返回的字段错误应该按字段解析', async () => {
+    respondWith(400, {
+      email: ['该邮箱已被注册。'],
+      username: ['已存在一位使用该名字的用户。'],
+    });
+
+    await expect(
+      authApi.register({ username: 'taken', email: 'taken@example.com', password: 'secret123' })
+    ).rejects.toEqual({
+      message: '用户名: 已存在一位使用该名字的用户。',
+      status: 400,
+      code: 'VALIDATION_ERROR',
+      fieldErrors: {
+        username: ['已存在一位使用该名字的用户。'],
+        email: ['该邮箱已被注册。'],
+      },
+      retryable: false,
+    });
+  });
+
+  test('未知字段的错误也应该保留在字段错误中', async () => {
+    respondWith(400, { invite_code: '邀请码无效' });
+
+    await expect(
+      authApi.register({ username: 'someone', email: 'a@example.com', password: 'secret123' })
+    ).rejects.toMatchObject({
+      message: 'invite_code: 邀请码无效',
+      fieldErrors: { invite_code: ['邀请码无效'] },
+    });
+  });
+
+  test('非字段错误不产生字段错误', async () => {
+    respondWith(400, { non_field_errors: ['邮件发送失败，请稍后重试'] });
+
+    const error = await authApi.requestPasswordReset('user@example.com').catch(e => e);
+
+    expect(error.message).toBe('邮件发送失败，请稍后重试');
+    expect(error.fieldErrors).toEqual({});
+  });
+});
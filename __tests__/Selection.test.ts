@@ -0,0 +1,53 @@
+/**
+ * 多选测试用例
+ * 验证点选切换、拖动范围选择和按触摸位置定位图片
+ */
+
+import { selectRange, toggleSelection } from '../src/utils/selection';
+import { computeSquareLayout, findFrameAtPoint } from '../src/utils/gridLayout';
+
+describe('Selection', () => {
+  test('点选切换选中状态', () => {
+    expect(toggleSelection([1, 2], 3)).toEqual([1, 2, 3]);
+    expect(toggleSelection([1, 2, 3], 2)).toEqual([1, 3]);
+  });
+
+  test('拖动选中起点到当前位置之间的所有图片', () => {
+    const ids = [10, 11, 12, 13, 14];
+
+    expect(selectRange(ids, [], 1, 3)).toEqual([11, 12, 13]);
+    // 向上拖动
+    expect(selectRange(ids, [], 3, 1)).toEqual([11, 12, 13]);
+  });
+
+  test('拖动保留之前的选择，往回拖动时恢复原状', () => {
+    const ids = [10, 11, 12, 13, 14];
+    const base = [14, 11];
+
+    expect(selectRange(ids, base, 0, 2)).toEqual([14, 11, 10, 12]);
+    expect(selectRange(ids, base, 0, 0)).toEqual([14, 11, 10]);
+  });
+
+  test('方格布局按行排列并计入间距', () => {
+    // 容器宽220，两列间距20，格子宽100；行距为高度加两倍间距
+    const layout = computeSquareLayout(3, 220, 2, 150, 20, 190);
+
+    expect(layout.frames).toEqual([
+      { x: 0, y: 0, width: 100, height: 150 },
+      { x: 120, y: 0, width: 100, height: 150 },
+      { x: 0, y: 190, width: 100, height: 150 },
+    ]);
+    expect(layout.height).toBe(340);
+    expect(computeSquareLayout(0, 220, 2, 150, 20, 190).height).toBe(0);
+  });
+
+  test('按触摸位置查找图片，落在间距中时返回-1', () => {
+    const { frames } = computeSquareLayout(3, 220, 2, 150, 20, 190);
+
+    expect(findFrameAtPoint(frames, 50, 50)).toBe(0);
+    expect(findFrameAtPoint(frames, 150, 100)).toBe(1);
+    expect(findFrameAtPoint(frames, 50, 200)).toBe(2);
+    expect(findFrameAtPoint(frames, 110, 50)).toBe(-1);
+    expect(findFrameAtPoint(frames, 150, 200)).toBe(-1);
+  });
+});
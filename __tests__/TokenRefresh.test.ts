@@ -0,0 +1,231 @@
+/**
+ * token刷新测试用例
+ * 验证并发401时只刷新一次、轮换的refresh token会被保存，以及刷新失败的处理
+ */
+
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { apiClient, subscribeSessionExpired } from '../src/services/api';
+import * as SecureStore from 'expo-secure-store';
+import { createJwt } from './fixtures';
+
+// 用内存代替安全存储
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      store.delete(key);
+    }),
+  };
+});
+jest.mock('react-native', () => ({ Platform: { OS: 'ios' } }));
+jest.mock('expo-constants', () => ({ expoConfig: { extra: {} } }));
+
+const TOKEN_KEY = 'auth_tokens';
+
+type MockHandler = (config: InternalAxiosRequestConfig) => { status: number; data: unknown };
+
+// 模拟axios适配器，非2xx响应按axios的方式抛出错误
+const mockAdapter = (handler: MockHandler) =>
+  jest.fn(async (config: InternalAxiosRequestConfig) => {
+    const { status, data } = handler(config);
+    const response = { status, data, statusText: '', headers: {}, config };
+    if (status >= 200 && status < 300) {
+      return response;
+    }
+    throw new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response);
+  });
+
+const saveTokens = (access: string, refresh: string) =>
+  SecureStore.setItemAsync(TOKEN_KEY, JSON.stringify({ access, refresh }));
+
+const readTokens = async () => {
+  const stored = await SecureStore.getItemAsync(TOKEN_KEY);
+  return stored ? JSON.parse(stored) : null;
+};
+
+// 从现在起指定秒数后过期的exp声明
+const expiresIn = (seconds: number) => ({ exp: Math.floor(Date.now() / 1000) + seconds });
+
+const isRefreshRequest = (config: InternalAxiosRequestConfig) =>
+  config.url === '/token/refresh/';
+
+const getBody = (config: InternalAxiosRequestConfig) =>
+  typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+
+describe('Token Refresh', () => {
+  beforeEach(async () => {
+    await SecureStore.deleteItemAsync(TOKEN_KEY);
+  });
+
+  test('并发的401请求只刷新一次token，并用新token重发', async () => {
+    await saveTokens('expired-access', 'refresh-1');
+
+    const adapter = mockAdapter(config => {
+      if (isRefreshRequest(config)) {
+        return { status: 200, data: { access: 'new-access', refresh: 'refresh-2' } };
+      }
+      if (config.headers.Authorization === 'Bearer new-access') {
+        return { status: 200, data: { url: config.url } };
+      }
+      return { status: 401, data: { detail: 'Given token not valid for any token type' } };
+    });
+    apiClient.defaults.adapter = adapter;
+
+    const responses = await Promise.all([
+      apiClient.get('/me/'),
+      apiClient.get('/images/'),
+      apiClient.get('/groups/'),
+    ]);
+
+    expect(responses.map(response => response.data.url)).toEqual(['/me/', '/images/', '/groups/']);
+    const refreshCalls = adapter.mock.calls.filter(([config]) => isRefreshRequest(config));
+    expect(refreshCalls).toHaveLength(1);
+    expect(getBody(refreshCalls[0][0])).toEqual({ refresh: 'refresh-1' });
+    // 刷新请求本身不携带过期的access token
+    expect(refreshCalls[0][0].headers.Authorization).toBeUndefined();
+    // 后端轮换的refresh token需要保存
+    expect(await readTokens()).toEqual({ access: 'new-access', refresh: 'refresh-2' });
+  });
+
+  test('后端不返回新的refresh token时保留原来的', async () => {
+    await saveTokens('expired-access', 'refresh-1');
+
+    apiClient.defaults.adapter = mockAdapter(config => {
+      if (isRefreshRequest(config)) {
+        return { status: 200, data: { access: 'new-access' } };
+      }
+      return config.headers.Authorization === 'Bearer new-access'
+        ? { status: 200, data: {} }
+        : { status: 401, data: {} };
+    });
+
+    await apiClient.get('/me/');
+
+    expect(await readTokens()).toEqual({ access: 'new-access', refresh: 'refresh-1' });
+  });
+
+  test('刷新失败时所有等待的请求都失败', async () => {
+    await saveTokens('expired-access', 'refresh-1');
+
+    const adapter = mockAdapter(config =>
+      isRefreshRequest(config)
+        ? { status: 500, data: { detail: 'Server error' } }
+        : { status: 401, data: {} }
+    );
+    apiClient.defaults.adapter = adapter;
+
+    const results = await Promise.allSettled([apiClient.get('/me/'), apiClient.get('/images/')]);
+
+    expect(results.every(result => result.status === 'rejected')).toBe(true);
+    expect(adapter.mock.calls.filter(([config]) => isRefreshRequest(config))).toHaveLength(1);
+    // 服务器临时故障不代表登录失效，保留token稍后重试
+    expect(await readTokens()).toEqual({ access: 'expired-access', refresh: 'refresh-1' });
+  });
+
+  test('refresh token本身过期时不会循环刷新', async () => {
+    await saveTokens('expired-access', 'expired-refresh');
+
+    const adapter = mockAdapter(config =>
+      isRefreshRequest(config)
+        ? { status: 401, data: { detail: 'Token is invalid or expired', code: 'token_not_valid' } }
+        : { status: 401, data: {} }
+    );
+    apiClient.defaults.adapter = adapter;
+
+    const results = await Promise.allSettled([apiClient.get('/me/'), apiClient.get('/images/')]);
+
+    results.forEach(result => {
+      expect(result.status).toBe('rejected');
+      expect((result as PromiseRejectedResult).reason.response.status).toBe(401);
+    });
+    // 两个原始请求 + 一次刷新，没有重发
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(await readTokens()).toBeNull();
+  });
+
+  test('refresh token被拒绝时只通知一次登录失效', async () => {
+    await saveTokens('expired-access', 'expired-refresh');
+    apiClient.defaults.adapter = mockAdapter(() => ({ status: 401, data: {} }));
+
+    const listener = jest.fn();
+    const unsubscribe = subscribeSessionExpired(listener);
+    await Promise.allSettled([apiClient.get('/me/'), apiClient.get('/images/')]);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(null);
+  });
+
+  test('刷新遇到服务器错误时不通知登录失效', async () => {
+    await saveTokens('expired-access', 'refresh-1');
+    apiClient.defaults.adapter = mockAdapter(config =>
+      isRefreshRequest(config) ? { status: 503, data: {} } : { status: 401, data: {} }
+    );
+
+    const listener = jest.fn();
+    const unsubscribe = subscribeSessionExpired(listener);
+    await expect(apiClient.get('/me/')).rejects.toBeDefined();
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('access token即将过期时在请求前提前刷新', async () => {
+    const refreshToken = createJwt(expiresIn(24 * 3600));
+    const newAccess = createJwt(expiresIn(300));
+    await saveTokens(createJwt(expiresIn(30)), refreshToken);
+
+    const adapter = mockAdapter(config => {
+      if (isRefreshRequest(config)) {
+        return { status: 200, data: { access: newAccess } };
+      }
+      return config.headers.Authorization === `Bearer ${newAccess}`
+        ? { status: 200, data: {} }
+        : { status: 401, data: {} };
+    });
+    apiClient.defaults.adapter = adapter;
+
+    await Promise.all([apiClient.get('/me/'), apiClient.get('/images/')]);
+
+    // 一次刷新 + 两个请求，没有请求因为401失败
+    expect(adapter).toHaveBeenCalledTimes(3);
+    expect(adapter.mock.calls.filter(([config]) => isRefreshRequest(config))).toHaveLength(1);
+    expect(await readTokens()).toEqual({ access: newAccess, refresh: refreshToken });
+  });
+
+  test('refresh token已过期时不请求刷新并清除token', async () => {
+    await saveTokens(createJwt(expiresIn(-3600)), createJwt(expiresIn(-60)));
+
+    const adapter = mockAdapter(() => ({ status: 401, data: {} }));
+    apiClient.defaults.adapter = adapter;
+
+    await expect(apiClient.get('/me/')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(await readTokens()).toBeNull();
+  });
+
+  test('没有保存token时直接返回原始的401错误', async () => {
+    const adapter = mockAdapter(() => ({ status: 401, data: { detail: '身份认证信息未提供。' } }));
+    apiClient.defaults.adapter = adapter;
+
+    await expect(apiClient.get('/me/')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  test('登录请求返回401时不尝试刷新token', async () => {
+    await saveTokens('some-access', 'refresh-1');
+
+    const adapter = mockAdapter(() => ({ status: 401, data: { detail: '用户名或密码错误' } }));
+    apiClient.defaults.adapter = adapter;
+
+    await expect(
+      apiClient.post('/token/', { username: 'a', password: 'b' }, { skipAuthRefresh: true })
+    ).rejects.toMatchObject({ response: { status: 401 } });
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(await readTokens()).toEqual({ access: 'some-access', refresh: 'refresh-1' });
+  });
+});
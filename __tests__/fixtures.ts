@@ -0,0 +1,31 @@
+/**
+ * 测试数据
+ * 各测试用例共用的数据构造函数，Image类型变化时只需修改这里
+ */
+
+import { Image } from '../src/types';
+
+/**
+ * 构造一张图片，名称和地址按id生成，其余字段可覆盖
+ */
+export const createImage = (id: number = 1, overrides: Partial<Image> = {}): Image => ({
+  id,
+  name: `图片${id}`,
+  description: '',
+  image: `http://example.com/${id}.jpg`,
+  width: 800,
+  height: 600,
+  size: 1024,
+  groups: [],
+  owner: 1,
+  owner_username: 'tester',
+  uploaded_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+/**
+ * 生成指定payload的JWT（签名部分不校验）
+ */
+export const createJwt = (payload: object): string =>
+  `header.${Buffer.from(JSON.stringify(payload)).toString('base64url')}.signature`;
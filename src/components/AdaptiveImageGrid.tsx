@@ -0,0 +1,195 @@
+/**
+ * 自适应图片网格组件
+ * 按图片宽高比以瀑布流或按行对齐的方式排列，只渲染可见区域附近的图片
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  ScrollView,
+  TouchableOpacity,
+  Text,
+  StyleSheet,
+  Dimensions,
+  PixelRatio,
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import { Image as ImageType } from '../types';
+import {
+  GridLayout,
+  computeJustifiedLayout,
+  computeMasonryLayout,
+  getTargetRowHeight,
+  getVisibleRange,
+} from '../utils/gridLayout';
+import { selectImageVariant } from '../utils/imageVariants';
+import CachedImage from './CachedImage';
+import SelectionMark from './SelectionMark';
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+
+const CONTENT_PADDING = 20;
+const SPACING = 4;
+const CONTAINER_WIDTH = screenWidth - CONTENT_PADDING * 2;
+
+/**
+ * 计算瀑布流或按行对齐布局，位置相对于内边距以内的内容区域
+ */
+export const computeAdaptiveLayout = (
+  images: ImageType[],
+  mode: 'masonry' | 'justified',
+  columns: number
+): GridLayout =>
+  mode === 'masonry'
+    ? computeMasonryLayout(images, CONTAINER_WIDTH, columns, SPACING)
+    : computeJustifiedLayout(images, CONTAINER_WIDTH, getTargetRowHeight(CONTAINER_WIDTH, columns), SPACING);
+
+interface Props {
+  images: ImageType[];
+  layout: GridLayout;          // 由computeAdaptiveLayout计算
+  onImagePress: (imageId: number) => void;
+  onEndReached?: () => void;   // 滚动到底部时加载下一页
+  onScrollOffsetChange?: (offset: number) => void;
+  isLoadingMore?: boolean;
+  emptyText: string;
+  isSelecting?: boolean;       // 多选模式下显示选中标记
+  selectedIds?: number[];
+}
+
+const AdaptiveImageGrid: React.FC<Props> = ({
+  images,
+  layout,
+  onImagePress,
+  onEndReached,
+  onScrollOffsetChange,
+  isLoadingMore = false,
+  emptyText,
+  isSelecting = false,
+  selectedIds = [],
+}) => {
+  const [viewportHeight, setViewportHeight] = useState(screenHeight);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const scrollOffset = useRef(0);
+  // 已为哪个内容高度触发过加载下一页，避免重复触发
+  const endReachedHeight = useRef<number | null>(null);
+
+  // 根据滚动位置更新需要渲染的范围（上下各多渲染一屏），接近底部时加载下一页
+  const handleOffsetChange = useCallback(
+    (offset: number) => {
+      const top = offset - CONTENT_PADDING;
+      const next = getVisibleRange(layout.frames, top - viewportHeight, top + viewportHeight * 2);
+      setRange(prev => (prev.start === next.start && prev.end === next.end ? prev : next));
+
+      if (
+        onEndReached &&
+        layout.height > 0 &&
+        top + viewportHeight >= layout.height - viewportHeight * 0.5 &&
+        endReachedHeight.current !== layout.height
+      ) {
+        endReachedHeight.current = layout.height;
+        onEndReached();
+      }
+    },
+    [layout, viewportHeight, onEndReached]
+  );
+
+  // 加载结束后允许再次触发（加载失败时内容高度不变，继续滚动可以重试）
+  const wasLoadingMore = useRef(isLoadingMore);
+  useEffect(() => {
+    if (wasLoadingMore.current && !isLoadingMore) {
+      endReachedHeight.current = null;
+    }
+    wasLoadingMore.current = isLoadingMore;
+  }, [isLoadingMore]);
+
+  // 布局或可见区域大小变化时重新计算
+  useEffect(() => {
+    handleOffsetChange(scrollOffset.current);
+  }, [handleOffsetChange]);
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    scrollOffset.current = event.nativeEvent.contentOffset.y;
+    handleOffsetChange(scrollOffset.current);
+    onScrollOffsetChange?.(scrollOffset.current);
+  };
+
+  if (images.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateText}>{emptyText}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      contentContainerStyle={styles.container}
+      showsVerticalScrollIndicator={false}
+      onScroll={handleScroll}
+      scrollEventThrottle={16}
+      onLayout={event => setViewportHeight(event.nativeEvent.layout.height)}
+    >
+      <View style={{ height: layout.height }}>
+        {images.slice(range.start, range.end).map((image, offset) => {
+          const frame = layout.frames[range.start + offset];
+          return (
+            <TouchableOpacity
+              key={image.id}
+              style={[
+                styles.tile,
+                { left: frame.x, top: frame.y, width: frame.width, height: frame.height },
+              ]}
+              onPress={() => onImagePress(image.id)}
+              activeOpacity={0.8}
+            >
+              <CachedImage
+                uri={selectImageVariant(image, frame.width, frame.height, PixelRatio.get()).url}
+                style={styles.image}
+                resizeMode="cover"
+              />
+              {isSelecting && <SelectionMark selected={selectedIds.includes(image.id)} />}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      {isLoadingMore && (
+        <View style={styles.footer}>
+          <ActivityIndicator color="#2196F3" />
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    padding: CONTENT_PADDING,
+  },
+  tile: {
+    position: 'absolute',
+    borderRadius: 4,
+    overflow: 'hidden',
+    backgroundColor: '#eee',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#999',
+  },
+  footer: {
+    paddingVertical: 20,
+  },
+});
+
+export default AdaptiveImageGrid;
@@ -0,0 +1,247 @@
+/**
+ * 批量操作栏
+ * 多选模式下显示在页面底部，对选中的图片执行删除、分组、保存、分享和编辑
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { batchImageAction } from '../store/slices/imagesSlice';
+import { selectGroups } from '../store/slices/groupsSlice';
+import { ApiError, BatchImageAction, BatchImageResult, Group, ImageUpdateData, Image as ImageType } from '../types';
+import { confirmAction } from '../utils/confirm';
+import {
+  isMediaLibraryAvailable,
+  requestMediaLibraryPermission,
+  saveImagesToLibrary,
+} from '../services/mediaLibrary';
+import { useToast } from '../contexts/ToastContext';
+import { MessageKey, useI18n } from '../i18n';
+import GroupPickerSheet from './GroupPickerSheet';
+import BatchEditSheet from './BatchEditSheet';
+
+interface Props {
+  images: ImageType[];         // 选中的图片
+  currentGroup?: Group;        // 在分组详情中时，移出分组直接移出当前分组
+  onComplete: (remainingIds: number[]) => void;   // 操作完成，参数为失败后保持选中的图片
+  onCreateGroup?: () => void;
+}
+
+type GroupSheetMode = 'add' | 'remove';
+
+const BatchActionBar: React.FC<Props> = ({ images, currentGroup, onComplete, onCreateGroup }) => {
+  const { t } = useI18n();
+  const dispatch = useAppDispatch();
+  const groups = useAppSelector(selectGroups);
+  const toast = useToast();
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [groupSheetMode, setGroupSheetMode] = useState<GroupSheetMode | null>(null);
+  const [editSheetVisible, setEditSheetVisible] = useState(false);
+  const count = images.length;
+
+  // 汇总提示每张图片的结果，失败的图片保持选中以便重试
+  const reportResult = (
+    { succeeded, failed }: BatchImageResult,
+    successMessage: MessageKey = 'batch.succeeded'
+  ) => {
+    if (failed.length === 0) {
+      toast.showSuccess(t(successMessage, { count: succeeded.length }));
+    } else if (succeeded.length === 0) {
+      toast.showError(t('batch.failed', { count: failed.length, error: failed[0].error.message }));
+    } else {
+      toast.showWarning(
+        t('batch.partialFailed', {
+          succeeded: succeeded.length,
+          failed: failed.length,
+          error: failed[0].error.message,
+        })
+      );
+    }
+    onComplete(failed.map(failure => failure.id));
+  };
+
+  // 执行批量操作
+  const runAction = async (action: BatchImageAction): Promise<boolean> => {
+    setIsProcessing(true);
+    try {
+      const result = await dispatch(
+        batchImageAction({ ids: images.map(image => image.id), action })
+      ).unwrap();
+      reportResult(result);
+      return true;
+    } catch (error) {
+      toast.showError((error as ApiError).message);
+      return false;
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 删除选中的图片
+  const handleDelete = async () => {
+    const confirmed = await confirmAction(
+      t('batch.delete'),
+      t('batch.deleteConfirm', { count }),
+      t('common.delete')
+    );
+    if (confirmed) {
+      await runAction({ type: 'delete' });
+    }
+  };
+
+  // 移出分组：在分组详情中直接移出当前分组，否则选择要移出的分组
+  const handleRemoveFromGroup = async () => {
+    if (!currentGroup) {
+      setGroupSheetMode('remove');
+      return;
+    }
+    const confirmed = await confirmAction(
+      t('batch.removeFromGroup'),
+      t('batch.removeFromGroupConfirm', { count, name: currentGroup.name }),
+      t('batch.removeFromGroup')
+    );
+    if (confirmed) {
+      await runAction({ type: 'removeFromGroups', groupIds: [currentGroup.id] });
+    }
+  };
+
+  // 确认分组面板中选择的分组
+  const handleConfirmGroups = async (groupIds: number[]) => {
+    if (groupIds.length === 0) {
+      setGroupSheetMode(null);
+      return;
+    }
+    const done = await runAction(
+      groupSheetMode === 'remove'
+        ? { type: 'removeFromGroups', groupIds }
+        : { type: 'addToGroups', groupIds }
+    );
+    if (done) {
+      setGroupSheetMode(null);
+    }
+  };
+
+  // 保存批量编辑的名称和描述
+  const handleConfirmEdit = async (changes: ImageUpdateData) => {
+    const done = await runAction({ type: 'update', changes });
+    if (done) {
+      setEditSheetVisible(false);
+    }
+  };
+
+  // 下载原图并保存到相册
+  const handleSave = async () => {
+    if (!(await requestMediaLibraryPermission())) {
+      toast.showError(t('batch.mediaLibraryDenied'));
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      reportResult(await saveImagesToLibrary(images), 'batch.saved');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  // 通过系统分享面板分享图片链接
+  const handleShare = async () => {
+    try {
+      await Share.share({ message: images.map(image => image.image).join('\n') });
+    } catch (error) {
+      console.log('分享图片失败:', error);
+    }
+  };
+
+  // 从分组面板跳转到新建分组
+  const handleCreateGroup = onCreateGroup
+    ? () => {
+        setGroupSheetMode(null);
+        onCreateGroup();
+      }
+    : undefined;
+
+  const actions: { label: MessageKey; onPress: () => void; destructive?: boolean }[] = [
+    { label: 'batch.addToGroup', onPress: () => setGroupSheetMode('add') },
+    { label: 'batch.removeFromGroup', onPress: handleRemoveFromGroup },
+    ...(isMediaLibraryAvailable() ? [{ label: 'batch.save' as const, onPress: handleSave }] : []),
+    { label: 'batch.share', onPress: handleShare },
+    { label: 'batch.edit', onPress: () => setEditSheetVisible(true) },
+    { label: 'batch.delete', onPress: handleDelete, destructive: true },
+  ];
+
+  return (
+    <View style={styles.container}>
+      {isProcessing ? (
+        <ActivityIndicator color="#2196F3" style={styles.processing} />
+      ) : (
+        actions.map(action => (
+          <TouchableOpacity
+            key={action.label}
+            style={styles.actionButton}
+            onPress={action.onPress}
+          >
+            <Text style={[styles.actionText, action.destructive && styles.actionTextDestructive]}>
+              {t(action.label)}
+            </Text>
+          </TouchableOpacity>
+        ))
+      )}
+
+      <GroupPickerSheet
+        visible={groupSheetMode !== null}
+        groups={groupSheetMode === 'remove' ? groups : groups.filter(group => group.id !== currentGroup?.id)}
+        selectedIds={[]}
+        title={groupSheetMode === 'remove' ? t('batch.removeFromGroupsTitle') : undefined}
+        isSaving={isProcessing}
+        onConfirm={handleConfirmGroups}
+        onClose={() => setGroupSheetMode(null)}
+        onCreateGroup={groupSheetMode === 'add' ? handleCreateGroup : undefined}
+      />
+      <BatchEditSheet
+        visible={editSheetVisible}
+        count={count}
+        isSaving={isProcessing}
+        onConfirm={handleConfirmEdit}
+        onClose={() => setEditSheetVisible(false)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+  },
+  actionButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  actionText: {
+    fontSize: 15,
+    color: '#2196F3',
+    fontWeight: '500',
+  },
+  actionTextDestructive: {
+    color: '#f44336',
+  },
+  processing: {
+    paddingVertical: 6,
+  },
+});
+
+export default BatchActionBar;
@@ -0,0 +1,195 @@
+/**
+ * 批量编辑面板
+ * 以底部弹出面板的形式修改多张图片的名称和描述，只修改打开的项
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  Switch,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { ImageUpdateData } from '../types';
+import { useI18n } from '../i18n';
+import FormField from './FormField';
+
+interface Props {
+  visible: boolean;
+  count: number;               // 选中的图片数量
+  isSaving?: boolean;
+  onConfirm: (changes: ImageUpdateData) => void;
+  onClose: () => void;
+}
+
+const BatchEditSheet: React.FC<Props> = ({
+  visible,
+  count,
+  isSaving = false,
+  onConfirm,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [editName, setEditName] = useState(false);
+  const [name, setName] = useState('');
+  const [editDescription, setEditDescription] = useState(false);
+  const [description, setDescription] = useState('');
+
+  // 每次打开时清空输入
+  useEffect(() => {
+    if (visible) {
+      setEditName(false);
+      setName('');
+      setEditDescription(false);
+      setDescription('');
+    }
+  }, [visible]);
+
+  // 名称不能为空，描述可以清空
+  const canSave = (editName || editDescription) && (!editName || name.trim() !== '');
+
+  const handleConfirm = () => {
+    const changes: ImageUpdateData = {};
+    if (editName) changes.name = name.trim();
+    if (editDescription) changes.description = description.trim();
+    onConfirm(changes);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('batch.editTitle', { count })}</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <View style={styles.toggleRow}>
+              <Text style={styles.toggleLabel}>{t('batch.editName')}</Text>
+              <Switch value={editName} onValueChange={setEditName} disabled={isSaving} />
+            </View>
+            {editName && (
+              <FormField
+                label={t('field.name')}
+                value={name}
+                onChangeText={setName}
+                placeholder={t('batch.namePlaceholder')}
+                editable={!isSaving}
+              />
+            )}
+
+            <View style={styles.toggleRow}>
+              <Text style={styles.toggleLabel}>{t('batch.editDescription')}</Text>
+              <Switch value={editDescription} onValueChange={setEditDescription} disabled={isSaving} />
+            </View>
+            {editDescription && (
+              <FormField
+                label={t('field.description')}
+                value={description}
+                onChangeText={setDescription}
+                placeholder={t('batch.descriptionPlaceholder')}
+                style={styles.descriptionInput}
+                multiline
+                textAlignVertical="top"
+                editable={!isSaving}
+              />
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.confirmButton, (isSaving || !canSave) && styles.confirmButtonDisabled]}
+            onPress={handleConfirm}
+            disabled={isSaving || !canSave}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>{t('common.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeText: {
+    fontSize: 18,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  body: {
+    marginBottom: 5,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  toggleLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  descriptionInput: {
+    height: 100,
+    paddingTop: 12,
+  },
+  confirmButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default BatchEditSheet;
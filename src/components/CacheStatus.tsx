@@ -0,0 +1,56 @@
+/**
+ * 缓存状态提示组件
+ * 数据已过期或设备离线时，提示当前显示的是缓存数据及其更新时间
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { isCacheStale } from '../services/cache';
+import { formatTimeAgo, useI18n } from '../i18n';
+
+interface Props {
+  updatedAt: number | null; // 数据最近一次从服务器获取的时间，null表示从未获取
+  isOffline: boolean;
+}
+
+// 刷新“x分钟前”的间隔
+const REFRESH_INTERVAL = 60 * 1000;
+
+const CacheStatus: React.FC<Props> = ({ updatedAt, isOffline }) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  // 定时刷新当前时间，使更新时间和是否过期随时间变化
+  useEffect(() => {
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [updatedAt]);
+
+  if (updatedAt === null || (!isOffline && !isCacheStale(updatedAt, now))) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.text}>{t('cache.status', { time: formatTimeAgo(updatedAt, now) })}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'flex-start',
+    backgroundColor: '#fff3e0',
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    marginTop: 8,
+  },
+  text: {
+    fontSize: 12,
+    color: '#e65100',
+  },
+});
+
+export default CacheStatus;
@@ -0,0 +1,56 @@
+/**
+ * 缓存图片组件
+ * 优先显示磁盘缓存中的图片，未缓存时先下载到缓存再显示
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Image, ImageProps, View, StyleSheet } from 'react-native';
+import { ImageCacheKind, getCachedImage, peekCachedImage, removeCachedImage } from '../services/imageCache';
+
+interface Props extends Omit<ImageProps, 'source'> {
+  uri: string;
+  kind?: ImageCacheKind;
+}
+
+const CachedImage: React.FC<Props> = ({ uri, kind = 'thumbnail', style, onError, ...rest }) => {
+  const [source, setSource] = useState<string | null>(() => peekCachedImage(uri, kind));
+
+  // 地址变化时重新查找缓存
+  useEffect(() => {
+    let cancelled = false;
+    setSource(peekCachedImage(uri, kind));
+    getCachedImage(uri, kind).then(resolved => {
+      if (!cancelled) {
+        setSource(resolved);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, kind]);
+
+  // 本地文件无法显示时移除缓存并改用网络地址
+  const handleError: ImageProps['onError'] = event => {
+    if (source && source !== uri) {
+      removeCachedImage(uri, kind);
+      setSource(uri);
+      return;
+    }
+    onError?.(event);
+  };
+
+  if (!source) {
+    // 下载期间显示占位
+    return <View style={[style, styles.placeholder]} />;
+  }
+
+  return <Image {...rest} source={{ uri: source }} style={style} onError={handleError} />;
+};
+
+const styles = StyleSheet.create({
+  placeholder: {
+    backgroundColor: '#eee',
+  },
+});
+
+export default CachedImage;
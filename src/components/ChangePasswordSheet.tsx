@@ -0,0 +1,199 @@
+/**
+ * 修改密码面板
+ * 以底部弹出面板的形式输入当前密码和新密码
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { ApiError, FieldErrors } from '../types';
+import { authApi } from '../services/api';
+import { getFieldErrorMessages, validatePasswordChangeInput } from '../utils/errorHandling';
+import { useI18n } from '../i18n';
+import FormField from './FormField';
+
+interface Props {
+  visible: boolean;
+  onSuccess: () => void;
+  onClose: () => void;
+}
+
+const ChangePasswordSheet: React.FC<Props> = ({ visible, onSuccess, onClose }) => {
+  const { t } = useI18n();
+  const [oldPassword, setOldPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 每次打开时清空表单
+  useEffect(() => {
+    if (visible) {
+      setOldPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setFieldErrors({});
+      setFormError(null);
+    }
+  }, [visible]);
+
+  // 提交修改
+  const handleSubmit = async () => {
+    const validation = validatePasswordChangeInput({ oldPassword, newPassword, confirmPassword });
+    if (!validation.isValid) {
+      setFieldErrors(validation.fieldErrors);
+      return;
+    }
+
+    setFieldErrors({});
+    setFormError(null);
+    setIsSubmitting(true);
+    try {
+      await authApi.changePassword({ old_password: oldPassword, new_password: newPassword });
+      onSuccess();
+    } catch (error) {
+      // 当前密码错误等字段错误显示在对应的输入框下
+      const apiError = error as ApiError;
+      const errors = getFieldErrorMessages(apiError);
+      setFieldErrors(errors);
+      if (!errors.old_password && !errors.new_password) {
+        setFormError(apiError.message);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('changePassword.title')}</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSubmitting}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <FormField
+              label={t('field.old_password')}
+              value={oldPassword}
+              onChangeText={setOldPassword}
+              error={fieldErrors.old_password}
+              secureTextEntry
+              textContentType="password"
+              editable={!isSubmitting}
+            />
+            <FormField
+              label={t('field.new_password')}
+              value={newPassword}
+              onChangeText={setNewPassword}
+              error={fieldErrors.new_password}
+              placeholder={t('changePassword.newPasswordPlaceholder')}
+              secureTextEntry
+              textContentType="newPassword"
+              editable={!isSubmitting}
+            />
+            <FormField
+              label={t('changePassword.confirmPassword')}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              error={fieldErrors.confirmPassword}
+              secureTextEntry
+              textContentType="newPassword"
+              editable={!isSubmitting}
+            />
+          </ScrollView>
+
+          {formError && <Text style={styles.errorText}>{formError}</Text>}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, isSubmitting && styles.confirmButtonDisabled]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>{t('changePassword.submit')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeText: {
+    fontSize: 18,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  body: {
+    marginBottom: 5,
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  confirmButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ChangePasswordSheet;
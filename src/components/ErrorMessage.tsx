@@ -11,6 +11,7 @@ import {
   TouchableOpacity,
   Animated,
 } from 'react-native';
+import { useI18n } from '../i18n';
 
 interface ErrorMessageProps {
   message: string;
@@ -28,9 +29,10 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({
   visible,
   onRetry,
   onDismiss,
-  retryText = '重试',
+  retryText,
   showRetryButton = false,
 }) => {
+  const { t } = useI18n();
   const fadeAnim = new Animated.Value(visible ? 1 : 0);
 
   React.useEffect(() => {
@@ -119,7 +121,7 @@ const ErrorMessage: React.FC<ErrorMessageProps> = ({
           onPress={onRetry}
         >
           <Text style={[styles.retryText, { color: colors.text }]}>
-            {retryText}
+            {retryText ?? t('common.retry')}
           </Text>
         </TouchableOpacity>
       )}
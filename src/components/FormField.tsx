@@ -0,0 +1,65 @@
+/**
+ * 表单输入项组件
+ * 带标签的输入框，字段错误显示在输入框下方
+ */
+
+import React, { forwardRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TextInputProps,
+  StyleSheet,
+} from 'react-native';
+
+interface Props extends TextInputProps {
+  label: string;
+  error?: string | null;
+}
+
+const FormField = forwardRef<TextInput, Props>(({ label, error, style, ...inputProps }, ref) => (
+  <View style={styles.container}>
+    <Text style={styles.label}>{label}</Text>
+    <TextInput
+      ref={ref}
+      style={[styles.input, error ? styles.inputError : null, style]}
+      placeholderTextColor="#999"
+      autoCapitalize="none"
+      autoCorrect={false}
+      {...inputProps}
+    />
+    {!!error && <Text style={styles.errorText}>{error}</Text>}
+  </View>
+));
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+    marginBottom: 8,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: '#333',
+    backgroundColor: '#fff',
+  },
+  inputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 5,
+  },
+});
+
+export default FormField;
@@ -0,0 +1,230 @@
+/**
+ * 分组选择面板
+ * 以底部弹出面板的形式多选图片所属的分组
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { Group } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  visible: boolean;
+  groups: Group[];
+  selectedIds: number[];       // 打开面板时已选中的分组
+  title?: string;
+  isSaving?: boolean;
+  onConfirm: (selectedIds: number[]) => void;
+  onClose: () => void;
+  onCreateGroup?: () => void;
+}
+
+const GroupPickerSheet: React.FC<Props> = ({
+  visible,
+  groups,
+  selectedIds,
+  title,
+  isSaving = false,
+  onConfirm,
+  onClose,
+  onCreateGroup,
+}) => {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState<number[]>(selectedIds);
+
+  // 每次打开时重置为当前的选择
+  useEffect(() => {
+    if (visible) {
+      setSelected(selectedIds);
+    }
+  }, [visible]);
+
+  const toggleGroup = (groupId: number) => {
+    setSelected(prev =>
+      prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{title ?? t('groupPicker.title')}</Text>
+            <TouchableOpacity onPress={onClose} disabled={isSaving}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list}>
+            {groups.length === 0 && (
+              <Text style={styles.emptyText}>{t('groupPicker.empty')}</Text>
+            )}
+            {groups.map(group => {
+              const checked = selected.includes(group.id);
+              return (
+                <TouchableOpacity
+                  key={group.id}
+                  style={styles.groupRow}
+                  onPress={() => toggleGroup(group.id)}
+                  disabled={isSaving}
+                >
+                  <View style={[styles.checkbox, checked && styles.checkboxChecked]}>
+                    {checked && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <View style={styles.groupInfo}>
+                    <Text style={styles.groupName}>{group.name}</Text>
+                    {!!group.description && (
+                      <Text style={styles.groupDescription} numberOfLines={1}>
+                        {group.description}
+                      </Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          {onCreateGroup && (
+            <TouchableOpacity style={styles.createButton} onPress={onCreateGroup} disabled={isSaving}>
+              <Text style={styles.createButtonText}>+ {t('groups.create')}</Text>
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, isSaving && styles.confirmButtonDisabled]}
+            onPress={() => onConfirm(selected)}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>{t('common.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeText: {
+    fontSize: 18,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  list: {
+    marginBottom: 15,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  checkboxChecked: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  groupInfo: {
+    flex: 1,
+  },
+  groupName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  groupDescription: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  createButton: {
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  createButtonText: {
+    color: '#2196F3',
+    fontSize: 16,
+  },
+  confirmButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default GroupPickerSheet;
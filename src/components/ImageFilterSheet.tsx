@@ -0,0 +1,345 @@
+/**
+ * 图片筛选面板
+ * 以底部弹出面板的形式设置上传者、上传日期、分辨率、方向和分组条件
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { Group, ImageListQuery, ImageOrientation } from '../types';
+import { isValidDateString } from '../utils/imageFilter';
+import { MessageKey, useI18n } from '../i18n';
+
+interface Props {
+  visible: boolean;
+  filter: ImageListQuery;
+  groups: Group[];
+  onApply: (changes: Partial<ImageListQuery>) => void;
+  onClose: () => void;
+}
+
+const ORIENTATION_OPTIONS: { value: ImageOrientation | undefined; label: MessageKey }[] = [
+  { value: undefined, label: 'imageFilter.any' },
+  { value: 'landscape', label: 'imageFilter.landscape' },
+  { value: 'portrait', label: 'imageFilter.portrait' },
+  { value: 'square', label: 'imageFilter.square' },
+];
+
+// 数字输入框的内容转换为筛选值，空或非法时返回undefined
+const parsePositiveInt = (value: string): number | undefined => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const ImageFilterSheet: React.FC<Props> = ({
+  visible,
+  filter,
+  groups,
+  onApply,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [owner, setOwner] = useState('');
+  const [uploadedAfter, setUploadedAfter] = useState('');
+  const [uploadedBefore, setUploadedBefore] = useState('');
+  const [minWidth, setMinWidth] = useState('');
+  const [minHeight, setMinHeight] = useState('');
+  const [orientation, setOrientation] = useState<ImageOrientation | undefined>(undefined);
+  const [groupId, setGroupId] = useState<number | undefined>(undefined);
+  const [dateError, setDateError] = useState<string | null>(null);
+
+  // 每次打开时以当前的筛选条件填充表单
+  useEffect(() => {
+    if (visible) {
+      setOwner(filter.owner ?? '');
+      setUploadedAfter(filter.uploadedAfter ?? '');
+      setUploadedBefore(filter.uploadedBefore ?? '');
+      setMinWidth(filter.minWidth ? String(filter.minWidth) : '');
+      setMinHeight(filter.minHeight ? String(filter.minHeight) : '');
+      setOrientation(filter.orientation);
+      setGroupId(filter.groupId);
+      setDateError(null);
+    }
+  }, [visible]);
+
+  // 应用筛选条件
+  const handleApply = () => {
+    const after = uploadedAfter.trim();
+    const before = uploadedBefore.trim();
+    if ((after && !isValidDateString(after)) || (before && !isValidDateString(before))) {
+      setDateError(t('imageFilter.dateFormat'));
+      return;
+    }
+    if (after && before && after > before) {
+      setDateError(t('imageFilter.dateOrder'));
+      return;
+    }
+
+    onApply({
+      owner: owner.trim() || undefined,
+      uploadedAfter: after || undefined,
+      uploadedBefore: before || undefined,
+      minWidth: parsePositiveInt(minWidth),
+      minHeight: parsePositiveInt(minHeight),
+      orientation,
+      groupId,
+    });
+  };
+
+  // 清空表单中的所有条件
+  const handleReset = () => {
+    setOwner('');
+    setUploadedAfter('');
+    setUploadedBefore('');
+    setMinWidth('');
+    setMinHeight('');
+    setOrientation(undefined);
+    setGroupId(undefined);
+    setDateError(null);
+  };
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void, key: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('imageFilter.title')}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>{t('imageFilter.owner')}</Text>
+            <TextInput
+              style={styles.input}
+              value={owner}
+              onChangeText={setOwner}
+              placeholder={t('field.username')}
+              placeholderTextColor="#999"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <Text style={styles.label}>{t('imageFilter.uploadDate')}</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={uploadedAfter}
+                onChangeText={setUploadedAfter}
+                placeholder={t('imageFilter.startDate')}
+                placeholderTextColor="#999"
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text style={styles.rowSeparator}>{t('imageFilter.to')}</Text>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={uploadedBefore}
+                onChangeText={setUploadedBefore}
+                placeholder={t('imageFilter.endDate')}
+                placeholderTextColor="#999"
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+            {dateError && <Text style={styles.errorText}>{dateError}</Text>}
+
+            <Text style={styles.label}>{t('imageFilter.minResolution')}</Text>
+            <View style={styles.row}>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={minWidth}
+                onChangeText={setMinWidth}
+                placeholder={t('imageFilter.width')}
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+              />
+              <Text style={styles.rowSeparator}>×</Text>
+              <TextInput
+                style={[styles.input, styles.rowInput]}
+                value={minHeight}
+                onChangeText={setMinHeight}
+                placeholder={t('imageFilter.height')}
+                placeholderTextColor="#999"
+                keyboardType="number-pad"
+              />
+            </View>
+
+            <Text style={styles.label}>{t('imageFilter.orientation')}</Text>
+            <View style={styles.chips}>
+              {ORIENTATION_OPTIONS.map(option =>
+                renderChip(
+                  t(option.label),
+                  orientation === option.value,
+                  () => setOrientation(option.value),
+                  option.value ?? 'any'
+                )
+              )}
+            </View>
+
+            {groups.length > 0 && (
+              <>
+                <Text style={styles.label}>{t('imageFilter.group')}</Text>
+                <View style={styles.chips}>
+                  {renderChip(t('imageFilter.any'), groupId === undefined, () => setGroupId(undefined), 'any')}
+                  {groups.map(group =>
+                    renderChip(group.name, groupId === group.id, () => setGroupId(group.id), String(group.id))
+                  )}
+                </View>
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={[styles.footerButton, styles.resetButton]} onPress={handleReset}>
+              <Text style={styles.resetButtonText}>{t('imageFilter.reset')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.footerButton} onPress={handleApply}>
+              <Text style={styles.applyButtonText}>{t('imageFilter.apply')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeText: {
+    fontSize: 18,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  body: {
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+    marginBottom: 8,
+    marginTop: 10,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: '#333',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowInput: {
+    flex: 1,
+  },
+  rowSeparator: {
+    marginHorizontal: 10,
+    color: '#999',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 5,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  footer: {
+    flexDirection: 'row',
+  },
+  footerButton: {
+    flex: 1,
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  resetButton: {
+    backgroundColor: '#f0f0f0',
+    marginRight: 10,
+  },
+  resetButtonText: {
+    color: '#666',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  applyButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ImageFilterSheet;
@@ -1,20 +1,32 @@
 /**
  * 图片网格组件
- * 用于显示图片列表的网格布局
+ * 用于显示图片列表的网格布局，可切换为瀑布流或按行对齐，双指缩放调整列数
+ * 长按进入多选模式，按住后拖动可连续选择一个范围
  */
 
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   FlatList,
   TouchableOpacity,
-  Image,
   Text,
   StyleSheet,
   Dimensions,
+  PixelRatio,
+  ActivityIndicator,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
 } from 'react-native';
-import { Image as ImageType } from '../types';
-import { formatDate, formatFileSize } from '../utils';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { GridLayoutMode, GridLayoutSettings, Image as ImageType } from '../types';
+import { MessageKey, formatDate, formatFileSize, useI18n } from '../i18n';
+import { loadGridLayout, saveGridLayout } from '../services/gridLayout';
+import { clampColumns, computeSquareLayout, findFrameAtPoint } from '../utils/gridLayout';
+import { selectImageVariant } from '../utils/imageVariants';
+import { selectRange, toggleSelection } from '../utils/selection';
+import CachedImage from './CachedImage';
+import AdaptiveImageGrid, { computeAdaptiveLayout } from './AdaptiveImageGrid';
+import SelectionMark from './SelectionMark';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -23,6 +35,37 @@ interface Props {
   onImagePress: (imageId: number) => void;
   numColumns?: number;
   showDetails?: boolean;
+  onEndReached?: () => void;   // 滚动到底部时加载下一页
+  isLoadingMore?: boolean;
+  scrollEnabled?: boolean;     // 嵌套在ScrollView中时关闭自身滚动
+  emptyText?: string;
+  layoutKey?: string;          // 设置后显示布局切换并支持双指缩放，按该名称记住布局和列数
+  selectedIds?: number[];      // 已选中的图片，不为空时处于多选模式
+  onSelectionChange?: (selectedIds: number[]) => void;   // 设置后支持长按多选
+}
+
+// 布局切换中的选项
+const LAYOUT_OPTIONS: { mode: GridLayoutMode; label: MessageKey }[] = [
+  { mode: 'square', label: 'imageGrid.square' },
+  { mode: 'masonry', label: 'imageGrid.masonry' },
+  { mode: 'justified', label: 'imageGrid.justified' },
+];
+
+// 双指缩放超过该比例时减少一列，小于其倒数时增加一列
+const PINCH_STEP_SCALE = 1.25;
+
+// 方格布局的内边距和格子间距
+const CONTENT_PADDING = 20;
+const ITEM_SPACING = 20;
+
+// 长按多久后进入多选并开始拖动选择
+const LONG_PRESS_MS = 400;
+
+// 拖动选择的状态：起点、拖动开始前的选择和当前位置
+interface DragSelection {
+  anchorIndex: number;
+  baseIds: number[];
+  currentIndex: number;
 }
 
 const ImageGridComponent: React.FC<Props> = ({
@@ -30,17 +73,135 @@ const ImageGridComponent: React.FC<Props> = ({
   onImagePress,
   numColumns = 2,
   showDetails = true,
+  onEndReached,
+  isLoadingMore = false,
+  scrollEnabled = true,
+  emptyText,
+  layoutKey,
+  selectedIds = [],
+  onSelectionChange,
 }) => {
-  const imageWidth = (screenWidth - 40 - (numColumns - 1) * 20) / numColumns; // 增加间距从10到20
+  const { t } = useI18n();
+  const [settings, setSettings] = useState<GridLayoutSettings>({ mode: 'square', columns: numColumns });
+  // 嵌套在ScrollView中时无法按可见区域渲染，只使用方格布局
+  const mode = scrollEnabled ? settings.mode : 'square';
+  const columns = settings.columns;
+  const imageWidth = (screenWidth - 40 - (columns - 1) * 20) / columns; // 增加间距从10到20
+  // 方格的实际高度（显示详情时由第一个格子测量），用于拖动选择时定位图片
+  const [tileHeight, setTileHeight] = useState<number | null>(null);
+  const scrollOffset = useRef(0);
+  const dragSelection = useRef<DragSelection | null>(null);
+
+  // 嵌套在ScrollView中时无法按触摸位置定位图片，不支持多选
+  const selectable = !!onSelectionChange && scrollEnabled;
+  const isSelecting = selectable && selectedIds.length > 0;
+
+  const adaptiveLayout = useMemo(
+    () => (mode === 'square' ? null : computeAdaptiveLayout(images, mode, columns)),
+    [images, mode, columns]
+  );
+  // 当前布局中每张图片的位置（相对于内边距以内的内容区域）
+  const layout = useMemo(() => {
+    if (adaptiveLayout) return adaptiveLayout;
+    const itemHeight = tileHeight ?? imageWidth;
+    const rowPitch = itemHeight + ITEM_SPACING + (columns > 1 ? ITEM_SPACING : 0);
+    return computeSquareLayout(
+      images.length,
+      screenWidth - CONTENT_PADDING * 2,
+      columns,
+      itemHeight,
+      ITEM_SPACING,
+      rowPitch
+    );
+  }, [adaptiveLayout, images.length, columns, tileHeight, imageWidth]);
 
-  const renderImageItem = ({ item }: { item: ImageType }) => (
+  // 恢复该页面上次使用的布局
+  useEffect(() => {
+    if (!layoutKey) return;
+    let cancelled = false;
+    loadGridLayout(layoutKey).then(stored => {
+      if (stored && !cancelled) {
+        setSettings(stored);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [layoutKey]);
+
+  // 修改布局设置并记住
+  const updateSettings = (changes: Partial<GridLayoutSettings>) => {
+    const next = { ...settings, ...changes, columns: clampColumns(changes.columns ?? settings.columns) };
+    if (next.mode === settings.mode && next.columns === settings.columns) return;
+    // 切换布局后网格重新创建，滚动位置回到顶部
+    scrollOffset.current = 0;
+    setTileHeight(null);
+    setSettings(next);
+    if (layoutKey) {
+      saveGridLayout(layoutKey, next);
+    }
+  };
+
+  // 双指张开减少列数（图片变大），捏合增加列数
+  const pinchGesture = Gesture.Pinch()
+    .runOnJS(true)
+    .enabled(!!layoutKey && scrollEnabled)
+    .onEnd(event => {
+      if (event.scale >= PINCH_STEP_SCALE) {
+        updateSettings({ columns: columns - 1 });
+      } else if (event.scale <= 1 / PINCH_STEP_SCALE) {
+        updateSettings({ columns: columns + 1 });
+      }
+    });
+
+  // 查找触摸位置下的图片索引
+  const getIndexAtPoint = (x: number, y: number): number =>
+    findFrameAtPoint(layout.frames, x - CONTENT_PADDING, y + scrollOffset.current - CONTENT_PADDING);
+
+  // 长按选中图片，不松手拖动时选中从起点到当前位置的所有图片
+  const dragSelectGesture = Gesture.Pan()
+    .runOnJS(true)
+    .enabled(selectable)
+    .activateAfterLongPress(LONG_PRESS_MS)
+    .onStart(event => {
+      const index = getIndexAtPoint(event.x, event.y);
+      if (index < 0 || !onSelectionChange) return;
+      dragSelection.current = { anchorIndex: index, baseIds: selectedIds, currentIndex: index };
+      onSelectionChange(selectRange(images.map(image => image.id), selectedIds, index, index));
+    })
+    .onUpdate(event => {
+      const drag = dragSelection.current;
+      const index = getIndexAtPoint(event.x, event.y);
+      if (!drag || index < 0 || index === drag.currentIndex || !onSelectionChange) return;
+      drag.currentIndex = index;
+      onSelectionChange(selectRange(images.map(image => image.id), drag.baseIds, drag.anchorIndex, index));
+    })
+    .onFinalize(() => {
+      dragSelection.current = null;
+    });
+
+  // 多选模式下点击切换选中状态，否则打开图片
+  const handleItemPress = (imageId: number) => {
+    if (isSelecting && onSelectionChange) {
+      onSelectionChange(toggleSelection(selectedIds, imageId));
+    } else {
+      onImagePress(imageId);
+    }
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    scrollOffset.current = event.nativeEvent.contentOffset.y;
+  };
+
+  const renderImageItem = ({ item, index }: { item: ImageType; index: number }) => (
     <TouchableOpacity
       style={[styles.imageItem, { width: imageWidth }]}
-      onPress={() => onImagePress(item.id)}
+      onPress={() => handleItemPress(item.id)}
+      onLayout={index === 0 ? event => setTileHeight(event.nativeEvent.layout.height) : undefined}
       activeOpacity={0.8}
     >
-      <Image
-        source={{ uri: item.image }}
+      <CachedImage
+        uri={selectImageVariant(item, imageWidth, imageWidth, PixelRatio.get()).url}
         style={[styles.image, { width: imageWidth, height: imageWidth }]}
         resizeMode="cover"
       />
@@ -62,26 +223,93 @@ const ImageGridComponent: React.FC<Props> = ({
           </Text>
         </View>
       )}
+      {isSelecting && <SelectionMark selected={selectedIds.includes(item.id)} />}
     </TouchableOpacity>
   );
 
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
-      <Text style={styles.emptyStateText}>暂无图片</Text>
+      <Text style={styles.emptyStateText}>{emptyText ?? t('images.empty')}</Text>
     </View>
   );
 
+  const renderFooter = () =>
+    isLoadingMore ? (
+      <View style={styles.footer}>
+        <ActivityIndicator color="#2196F3" />
+      </View>
+    ) : null;
+
+  const grid =
+    mode === 'square' ? (
+      <FlatList
+        // 列数变化时FlatList需要重新创建
+        key={columns}
+        data={images}
+        renderItem={renderImageItem}
+        keyExtractor={(item) => item.id.toString()}
+        numColumns={columns}
+        columnWrapperStyle={columns > 1 ? styles.row : undefined}
+        contentContainerStyle={styles.container}
+        showsVerticalScrollIndicator={false}
+        ListEmptyComponent={renderEmptyState}
+        ListFooterComponent={renderFooter}
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.5}
+        onScroll={handleScroll}
+        scrollEventThrottle={16}
+        // 选中状态变化时重新渲染格子
+        extraData={selectedIds}
+        scrollEnabled={scrollEnabled}
+        initialNumToRender={8}
+        windowSize={7}
+        removeClippedSubviews
+      />
+    ) : (
+      <AdaptiveImageGrid
+        images={images}
+        layout={layout}
+        onImagePress={handleItemPress}
+        onEndReached={onEndReached}
+        onScrollOffsetChange={offset => {
+          scrollOffset.current = offset;
+        }}
+        isLoadingMore={isLoadingMore}
+        emptyText={emptyText ?? t('images.empty')}
+        isSelecting={isSelecting}
+        selectedIds={selectedIds}
+      />
+    );
+
+  if (!layoutKey && !selectable) {
+    return grid;
+  }
+
   return (
-    <FlatList
-      data={images}
-      renderItem={renderImageItem}
-      keyExtractor={(item) => item.id.toString()}
-      numColumns={numColumns}
-      columnWrapperStyle={numColumns > 1 ? styles.row : undefined}
-      contentContainerStyle={styles.container}
-      showsVerticalScrollIndicator={false}
-      ListEmptyComponent={renderEmptyState}
-    />
+    <View style={styles.layoutContainer}>
+      {/* 布局切换 */}
+      {!!layoutKey && (
+        <View style={styles.layoutSwitcher}>
+          {LAYOUT_OPTIONS.map(option => {
+            const selected = settings.mode === option.mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[styles.layoutChip, selected && styles.layoutChipSelected]}
+                onPress={() => updateSettings({ mode: option.mode })}
+              >
+                <Text style={[styles.layoutChipText, selected && styles.layoutChipTextSelected]}>
+                  {t(option.label)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+      <GestureDetector gesture={Gesture.Simultaneous(pinchGesture, dragSelectGesture)}>
+        <View style={styles.layoutContainer}>{grid}</View>
+      </GestureDetector>
+    </View>
   );
 };
 
@@ -89,6 +317,34 @@ const styles = StyleSheet.create({
   container: {
     padding: 20,
   },
+  layoutContainer: {
+    flex: 1,
+  },
+  layoutSwitcher: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 20,
+    paddingTop: 10,
+  },
+  layoutChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginLeft: 8,
+  },
+  layoutChipSelected: {
+    backgroundColor: '#2196F3',
+    borderColor: '#2196F3',
+  },
+  layoutChipText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  layoutChipTextSelected: {
+    color: '#fff',
+  },
   row: {
     justifyContent: 'space-between',
     marginBottom: 20, // 增加行间距从15到20
@@ -130,6 +386,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  footer: {
+    paddingVertical: 20,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,363 @@
+/**
+ * 全屏图片查看器
+ * 支持双指缩放、双击缩放、拖动、下滑关闭以及左右滑动切换图片
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  Animated,
+  StyleSheet,
+  Dimensions,
+  TouchableOpacity,
+  StatusBar,
+} from 'react-native';
+import {
+  Gesture,
+  GestureDetector,
+  GestureHandlerRootView,
+} from 'react-native-gesture-handler';
+import { Image } from '../types';
+import { calculateFitSize } from '../utils';
+import CachedImage from './CachedImage';
+
+const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
+
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const SWIPE_DISTANCE = screenWidth * 0.25;   // 切换图片所需的水平滑动距离
+const DISMISS_DISTANCE = 120;                // 关闭查看器所需的下滑距离
+const FLING_VELOCITY = 800;
+
+interface Props {
+  visible: boolean;
+  images: Image[];
+  initialIndex: number;
+  onClose: () => void;
+  onIndexChange?: (index: number) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const ImageViewer: React.FC<Props> = ({
+  visible,
+  images,
+  initialIndex,
+  onClose,
+  onIndexChange,
+}) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [showControls, setShowControls] = useState(true);
+
+  // 当前图片的缩放和位移
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  // 左右切换时整行图片的位移，以及下滑关闭时的位移
+  const pageX = useRef(new Animated.Value(0)).current;
+  const dismissY = useRef(new Animated.Value(0)).current;
+
+  // 手势回调在JS线程中执行，用普通对象记录手势开始时的状态
+  const transform = useRef({ scale: 1, x: 0, y: 0 }).current;
+  const gestureStart = useRef({ scale: 1, x: 0, y: 0 }).current;
+  const panMode = useRef<'none' | 'move' | 'page' | 'dismiss'>('none');
+
+  const image = images[index];
+  const fitSize = image
+    ? calculateFitSize(image.width, image.height, screenWidth, screenHeight)
+    : { width: screenWidth, height: screenHeight };
+
+  // 每次打开时定位到点击的图片
+  useEffect(() => {
+    if (visible) {
+      setIndex(initialIndex);
+      setShowControls(true);
+      pageX.setValue(0);
+      dismissY.setValue(0);
+      resetZoom(false);
+    }
+  }, [visible, initialIndex]);
+
+  // 放大后图片可拖动的范围
+  const getPanBounds = (currentScale: number) => ({
+    x: Math.max(0, (fitSize.width * currentScale - screenWidth) / 2),
+    y: Math.max(0, (fitSize.height * currentScale - screenHeight) / 2),
+  });
+
+  const applyTransform = (next: { scale: number; x: number; y: number }, animated: boolean) => {
+    transform.scale = next.scale;
+    transform.x = next.x;
+    transform.y = next.y;
+    if (animated) {
+      Animated.parallel([
+        Animated.spring(scale, { toValue: next.scale, useNativeDriver: true }),
+        Animated.spring(translateX, { toValue: next.x, useNativeDriver: true }),
+        Animated.spring(translateY, { toValue: next.y, useNativeDriver: true }),
+      ]).start();
+    } else {
+      scale.setValue(next.scale);
+      translateX.setValue(next.x);
+      translateY.setValue(next.y);
+    }
+  };
+
+  const resetZoom = (animated = true) => applyTransform({ scale: 1, x: 0, y: 0 }, animated);
+
+  // 将位移限制在图片边界内
+  const clampTransform = (next: { scale: number; x: number; y: number }) => {
+    const bounds = getPanBounds(next.scale);
+    return {
+      scale: next.scale,
+      x: clamp(next.x, -bounds.x, bounds.x),
+      y: clamp(next.y, -bounds.y, bounds.y),
+    };
+  };
+
+  // 切换到相邻图片，越界时回弹
+  const goToPage = (direction: -1 | 1) => {
+    const nextIndex = index + direction;
+    if (nextIndex < 0 || nextIndex >= images.length) {
+      Animated.spring(pageX, { toValue: 0, useNativeDriver: true }).start();
+      return;
+    }
+
+    Animated.timing(pageX, {
+      toValue: -direction * screenWidth,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(() => {
+      setIndex(nextIndex);
+      pageX.setValue(0);
+      resetZoom(false);
+      onIndexChange?.(nextIndex);
+    });
+  };
+
+  const pinchGesture = Gesture.Pinch()
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStart.scale = transform.scale;
+      gestureStart.x = transform.x;
+      gestureStart.y = transform.y;
+    })
+    .onUpdate(event => {
+      const nextScale = clamp(gestureStart.scale * event.scale, 0.8, MAX_SCALE);
+      applyTransform({ scale: nextScale, x: gestureStart.x, y: gestureStart.y }, false);
+    })
+    .onEnd(() => {
+      if (transform.scale <= 1) {
+        resetZoom();
+      } else {
+        applyTransform(clampTransform(transform), true);
+      }
+    });
+
+  const panGesture = Gesture.Pan()
+    .runOnJS(true)
+    .onStart(() => {
+      gestureStart.x = transform.x;
+      gestureStart.y = transform.y;
+      panMode.current = transform.scale > 1 ? 'move' : 'none';
+    })
+    .onUpdate(event => {
+      // 未放大时根据首次滑动方向决定是切换图片还是下滑关闭
+      if (panMode.current === 'none') {
+        if (Math.abs(event.translationX) > Math.abs(event.translationY)) {
+          panMode.current = 'page';
+        } else if (event.translationY > 0) {
+          panMode.current = 'dismiss';
+        } else {
+          return;
+        }
+      }
+
+      if (panMode.current === 'move') {
+        applyTransform(
+          { scale: transform.scale, x: gestureStart.x + event.translationX, y: gestureStart.y + event.translationY },
+          false
+        );
+      } else if (panMode.current === 'page') {
+        pageX.setValue(event.translationX);
+      } else {
+        dismissY.setValue(Math.max(0, event.translationY));
+      }
+    })
+    .onEnd(event => {
+      if (panMode.current === 'move') {
+        applyTransform(clampTransform(transform), true);
+      } else if (panMode.current === 'page') {
+        if (event.translationX < -SWIPE_DISTANCE || event.velocityX < -FLING_VELOCITY) {
+          goToPage(1);
+        } else if (event.translationX > SWIPE_DISTANCE || event.velocityX > FLING_VELOCITY) {
+          goToPage(-1);
+        } else {
+          Animated.spring(pageX, { toValue: 0, useNativeDriver: true }).start();
+        }
+      } else if (panMode.current === 'dismiss') {
+        if (event.translationY > DISMISS_DISTANCE || event.velocityY > FLING_VELOCITY) {
+          onClose();
+        } else {
+          Animated.spring(dismissY, { toValue: 0, useNativeDriver: true }).start();
+        }
+      }
+      panMode.current = 'none';
+    });
+
+  // 双击在点击位置放大，已放大时还原
+  const doubleTapGesture = Gesture.Tap()
+    .runOnJS(true)
+    .numberOfTaps(2)
+    .onEnd(event => {
+      if (transform.scale > 1) {
+        resetZoom();
+        return;
+      }
+      applyTransform(
+        clampTransform({
+          scale: DOUBLE_TAP_SCALE,
+          x: (screenWidth / 2 - event.x) * (DOUBLE_TAP_SCALE - 1),
+          y: (screenHeight / 2 - event.y) * (DOUBLE_TAP_SCALE - 1),
+        }),
+        true
+      );
+    });
+
+  // 单击切换顶部控件的显示
+  const singleTapGesture = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd(() => setShowControls(prev => !prev));
+
+  const composedGesture = Gesture.Simultaneous(
+    pinchGesture,
+    panGesture,
+    Gesture.Exclusive(doubleTapGesture, singleTapGesture)
+  );
+
+  // 下滑时背景逐渐变透明
+  const backgroundOpacity = dismissY.interpolate({
+    inputRange: [0, screenHeight / 2],
+    outputRange: [1, 0.3],
+    extrapolate: 'clamp',
+  });
+
+  const renderSlide = (slideImage: Image | undefined, offset: number) => {
+    if (!slideImage) return null;
+    const size = calculateFitSize(slideImage.width, slideImage.height, screenWidth, screenHeight);
+    const isCurrent = offset === 0;
+
+    return (
+      <View key={`${slideImage.id}-${offset}`} style={[styles.slide, { left: offset * screenWidth }]}>
+        <Animated.View
+          style={
+            isCurrent
+              ? { transform: [{ translateX }, { translateY }, { scale }] }
+              : undefined
+          }
+        >
+          <CachedImage uri={slideImage.image} kind="original" style={size} resizeMode="contain" />
+        </Animated.View>
+      </View>
+    );
+  };
+
+  if (!image) return null;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+      statusBarTranslucent
+    >
+      <StatusBar hidden={visible} />
+      <GestureHandlerRootView style={styles.root}>
+        <Animated.View style={[styles.background, { opacity: backgroundOpacity }]} />
+        <GestureDetector gesture={composedGesture}>
+          <Animated.View
+            style={[
+              styles.container,
+              { transform: [{ translateX: pageX }, { translateY: dismissY }] },
+            ]}
+          >
+            {renderSlide(images[index - 1], -1)}
+            {renderSlide(image, 0)}
+            {renderSlide(images[index + 1], 1)}
+          </Animated.View>
+        </GestureDetector>
+
+        {showControls && (
+          <View style={styles.header} pointerEvents="box-none">
+            <Text style={styles.title} numberOfLines={1}>
+              {image.name}
+            </Text>
+            {images.length > 1 && (
+              <Text style={styles.counter}>
+                {index + 1} / {images.length}
+              </Text>
+            )}
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  root: {
+    flex: 1,
+  },
+  background: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#000',
+  },
+  container: {
+    flex: 1,
+  },
+  slide: {
+    position: 'absolute',
+    top: 0,
+    width: screenWidth,
+    height: screenHeight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingTop: 40,
+    paddingHorizontal: 20,
+    paddingBottom: 15,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  title: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  counter: {
+    color: '#ddd',
+    fontSize: 14,
+    marginHorizontal: 15,
+  },
+  closeButton: {
+    padding: 5,
+  },
+  closeText: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+});
+
+export default ImageViewer;
@@ -10,6 +10,7 @@ import {
   Text,
   StyleSheet,
 } from 'react-native';
+import { useI18n } from '../i18n';
 
 interface Props {
   text?: string;
@@ -18,14 +19,17 @@ interface Props {
 }
 
 const LoadingSpinner: React.FC<Props> = ({
-  text = '加载中...',
+  text,
   size = 'large',
   color = '#2196F3',
 }) => {
+  const { t } = useI18n();
+  const label = text ?? t('common.loading');
+
   return (
     <View style={styles.container}>
       <ActivityIndicator size={size} color={color} />
-      {text && <Text style={styles.text}>{text}</Text>}
+      {label && <Text style={styles.text}>{label}</Text>}
     </View>
   );
 };
@@ -0,0 +1,127 @@
+/**
+ * 应用锁屏组件
+ * 覆盖在应用内容之上，验证身份后才能继续使用
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { useI18n } from '../i18n';
+
+interface Props {
+  isAuthenticating: boolean;
+  lockedOutUntil: number | null;
+  onUnlock: () => void;
+  onLogout: () => void;
+}
+
+const LockScreen: React.FC<Props> = ({
+  isAuthenticating,
+  lockedOutUntil,
+  onUnlock,
+  onLogout,
+}) => {
+  const { t } = useI18n();
+  const [now, setNow] = useState(Date.now());
+
+  // 禁止解锁期间每秒刷新倒计时
+  useEffect(() => {
+    if (lockedOutUntil === null || lockedOutUntil <= Date.now()) return;
+    setNow(Date.now());
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedOutUntil) {
+        clearInterval(timer);
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedOutUntil]);
+
+  const lockoutSeconds = lockedOutUntil ? Math.ceil(Math.max(lockedOutUntil - now, 0) / 1000) : 0;
+  const isDisabled = isAuthenticating || lockoutSeconds > 0;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.icon}>🔒</Text>
+      <Text style={styles.title}>{t('lockScreen.title')}</Text>
+      <Text style={styles.subtitle}>
+        {lockoutSeconds > 0
+          ? t('lockScreen.lockedOut', { count: lockoutSeconds })
+          : t('lockScreen.hint')}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.unlockButton, isDisabled && styles.unlockButtonDisabled]}
+        onPress={onUnlock}
+        disabled={isDisabled}
+      >
+        {isAuthenticating ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.unlockButtonText}>{t('lockScreen.unlock')}</Text>
+        )}
+      </TouchableOpacity>
+
+      <TouchableOpacity style={styles.logoutButton} onPress={onLogout} disabled={isAuthenticating}>
+        <Text style={styles.logoutText}>{t('lockScreen.logout')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#fff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  icon: {
+    fontSize: 56,
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 10,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 30,
+  },
+  unlockButton: {
+    height: 50,
+    alignSelf: 'stretch',
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  unlockButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  unlockButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  logoutButton: {
+    marginTop: 20,
+    padding: 10,
+  },
+  logoutText: {
+    color: '#f44336',
+    fontSize: 15,
+  },
+});
+
+export default LockScreen;
@@ -0,0 +1,54 @@
+/**
+ * 图片选中标记
+ * 多选模式下覆盖在图片上，显示是否已选中
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+interface Props {
+  selected: boolean;
+}
+
+const SelectionMark: React.FC<Props> = ({ selected }) => (
+  <View style={[styles.overlay, selected && styles.overlaySelected]} pointerEvents="none">
+    <View style={[styles.check, selected && styles.checkSelected]}>
+      {selected && <Text style={styles.checkText}>✓</Text>}
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'flex-end',
+    padding: 8,
+    borderRadius: 4,
+  },
+  overlaySelected: {
+    backgroundColor: 'rgba(33, 150, 243, 0.25)',
+    borderWidth: 3,
+    borderColor: '#2196F3',
+  },
+  check: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#fff',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  checkSelected: {
+    borderColor: '#2196F3',
+    backgroundColor: '#2196F3',
+  },
+  checkText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default SelectionMark;
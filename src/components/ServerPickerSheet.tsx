@@ -0,0 +1,236 @@
+/**
+ * 服务器选择面板
+ * 从预设服务器中选择或输入自定义地址
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { ServerPreset } from '../types';
+import { useI18n } from '../i18n';
+
+interface Props {
+  visible: boolean;
+  presets: ServerPreset[];
+  currentUrl: string;
+  isChecking?: boolean;
+  error?: string | null;
+  onSave: (url: string) => void;
+  onClose: () => void;
+}
+
+const ServerPickerSheet: React.FC<Props> = ({
+  visible,
+  presets,
+  currentUrl,
+  isChecking = false,
+  error,
+  onSave,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  // 选中的预设地址，null表示自定义
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(currentUrl);
+  const [customUrl, setCustomUrl] = useState('');
+
+  // 每次打开时选中当前服务器，不在预设中时显示为自定义地址
+  useEffect(() => {
+    if (visible) {
+      const isPreset = presets.some(preset => preset.url === currentUrl);
+      setSelectedUrl(isPreset ? currentUrl : null);
+      setCustomUrl(isPreset ? '' : currentUrl);
+    }
+  }, [visible]);
+
+  const handleSave = () => {
+    onSave(selectedUrl ?? customUrl);
+  };
+
+  const renderOption = (key: string, title: string, subtitle: string | null, checked: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={styles.optionRow} onPress={onPress} disabled={isChecking}>
+      <View style={[styles.radio, checked && styles.radioChecked]}>
+        {checked && <View style={styles.radioDot} />}
+      </View>
+      <View style={styles.optionInfo}>
+        <Text style={styles.optionTitle}>{title}</Text>
+        {subtitle && <Text style={styles.optionSubtitle}>{subtitle}</Text>}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={onClose} />
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('serverPicker.title')}</Text>
+            <TouchableOpacity onPress={onClose} disabled={isChecking}>
+              <Text style={styles.closeText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+            {presets.map(preset =>
+              renderOption(
+                preset.url,
+                preset.name,
+                preset.url,
+                selectedUrl === preset.url,
+                () => setSelectedUrl(preset.url)
+              )
+            )}
+            {renderOption('custom', t('serverPicker.custom'), null, selectedUrl === null, () => setSelectedUrl(null))}
+            {selectedUrl === null && (
+              <TextInput
+                style={styles.input}
+                value={customUrl}
+                onChangeText={setCustomUrl}
+                placeholder={t('serverPicker.customPlaceholder')}
+                placeholderTextColor="#999"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                editable={!isChecking}
+              />
+            )}
+          </ScrollView>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity
+            style={[styles.confirmButton, isChecking && styles.confirmButtonDisabled]}
+            onPress={handleSave}
+            disabled={isChecking}
+          >
+            {isChecking ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.confirmButtonText}>{t('serverPicker.save')}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 20,
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  closeText: {
+    fontSize: 18,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  list: {
+    marginBottom: 15,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: '#ccc',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  radioChecked: {
+    borderColor: '#2196F3',
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#2196F3',
+  },
+  optionInfo: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    color: '#333',
+  },
+  optionSubtitle: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    color: '#333',
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  confirmButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  confirmButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ServerPickerSheet;
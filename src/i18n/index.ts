@@ -0,0 +1,155 @@
+/**
+ * 国际化
+ * 保存当前语言，提供翻译、复数和本地化的日期、文件大小格式
+ */
+
+import { useSyncExternalStore } from 'react';
+import { Locale } from '../types';
+import zhCN, { MessageKey } from './locales/zh-CN';
+import en from './locales/en';
+import { Catalog, Message, PluralCategory } from './types';
+
+export type { MessageKey } from './locales/zh-CN';
+
+export const DEFAULT_LOCALE: Locale = 'zh-CN';
+
+export const CATALOGS: Record<Locale, Catalog> = {
+  'zh-CN': zhCN,
+  en,
+};
+
+export const SUPPORTED_LOCALES = Object.keys(CATALOGS) as Locale[];
+
+// 各语言的名称，始终用该语言本身显示
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English',
+};
+
+// 各语言的复数规则（中文没有单复数之分）
+const PLURAL_RULES: Record<Locale, (count: number) => PluralCategory> = {
+  'zh-CN': () => 'other',
+  en: count => (count === 1 ? 'one' : 'other'),
+};
+
+export type TranslateParams = Record<string, string | number>;
+
+let currentLocale: Locale = DEFAULT_LOCALE;
+const listeners = new Set<() => void>();
+
+/**
+ * 当前语言
+ */
+export const getLocale = (): Locale => currentLocale;
+
+/**
+ * 切换语言，使用 useI18n 的组件会重新渲染
+ */
+export const setLocale = (locale: Locale) => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * 订阅语言变化
+ * @returns 取消订阅的函数
+ */
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// 根据数量选择复数形式
+const selectPluralForm = (message: Message, count: number | undefined): string => {
+  if (typeof message === 'string') return message;
+  const category = count === undefined ? 'other' : PLURAL_RULES[currentLocale](count);
+  return message[category] ?? message.other;
+};
+
+/**
+ * 翻译，参数以 {name} 形式插入；带 count 参数时按当前语言选择复数形式
+ * 当前语言缺少的文案回退到默认语言
+ */
+export const t = (key: MessageKey, params: TranslateParams = {}): string => {
+  const message = CATALOGS[currentLocale][key] ?? CATALOGS[DEFAULT_LOCALE][key];
+  if (message === undefined) return key;
+  const count = typeof params.count === 'number' ? params.count : undefined;
+  return selectPluralForm(message, count).replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+};
+
+/**
+ * 在组件中使用翻译，切换语言时组件会重新渲染
+ */
+export const useI18n = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale, getLocale);
+  return { t, locale };
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * 格式化日期为相对时间（如“3天前”）
+ */
+export const formatDate = (dateString: string): string => {
+  const diffTime = Math.abs(Date.now() - new Date(dateString).getTime());
+  const diffDays = Math.ceil(diffTime / DAY_MS);
+
+  if (diffDays < 7) {
+    return t('date.daysAgo', { count: Math.max(diffDays, 1) });
+  } else if (diffDays < 30) {
+    return t('date.weeksAgo', { count: Math.floor(diffDays / 7) });
+  } else if (diffDays < 365) {
+    return t('date.monthsAgo', { count: Math.floor(diffDays / 30) });
+  }
+  return t('date.yearsAgo', { count: Math.floor(diffDays / 365) });
+};
+
+/**
+ * 格式化时间戳为距现在的时间（如“5分钟前”），超过一天时显示相对日期
+ */
+export const formatTimeAgo = (timestamp: number, now: number = Date.now()): string => {
+  const minutes = Math.floor(Math.max(now - timestamp, 0) / (1000 * 60));
+  if (minutes < 1) {
+    return t('date.justNow');
+  } else if (minutes < 60) {
+    return t('date.minutesAgo', { count: minutes });
+  } else if (minutes < 60 * 24) {
+    return t('date.hoursAgo', { count: Math.floor(minutes / 60) });
+  }
+  return formatDate(new Date(timestamp).toISOString());
+};
+
+/**
+ * 格式化时间戳为当前语言的日期和时间
+ */
+export const formatDateTime = (timestamp: number): string =>
+  new Intl.DateTimeFormat(currentLocale, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  }).format(new Date(timestamp));
+
+const FILE_SIZE_UNITS: MessageKey[] = ['fileSize.bytes', 'fileSize.kb', 'fileSize.mb', 'fileSize.gb'];
+
+/**
+ * 格式化文件大小，数字按当前语言的习惯显示
+ */
+export const formatFileSize = (bytes: number): string => {
+  const k = 1024;
+  const index = bytes > 0
+    ? Math.min(Math.floor(Math.log(bytes) / Math.log(k)), FILE_SIZE_UNITS.length - 1)
+    : 0;
+  const value = Number((bytes / Math.pow(k, index)).toFixed(2));
+  return t(FILE_SIZE_UNITS[index], {
+    count: value,
+    size: new Intl.NumberFormat(currentLocale, { maximumFractionDigits: 2 }).format(value),
+  });
+};
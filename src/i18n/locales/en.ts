@@ -0,0 +1,387 @@
+/**
+ * 英文文案
+ */
+
+import { Catalog } from '../types';
+
+const en: Catalog = {
+  // 通用
+  'common.cancel': 'Cancel',
+  'common.confirm': 'OK',
+  'common.save': 'Save',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.error': 'Error',
+  'common.loading': 'Loading...',
+
+  // 请求错误
+  'error.network': 'Network connection failed. Please check your network settings',
+  'error.timeout': 'The request timed out. Please check your network and try again',
+  'error.validation': 'Some of the submitted information is invalid. Please check and try again',
+  'error.authentication': 'Your session has expired. Please log in again',
+  'error.permissionDenied': 'You do not have permission to do this',
+  'error.notFound': 'The requested item does not exist',
+  'error.throttled': 'Too many requests. Please try again later',
+  'error.server': 'The server is temporarily unavailable. Please try again later',
+  'error.unknown': 'The request failed. Please try again later',
+
+  // 登录错误
+  'loginError.network': 'Network connection failed. Please check your network settings and try again',
+  'loginError.timeout': 'The connection timed out. Please check your network and try again',
+  'loginError.validation': 'The username or password format is invalid. Please check your input',
+  'loginError.authentication': 'Incorrect username or password. Please try again',
+  'loginError.permissionDenied': 'This account is disabled or lacks permission. Please contact an administrator',
+  'loginError.notFound': 'The login service is unavailable. Please check the server address',
+  'loginError.throttled': 'Too many login attempts. Please try again later',
+  'loginError.server': 'The server is temporarily unavailable. Please try again later',
+  'loginError.unknown': 'Login failed. Please try again later',
+
+  // 错误提示
+  'errorMessage.reconnect': 'Reconnect',
+  'errorMessage.reenter': 'Re-enter',
+
+  // 字段名称
+  'field.username': 'Username',
+  'field.password': 'Password',
+  'field.email': 'Email',
+  'field.first_name': 'First name',
+  'field.last_name': 'Last name',
+  'field.old_password': 'Current password',
+  'field.new_password': 'New password',
+  'field.avatar': 'Avatar',
+  'field.name': 'Name',
+  'field.description': 'Description',
+  'field.image': 'Image',
+  'field.groups': 'Groups',
+
+  // 表单校验
+  'validation.usernameRequired': 'Please enter a username',
+  'validation.passwordRequired': 'Please enter a password',
+  'validation.newPasswordRequired': 'Please enter a new password',
+  'validation.oldPasswordRequired': 'Please enter your current password',
+  'validation.tooShort': '{label} must be at least {min} characters',
+  'validation.tooLong': '{label} cannot exceed {max} characters',
+  'validation.usernameFormat': 'Usernames can only contain letters, numbers and underscores, and must be 3-20 characters long',
+  'validation.emailRequired': 'Please enter an email address',
+  'validation.emailInvalid': 'The email address is invalid',
+  'validation.passwordMismatch': 'The passwords do not match',
+  'validation.newPasswordSame': 'The new password must be different from the current password',
+
+  // 相对日期
+  'date.daysAgo': { one: '{count} day ago', other: '{count} days ago' },
+  'date.weeksAgo': { one: '{count} week ago', other: '{count} weeks ago' },
+  'date.monthsAgo': { one: '{count} month ago', other: '{count} months ago' },
+  'date.yearsAgo': { one: '{count} year ago', other: '{count} years ago' },
+  'date.justNow': 'just now',
+  'date.minutesAgo': '{count} min ago',
+  'date.hoursAgo': { one: '{count} hour ago', other: '{count} hours ago' },
+
+  // 文件大小
+  'fileSize.bytes': { one: '{size} byte', other: '{size} bytes' },
+  'fileSize.kb': '{size} KB',
+  'fileSize.mb': '{size} MB',
+  'fileSize.gb': '{size} GB',
+
+  // 服务器
+  'server.unexpectedResponse': 'Unexpected server response ({status}). Please check the address',
+  'server.unreachable': 'Cannot connect to this server. Please check the address and your network',
+
+  // 账户
+  'account.notFound': 'This account no longer exists. Please log in again',
+  'account.sessionExpired': 'The session for this account has expired',
+  'account.switchExpired': 'The session for this account has expired. Remove it and log in again',
+
+  // 登录状态
+  'auth.loginFailed': 'Login failed',
+  'auth.fetchUserFailed': 'Failed to load user information',
+  'auth.sessionExpired': 'Your session has expired. Please log in again',
+
+  // 分组
+  'groups.fetchFailed': 'Failed to load groups',
+  'groups.fetchDetailFailed': 'Failed to load the group',
+  'groups.createFailed': 'Failed to create the group',
+  'groups.updateFailed': 'Failed to update the group',
+  'groups.deleteFailed': 'Failed to delete the group',
+  'groups.updateImagesFailed': 'Failed to update the images in the group',
+  'groups.create': 'New Group',
+
+  // 图片
+  'images.fetchFailed': 'Failed to load images',
+  'images.fetchMoreFailed': 'Failed to load more images',
+  'images.fetchDetailFailed': 'Failed to load image details',
+  'images.updateFailed': 'Failed to update the image',
+  'images.deleteFailed': 'Failed to delete the image',
+  'images.uploadFailed': 'Failed to upload the image',
+  'images.empty': 'No images',
+  'images.total': { one: '{count} image', other: '{count} images' },
+  'images.loading': 'Loading images...',
+
+  // 应用锁
+  'appLock.unlockPrompt': 'Unlock Photo Library',
+  'appLock.enablePrompt': 'Verify your identity to turn on App Lock',
+  'appLock.unavailable': 'Set up biometrics or a screen lock passcode on this device to use App Lock',
+  'appLock.enableFailed': 'Verification failed. App Lock was not turned on',
+  'appLock.usePasscode': 'Use Passcode',
+  'appLock.timeoutImmediately': 'Immediately',
+  'appLock.timeoutMinutes': { one: '{count} minute', other: '{count} minutes' },
+
+  // 锁屏
+  'lockScreen.title': 'Photo Library Locked',
+  'lockScreen.lockedOut': { one: 'Too many failed attempts. Try again in {count} second', other: 'Too many failed attempts. Try again in {count} seconds' },
+  'lockScreen.hint': 'Unlock with biometrics or your device passcode',
+  'lockScreen.unlock': 'Unlock',
+  'lockScreen.logout': 'Log Out',
+
+  // 登录
+  'login.title': 'Log In',
+  'login.addAccountTitle': 'Add Account',
+  'login.subtitle': 'Log in to your account',
+  'login.addAccountSubtitle': 'Log in to another account',
+  'login.usernamePlaceholder': 'Enter your username',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.showPassword': 'Show',
+  'login.hidePassword': 'Hide',
+  'login.submit': 'Log In',
+  'login.forgotPassword': 'Forgot password?',
+  'login.register': 'Don\'t have an account? Sign up',
+  'login.footer': 'Log in with your website account or create a new one',
+  'login.server': 'Server: {name}',
+  'login.changeServer': 'Change',
+  'login.invalidServerUrl': 'Please enter a valid server address',
+  'login.serverChanged': 'Server changed',
+  'login.success': 'Logged in. Welcome back!',
+  'login.accountAdded': 'Account added and switched',
+
+  // 注册
+  'register.title': 'Sign Up',
+  'register.usernamePlaceholder': '3-20 letters, digits or underscores',
+  'register.emailPlaceholder': 'Used to reset your password',
+  'register.confirmPassword': 'Confirm password',
+  'register.confirmPasswordPlaceholder': 'Enter the password again',
+  'register.submit': 'Sign Up',
+  'register.backToLogin': 'Already have an account? Log in',
+  'register.success': 'Signed up. Welcome!',
+  'register.successLogin': 'Signed up. Please log in',
+
+  // 找回密码
+  'forgotPassword.title': 'Reset Password',
+  'forgotPassword.description': 'Enter the email you signed up with and we will send you a link to reset your password.',
+  'forgotPassword.emailPlaceholder': 'Enter your email',
+  'forgotPassword.submit': 'Send Reset Link',
+  'forgotPassword.sentTitle': 'Email Sent',
+  'forgotPassword.sentDescription': 'If {email} belongs to an account, you will receive an email with a link to reset your password. Follow the instructions in the email to set a new password, then log in again.',
+  'forgotPassword.backToLogin': 'Back to Login',
+
+  // 主页
+  'home.title': 'Photo Library',
+  'home.logout': 'Log Out',
+  'home.logoutFailed': 'Log Out Failed',
+  'home.logoutFailedMessage': 'The operation could not be completed. Please try again later.',
+  'home.notLoggedIn': 'Not logged in',
+  'home.welcome': 'Welcome back, {name}!',
+  'home.imageCount': { one: 'Your library has {count} image', other: 'Your library has {count} images' },
+  'home.quickActions': 'Quick Actions',
+  'home.viewAllImages': 'All Images',
+  'home.queuedUploads': { one: '{count} image is waiting to upload and will retry when you are back online', other: '{count} images are waiting to upload and will retry when you are back online' },
+  'home.groups': 'Groups',
+  'home.groupsEmpty': 'No groups yet. Create one to organize your images',
+  'home.recentImages': 'Recent Images',
+  'home.viewAll': 'View All',
+  'home.imagesEmpty': 'No images yet',
+  'home.imagesEmptyHint': 'Upload some images to get started!',
+
+  // 图片画廊
+  'gallery.title': 'Gallery',
+  'gallery.myImages': 'My Images',
+  'gallery.allImages': 'All Images',
+  'gallery.searchPlaceholder': 'Search names, descriptions or uploaders',
+  'gallery.filter': 'Filter',
+  'gallery.localResults': 'local results',
+  'gallery.clearFilter': 'Clear Filters',
+  'gallery.noMatches': 'No matching images',
+
+  // 图片筛选
+  'imageFilter.title': 'Filter Images',
+  'imageFilter.owner': 'Uploader',
+  'imageFilter.uploadDate': 'Upload date',
+  'imageFilter.startDate': 'From YYYY-MM-DD',
+  'imageFilter.to': 'to',
+  'imageFilter.endDate': 'To YYYY-MM-DD',
+  'imageFilter.dateFormat': 'Dates must use the format YYYY-MM-DD',
+  'imageFilter.dateOrder': 'The start date cannot be after the end date',
+  'imageFilter.minResolution': 'Minimum resolution',
+  'imageFilter.width': 'Width',
+  'imageFilter.height': 'Height',
+  'imageFilter.orientation': 'Orientation',
+  'imageFilter.any': 'Any',
+  'imageFilter.landscape': 'Landscape',
+  'imageFilter.portrait': 'Portrait',
+  'imageFilter.square': 'Square',
+  'imageFilter.group': 'Group',
+  'imageFilter.reset': 'Reset',
+  'imageFilter.apply': 'Apply',
+
+  // 图片详情
+  'imageDetail.title': 'Image Details',
+  'imageDetail.loading': 'Loading image details...',
+  'imageDetail.notFound': 'Image not found',
+  'imageDetail.previous': 'Previous',
+  'imageDetail.next': 'Next',
+  'imageDetail.editTitle': 'Edit Image',
+  'imageDetail.namePlaceholder': 'Image name',
+  'imageDetail.descriptionPlaceholder': 'Image description',
+  'imageDetail.nameRequired': 'The image name cannot be empty',
+  'imageDetail.updated': 'Image updated',
+  'imageDetail.details': 'Details',
+  'imageDetail.dimensions': 'Dimensions:',
+  'imageDetail.pixels': '{width} × {height} px',
+  'imageDetail.fileSize': 'File size:',
+  'imageDetail.owner': 'Uploaded by:',
+  'imageDetail.uploadedAt': 'Uploaded:',
+  'imageDetail.updatedAt': 'Updated:',
+  'imageDetail.groups': 'Groups',
+  'imageDetail.view': 'View Full Size',
+  'imageDetail.edit': 'Edit Info',
+  'imageDetail.manageGroups': 'Manage Groups',
+  'imageDetail.delete': 'Delete Image',
+  'imageDetail.deleteConfirm': 'Delete "{name}"? This cannot be undone.',
+  'imageDetail.deleted': 'Image deleted',
+
+  // 分组详情
+  'groupDetail.title': 'Group Details',
+  'groupDetail.loading': 'Loading group...',
+
+  // 分组编辑
+  'groupEditor.editTitle': 'Edit Group',
+  'groupEditor.name': 'Group name',
+  'groupEditor.nameRequired': 'Enter a group name',
+  'groupEditor.descriptionPlaceholder': 'Group description (optional)',
+  'groupEditor.create': 'Create Group',
+  'groupEditor.save': 'Save Changes',
+  'groupEditor.created': 'Group created',
+  'groupEditor.updated': 'Group updated',
+  'groupEditor.saveFailed': 'Failed to save the group',
+  'groupEditor.delete': 'Delete Group',
+  'groupEditor.deleteConfirm': 'Delete the group "{name}"? The images in it will not be deleted.',
+  'groupEditor.deleted': 'Group deleted',
+
+  // 分组选择
+  'groupPicker.title': 'Add to Group',
+  'groupPicker.empty': 'No groups yet',
+
+  // 上传图片
+  'upload.title': 'Upload Images',
+  'upload.pick': 'Choose Images',
+  'upload.fromLibrary': 'Photo Library',
+  'upload.takePhoto': 'Take Photo',
+  'upload.empty': 'No images selected',
+  'upload.descriptionPlaceholder': 'Add a description for these images (optional)',
+  'upload.submit': { one: 'Upload {count} Image', other: 'Upload {count} Images' },
+  'upload.queuedHint': 'The images are queued and will keep uploading in the background if you leave this screen',
+  'upload.success': { one: 'Uploaded {count} image', other: 'Uploaded {count} images' },
+  'upload.noFiles': 'Choose the images to upload first',
+  'upload.nameRequired': 'Enter a name for every image',
+  'upload.offline': 'You are offline. The images will upload when you are back online',
+  'upload.libraryDenied': 'Cannot Access Photos',
+  'upload.libraryDeniedMessage': 'Allow photo access in the system settings',
+  'upload.cameraDenied': 'Cannot Use Camera',
+  'upload.cameraDeniedMessage': 'Allow camera access in the system settings',
+  'upload.status.done': 'Done',
+  'upload.status.failed': 'Upload failed',
+  'upload.status.retrying': { one: 'Waiting to retry ({count} attempt)', other: 'Waiting to retry ({count} attempts)' },
+  'upload.status.pending': 'Waiting to upload',
+  'upload.status.offline': 'Waiting for connection',
+
+  // 个人资料
+  'profile.title': 'Profile',
+  'profile.loadFailed': 'Failed to load your profile',
+  'profile.changeAvatar': 'Change Avatar',
+  'profile.staff': 'Admin',
+  'profile.stats': 'Statistics',
+  'profile.totalImages': 'Total Images',
+  'profile.accountDetails': 'Account Details',
+  'profile.accountType': 'Account type',
+  'profile.staffAccount': 'Administrator',
+  'profile.regularAccount': 'Regular user',
+  'profile.sessionExpiry': 'Session expires',
+  'profile.saved': 'Profile saved',
+  'profile.saveFailed': 'Failed to save your profile',
+  'profile.avatarUpdated': 'Avatar updated',
+  'profile.avatarFailed': 'Failed to update your avatar',
+  'profile.passwordChanged': 'Password changed',
+  'profile.switchAccount': 'Switch Account',
+  'profile.currentAccount': 'Current',
+  'profile.remove': 'Remove',
+  'profile.removeAccount': 'Remove Account',
+  'profile.removeAccountConfirm': 'Remove the account "{name}"? You will need to log in again to use it.',
+  'profile.switched': 'Switched to {name}',
+  'profile.switchFailed': 'Failed to switch accounts',
+  'profile.appLock': 'App Lock',
+  'profile.lockTimeout': 'Require unlock after leaving the app for',
+  'profile.appLockFailed': 'Failed to change the App Lock settings',
+  'profile.language': 'Language',
+  'profile.followSystem': 'System',
+  'profile.actions': 'Actions',
+  'profile.viewMyImages': 'View My Images',
+  'profile.storage': 'Storage',
+  'profile.imageCache': 'Image cache',
+  'profile.imageCacheBudget': 'Image cache limit',
+  'profile.clearImageCache': 'Clear Image Cache',
+  'profile.clearImageCacheConfirm': 'Clear all cached images? They will be downloaded again when viewed.',
+  'profile.clear': 'Clear',
+  'profile.imageCacheCleared': 'Image cache cleared',
+
+  // 修改密码
+  'changePassword.title': 'Change Password',
+  'changePassword.newPasswordPlaceholder': 'At least 6 characters',
+  'changePassword.confirmPassword': 'Confirm new password',
+  'changePassword.submit': 'Change Password',
+
+  // 服务器选择
+  'serverPicker.title': 'Choose Server',
+  'serverPicker.custom': 'Custom',
+  'serverPicker.customPlaceholder': 'e.g. http://192.168.1.10:8000',
+  'serverPicker.save': 'Check and Save',
+
+  // 图片网格
+  'imageGrid.square': 'Grid',
+  'imageGrid.masonry': 'Masonry',
+  'imageGrid.justified': 'Justified',
+
+  // 离线缓存
+  'cache.status': 'Cached · updated {time}',
+
+  // 多选和批量操作
+  'selection.count': '{count} selected',
+  'selection.selectAll': 'Select all',
+  'selection.deselectAll': 'Deselect all',
+  'batch.delete': 'Delete',
+  'batch.addToGroup': 'Add to group',
+  'batch.removeFromGroup': 'Remove',
+  'batch.save': 'Save',
+  'batch.share': 'Share',
+  'batch.edit': 'Edit',
+  'batch.deleteConfirm': {
+    one: 'Delete the selected image? This cannot be undone.',
+    other: 'Delete the {count} selected images? This cannot be undone.',
+  },
+  'batch.removeFromGroupConfirm': {
+    one: 'Remove the selected image from "{name}"?',
+    other: 'Remove the {count} selected images from "{name}"?',
+  },
+  'batch.removeFromGroupsTitle': 'Remove from groups',
+  'batch.editTitle': { one: 'Edit {count} image', other: 'Edit {count} images' },
+  'batch.editName': 'Change name',
+  'batch.editDescription': 'Change description',
+  'batch.namePlaceholder': 'Replaces the name of the selected images',
+  'batch.descriptionPlaceholder': 'Replaces the description of the selected images; leave empty to clear',
+  'batch.succeeded': { one: '{count} image updated', other: '{count} images updated' },
+  'batch.saved': { one: '{count} image saved to Photos', other: '{count} images saved to Photos' },
+  'batch.downloadFailed': 'Failed to download image',
+  'batch.mediaLibraryDenied': 'Allow access to Photos in Settings to save images',
+  'batch.partialFailed': '{succeeded} succeeded, {failed} failed: {error}',
+  'batch.failed': { one: '{count} image failed: {error}', other: '{count} images failed: {error}' },
+};
+
+export default en;
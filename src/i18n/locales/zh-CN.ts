@@ -0,0 +1,382 @@
+/**
+ * 简体中文文案
+ * 默认语言，其他语言需要提供与这里相同的key
+ */
+
+const zhCN = {
+  // 通用
+  'common.cancel': '取消',
+  'common.confirm': '确定',
+  'common.save': '保存',
+  'common.edit': '编辑',
+  'common.delete': '删除',
+  'common.retry': '重试',
+  'common.error': '错误',
+  'common.loading': '加载中...',
+
+  // 请求错误
+  'error.network': '网络连接失败，请检查网络设置',
+  'error.timeout': '请求超时，请检查网络后重试',
+  'error.validation': '提交的内容有误，请检查后重试',
+  'error.authentication': '登录已失效，请重新登录',
+  'error.permissionDenied': '没有权限执行此操作',
+  'error.notFound': '请求的内容不存在',
+  'error.throttled': '操作过于频繁，请稍后再试',
+  'error.server': '服务器临时不可用，请稍后重试',
+  'error.unknown': '请求失败，请稍后重试',
+
+  // 登录错误
+  'loginError.network': '网络连接失败，请检查网络设置后重试',
+  'loginError.timeout': '连接超时，请检查网络后重试',
+  'loginError.validation': '用户名或密码格式不正确，请检查输入',
+  'loginError.authentication': '用户名或密码错误，请重新输入',
+  'loginError.permissionDenied': '账户被禁用或权限不足，请联系管理员',
+  'loginError.notFound': '登录服务不可用，请检查服务器地址',
+  'loginError.throttled': '登录尝试过于频繁，请稍后再试',
+  'loginError.server': '服务器临时不可用，请稍后重试',
+  'loginError.unknown': '登录失败，请稍后重试',
+
+  // 错误提示
+  'errorMessage.reconnect': '重新连接',
+  'errorMessage.reenter': '重新输入',
+
+  // 字段名称
+  'field.username': '用户名',
+  'field.password': '密码',
+  'field.email': '邮箱',
+  'field.first_name': '名字',
+  'field.last_name': '姓氏',
+  'field.old_password': '当前密码',
+  'field.new_password': '新密码',
+  'field.avatar': '头像',
+  'field.name': '名称',
+  'field.description': '描述',
+  'field.image': '图片',
+  'field.groups': '分组',
+
+  // 表单校验
+  'validation.usernameRequired': '请输入用户名',
+  'validation.passwordRequired': '请输入密码',
+  'validation.newPasswordRequired': '请输入新密码',
+  'validation.oldPasswordRequired': '请输入当前密码',
+  'validation.tooShort': '{label}至少需要{min}个字符',
+  'validation.tooLong': '{label}不能超过{max}个字符',
+  'validation.usernameFormat': '用户名只能包含字母、数字和下划线，长度为3-20个字符',
+  'validation.emailRequired': '请输入邮箱',
+  'validation.emailInvalid': '邮箱格式不正确',
+  'validation.passwordMismatch': '两次输入的密码不一致',
+  'validation.newPasswordSame': '新密码不能与当前密码相同',
+
+  // 相对日期
+  'date.daysAgo': '{count}天前',
+  'date.weeksAgo': '{count}周前',
+  'date.monthsAgo': '{count}个月前',
+  'date.yearsAgo': '{count}年前',
+  'date.justNow': '刚刚',
+  'date.minutesAgo': '{count}分钟前',
+  'date.hoursAgo': '{count}小时前',
+
+  // 文件大小
+  'fileSize.bytes': '{size} 字节',
+  'fileSize.kb': '{size} KB',
+  'fileSize.mb': '{size} MB',
+  'fileSize.gb': '{size} GB',
+
+  // 服务器
+  'server.unexpectedResponse': '服务器响应异常（{status}），请确认地址是否正确',
+  'server.unreachable': '无法连接到该服务器，请检查地址和网络',
+
+  // 账户
+  'account.notFound': '账户不存在，请重新登录',
+  'account.sessionExpired': '该账户的登录已过期',
+  'account.switchExpired': '该账户的登录已过期，请移除后重新登录',
+
+  // 登录状态
+  'auth.loginFailed': '登录失败',
+  'auth.fetchUserFailed': '获取用户信息失败',
+  'auth.sessionExpired': '登录已过期，请重新登录',
+
+  // 分组
+  'groups.fetchFailed': '获取分组列表失败',
+  'groups.fetchDetailFailed': '获取分组详情失败',
+  'groups.createFailed': '创建分组失败',
+  'groups.updateFailed': '更新分组失败',
+  'groups.deleteFailed': '删除分组失败',
+  'groups.updateImagesFailed': '修改分组图片失败',
+  'groups.create': '新建分组',
+
+  // 图片
+  'images.fetchFailed': '获取图片列表失败',
+  'images.fetchMoreFailed': '加载更多图片失败',
+  'images.fetchDetailFailed': '获取图片详情失败',
+  'images.updateFailed': '更新图片失败',
+  'images.deleteFailed': '删除图片失败',
+  'images.uploadFailed': '上传图片失败',
+  'images.empty': '暂无图片',
+  'images.total': '共 {count} 张图片',
+  'images.loading': '加载图片中...',
+
+  // 应用锁
+  'appLock.unlockPrompt': '解锁照片库',
+  'appLock.enablePrompt': '验证身份以开启应用锁',
+  'appLock.unavailable': '设备未设置生物识别或锁屏密码，无法开启应用锁',
+  'appLock.enableFailed': '身份验证未通过，应用锁未开启',
+  'appLock.usePasscode': '使用密码',
+  'appLock.timeoutImmediately': '立即',
+  'appLock.timeoutMinutes': '{count}分钟',
+
+  // 锁屏
+  'lockScreen.title': '照片库已锁定',
+  'lockScreen.lockedOut': '验证失败次数过多，请在 {count} 秒后重试',
+  'lockScreen.hint': '请使用生物识别或设备密码解锁',
+  'lockScreen.unlock': '解锁',
+  'lockScreen.logout': '退出登录',
+
+  // 登录
+  'login.title': '登录',
+  'login.addAccountTitle': '添加账户',
+  'login.subtitle': '登录您的账户',
+  'login.addAccountSubtitle': '登录另一个账户',
+  'login.usernamePlaceholder': '请输入用户名',
+  'login.passwordPlaceholder': '请输入密码',
+  'login.showPassword': '显示',
+  'login.hidePassword': '隐藏',
+  'login.submit': '登录',
+  'login.forgotPassword': '忘记密码？',
+  'login.register': '没有账户？立即注册',
+  'login.footer': '使用您的网站账户登录或注册新账户',
+  'login.server': '服务器：{name}',
+  'login.changeServer': '更改',
+  'login.invalidServerUrl': '请输入有效的服务器地址',
+  'login.serverChanged': '已切换服务器',
+  'login.success': '登录成功！欢迎回来',
+  'login.accountAdded': '账户已添加并切换',
+
+  // 注册
+  'register.title': '注册',
+  'register.usernamePlaceholder': '3-20个字母、数字或下划线',
+  'register.emailPlaceholder': '用于找回密码',
+  'register.confirmPassword': '确认密码',
+  'register.confirmPasswordPlaceholder': '再次输入密码',
+  'register.submit': '注册',
+  'register.backToLogin': '已有账户？返回登录',
+  'register.success': '注册成功，欢迎使用',
+  'register.successLogin': '注册成功，请登录',
+
+  // 找回密码
+  'forgotPassword.title': '找回密码',
+  'forgotPassword.description': '输入注册时使用的邮箱，我们会向该邮箱发送重置密码的链接。',
+  'forgotPassword.emailPlaceholder': '请输入邮箱',
+  'forgotPassword.submit': '发送重置链接',
+  'forgotPassword.sentTitle': '邮件已发送',
+  'forgotPassword.sentDescription': '如果 {email} 是已注册的邮箱，你将收到一封包含重置密码链接的邮件。请按照邮件中的说明设置新密码后重新登录。',
+  'forgotPassword.backToLogin': '返回登录',
+
+  // 主页
+  'home.title': '照片库',
+  'home.logout': '登出',
+  'home.logoutFailed': '登出失败',
+  'home.logoutFailedMessage': '操作无法完成，请稍后再试。',
+  'home.notLoggedIn': '未登录',
+  'home.welcome': '欢迎回来, {name}!',
+  'home.imageCount': '您的照片库中共有 {count} 张图片',
+  'home.quickActions': '快速操作',
+  'home.viewAllImages': '查看所有图片',
+  'home.queuedUploads': '{count} 张图片等待上传，网络恢复后将自动重试',
+  'home.groups': '图片分组',
+  'home.groupsEmpty': '还没有分组，创建一个来整理图片吧',
+  'home.recentImages': '最近图片',
+  'home.viewAll': '查看全部',
+  'home.imagesEmpty': '还没有图片',
+  'home.imagesEmptyHint': '上传一些图片来开始使用照片库吧！',
+
+  // 图片画廊
+  'gallery.title': '图片画廊',
+  'gallery.myImages': '我的图片',
+  'gallery.allImages': '所有图片',
+  'gallery.searchPlaceholder': '搜索名称、描述或上传者',
+  'gallery.filter': '筛选',
+  'gallery.localResults': '本地结果',
+  'gallery.clearFilter': '清除筛选',
+  'gallery.noMatches': '没有符合条件的图片',
+
+  // 图片筛选
+  'imageFilter.title': '筛选图片',
+  'imageFilter.owner': '上传者',
+  'imageFilter.uploadDate': '上传日期',
+  'imageFilter.startDate': '开始 YYYY-MM-DD',
+  'imageFilter.to': '至',
+  'imageFilter.endDate': '结束 YYYY-MM-DD',
+  'imageFilter.dateFormat': '日期格式应为 YYYY-MM-DD',
+  'imageFilter.dateOrder': '开始日期不能晚于结束日期',
+  'imageFilter.minResolution': '最低分辨率',
+  'imageFilter.width': '宽度',
+  'imageFilter.height': '高度',
+  'imageFilter.orientation': '方向',
+  'imageFilter.any': '不限',
+  'imageFilter.landscape': '横向',
+  'imageFilter.portrait': '纵向',
+  'imageFilter.square': '方形',
+  'imageFilter.group': '分组',
+  'imageFilter.reset': '重置',
+  'imageFilter.apply': '应用',
+
+  // 图片详情
+  'imageDetail.title': '图片详情',
+  'imageDetail.loading': '加载图片详情中...',
+  'imageDetail.notFound': '图片未找到',
+  'imageDetail.previous': '上一张',
+  'imageDetail.next': '下一张',
+  'imageDetail.editTitle': '编辑图片信息',
+  'imageDetail.namePlaceholder': '图片名称',
+  'imageDetail.descriptionPlaceholder': '图片描述',
+  'imageDetail.nameRequired': '图片名称不能为空',
+  'imageDetail.updated': '图片信息已更新',
+  'imageDetail.details': '详细信息',
+  'imageDetail.dimensions': '尺寸:',
+  'imageDetail.pixels': '{width} × {height} 像素',
+  'imageDetail.fileSize': '文件大小:',
+  'imageDetail.owner': '上传者:',
+  'imageDetail.uploadedAt': '上传时间:',
+  'imageDetail.updatedAt': '更新时间:',
+  'imageDetail.groups': '所属分组',
+  'imageDetail.view': '查看大图',
+  'imageDetail.edit': '编辑信息',
+  'imageDetail.manageGroups': '管理分组',
+  'imageDetail.delete': '删除图片',
+  'imageDetail.deleteConfirm': '确定要删除"{name}"吗？此操作无法撤销。',
+  'imageDetail.deleted': '图片已删除',
+
+  // 分组详情
+  'groupDetail.title': '分组详情',
+  'groupDetail.loading': '加载分组中...',
+
+  // 分组编辑
+  'groupEditor.editTitle': '编辑分组',
+  'groupEditor.name': '分组名称',
+  'groupEditor.nameRequired': '请输入分组名称',
+  'groupEditor.descriptionPlaceholder': '分组描述（可选）',
+  'groupEditor.create': '创建分组',
+  'groupEditor.save': '保存修改',
+  'groupEditor.created': '分组已创建',
+  'groupEditor.updated': '分组已更新',
+  'groupEditor.saveFailed': '保存分组失败',
+  'groupEditor.delete': '删除分组',
+  'groupEditor.deleteConfirm': '确定要删除分组"{name}"吗？分组中的图片不会被删除。',
+  'groupEditor.deleted': '分组已删除',
+
+  // 分组选择
+  'groupPicker.title': '添加到分组',
+  'groupPicker.empty': '还没有分组',
+
+  // 上传图片
+  'upload.title': '上传图片',
+  'upload.pick': '选择图片',
+  'upload.fromLibrary': '从相册选择',
+  'upload.takePhoto': '拍照',
+  'upload.empty': '尚未选择图片',
+  'upload.descriptionPlaceholder': '为这些图片添加描述（可选）',
+  'upload.submit': '上传 {count} 张图片',
+  'upload.queuedHint': '图片已加入上传队列，离开此页面后将在后台继续上传',
+  'upload.success': '成功上传 {count} 张图片',
+  'upload.noFiles': '请先选择要上传的图片',
+  'upload.nameRequired': '请为每张图片填写名称',
+  'upload.offline': '当前无网络连接，图片将在网络恢复后自动上传',
+  'upload.libraryDenied': '无法访问相册',
+  'upload.libraryDeniedMessage': '请在系统设置中允许访问相册',
+  'upload.cameraDenied': '无法使用相机',
+  'upload.cameraDeniedMessage': '请在系统设置中允许使用相机',
+  'upload.status.done': '已完成',
+  'upload.status.failed': '上传失败',
+  'upload.status.retrying': '等待重试（已尝试 {count} 次）',
+  'upload.status.pending': '等待上传',
+  'upload.status.offline': '等待网络连接',
+
+  // 个人资料
+  'profile.title': '个人资料',
+  'profile.loadFailed': '用户信息加载失败',
+  'profile.changeAvatar': '更换头像',
+  'profile.staff': '管理员',
+  'profile.stats': '统计信息',
+  'profile.totalImages': '总图片数',
+  'profile.accountDetails': '账户详情',
+  'profile.accountType': '账户类型',
+  'profile.staffAccount': '管理员账户',
+  'profile.regularAccount': '普通用户',
+  'profile.sessionExpiry': '登录有效期至',
+  'profile.saved': '资料已保存',
+  'profile.saveFailed': '保存资料失败',
+  'profile.avatarUpdated': '头像已更新',
+  'profile.avatarFailed': '更新头像失败',
+  'profile.passwordChanged': '密码已修改',
+  'profile.switchAccount': '切换账户',
+  'profile.currentAccount': '当前',
+  'profile.remove': '移除',
+  'profile.removeAccount': '移除账户',
+  'profile.removeAccountConfirm': '确定要移除账户"{name}"吗？再次使用时需要重新登录。',
+  'profile.switched': '已切换到 {name}',
+  'profile.switchFailed': '切换账户失败',
+  'profile.appLock': '应用锁',
+  'profile.lockTimeout': '离开应用多久后需要解锁',
+  'profile.appLockFailed': '修改应用锁设置失败',
+  'profile.language': '语言',
+  'profile.followSystem': '跟随系统',
+  'profile.actions': '操作',
+  'profile.viewMyImages': '查看我的图片',
+  'profile.storage': '存储',
+  'profile.imageCache': '图片缓存',
+  'profile.imageCacheBudget': '图片缓存上限',
+  'profile.clearImageCache': '清除图片缓存',
+  'profile.clearImageCacheConfirm': '确定要清除已缓存的图片吗？再次查看时需要重新下载。',
+  'profile.clear': '清除',
+  'profile.imageCacheCleared': '图片缓存已清除',
+
+  // 修改密码
+  'changePassword.title': '修改密码',
+  'changePassword.newPasswordPlaceholder': '至少6个字符',
+  'changePassword.confirmPassword': '确认新密码',
+  'changePassword.submit': '确认修改',
+
+  // 服务器选择
+  'serverPicker.title': '选择服务器',
+  'serverPicker.custom': '自定义',
+  'serverPicker.customPlaceholder': '如 http://192.168.1.10:8000',
+  'serverPicker.save': '检测并保存',
+
+  // 图片网格
+  'imageGrid.square': '方格',
+  'imageGrid.masonry': '瀑布流',
+  'imageGrid.justified': '按行排列',
+
+  // 离线缓存
+  'cache.status': '已缓存 · {time}更新',
+
+  // 多选和批量操作
+  'selection.count': '已选择 {count} 项',
+  'selection.selectAll': '全选',
+  'selection.deselectAll': '取消全选',
+  'batch.delete': '删除',
+  'batch.addToGroup': '加入分组',
+  'batch.removeFromGroup': '移出分组',
+  'batch.save': '保存',
+  'batch.share': '分享',
+  'batch.edit': '编辑',
+  'batch.deleteConfirm': '确定要删除选中的 {count} 张图片吗？此操作无法撤销。',
+  'batch.removeFromGroupConfirm': '确定要将选中的 {count} 张图片移出“{name}”吗？',
+  'batch.removeFromGroupsTitle': '从分组中移出',
+  'batch.editTitle': '编辑 {count} 张图片',
+  'batch.editName': '修改名称',
+  'batch.editDescription': '修改描述',
+  'batch.namePlaceholder': '将替换选中图片的名称',
+  'batch.descriptionPlaceholder': '将替换选中图片的描述，留空则清除',
+  'batch.succeeded': '已处理 {count} 张图片',
+  'batch.saved': '已保存 {count} 张图片到相册',
+  'batch.downloadFailed': '下载图片失败',
+  'batch.mediaLibraryDenied': '没有访问相册的权限，请在系统设置中允许',
+  'batch.partialFailed': '{succeeded} 张成功，{failed} 张失败：{error}',
+  'batch.failed': '{count} 张图片处理失败：{error}',
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+export default zhCN;
@@ -0,0 +1,15 @@
+/**
+ * 国际化类型定义
+ */
+
+import type { MessageKey } from './locales/zh-CN';
+
+export type PluralCategory = 'one' | 'other';
+
+// 需要区分单复数的文案，用 {count} 插入数量
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+// 每种语言都必须提供所有文案
+export type Catalog = Record<MessageKey, Message>;
@@ -9,23 +9,31 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { NavigationParamList } from '../types';
 import { useAppSelector } from '../store/hooks';
 import { selectIsAuthenticated } from '../store/slices/authSlice';
+import { navigationRef } from './navigationRef';
+import { useI18n } from '../i18n';
 
 // 导入页面组件
 import LoginScreen from '../screens/LoginScreen';
 import HomeScreen from '../screens/HomeScreen';
 import GalleryScreen from '../screens/GalleryScreen';
 import ImageDetailScreen from '../screens/ImageDetailScreen';
+import UploadScreen from '../screens/UploadScreen';
+import GroupDetailScreen from '../screens/GroupDetailScreen';
+import GroupEditorScreen from '../screens/GroupEditorScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import RegisterScreen from '../screens/RegisterScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
 
 const Stack = createNativeStackNavigator<NavigationParamList>();
 
 const AppNavigator: React.FC = () => {
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const { t } = useI18n();
   
   console.log('AppNavigator render - isAuthenticated:', isAuthenticated); // 新增日志
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <Stack.Navigator
         screenOptions={{
           headerStyle: {
@@ -43,7 +51,7 @@ const AppNavigator: React.FC = () => {
             name="Login" 
             component={LoginScreen}
             options={{
-              title: '登录',
+              title: t('login.title'),
               headerShown: false, // 登录页面隐藏header
             }}
           />
@@ -54,32 +62,75 @@ const AppNavigator: React.FC = () => {
               name="Home" 
               component={HomeScreen}
               options={{
-                title: '照片库',
+                title: t('home.title'),
               }}
             />
             <Stack.Screen 
               name="Gallery" 
               component={GalleryScreen}
               options={{
-                title: '图片画廊',
+                title: t('gallery.title'),
               }}
             />
             <Stack.Screen 
               name="ImageDetail" 
               component={ImageDetailScreen}
               options={{
-                title: '图片详情',
+                title: t('imageDetail.title'),
+              }}
+            />
+            <Stack.Screen 
+              name="GroupDetail" 
+              component={GroupDetailScreen}
+              options={{
+                title: t('groupDetail.title'),
+              }}
+            />
+            <Stack.Screen 
+              name="GroupEditor" 
+              component={GroupEditorScreen}
+              options={{
+                title: t('groupEditor.editTitle'),
+              }}
+            />
+            <Stack.Screen 
+              name="Upload" 
+              component={UploadScreen}
+              options={{
+                title: t('upload.title'),
               }}
             />
             <Stack.Screen 
               name="Profile" 
               component={ProfileScreen}
               options={{
-                title: '个人资料',
+                title: t('profile.title'),
+              }}
+            />
+            <Stack.Screen 
+              name="AddAccount" 
+              component={LoginScreen}
+              options={{
+                title: t('login.addAccountTitle'),
               }}
             />
           </>
         )}
+        {/* 注册和找回密码在登录页和添加账户时都可以进入 */}
+        <Stack.Screen 
+          name="Register" 
+          component={RegisterScreen}
+          options={{
+            title: t('register.title'),
+          }}
+        />
+        <Stack.Screen 
+          name="ForgotPassword" 
+          component={ForgotPasswordScreen}
+          options={{
+            title: t('forgotPassword.title'),
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
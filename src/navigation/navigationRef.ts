@@ -0,0 +1,31 @@
+/**
+ * 全局导航引用
+ * 供导航组件之外（如登录失效处理）读取当前页面和跳转
+ */
+
+import { CommonActions, createNavigationContainerRef } from '@react-navigation/native';
+import { NavigationParamList } from '../types';
+
+export const navigationRef = createNavigationContainerRef<NavigationParamList>();
+
+// 记录下来的页面，用于重新登录后返回
+export interface SavedRoute {
+  name: keyof NavigationParamList;
+  params?: object;
+}
+
+// 获取当前所在的页面
+export const getCurrentRoute = (): SavedRoute | null => {
+  if (!navigationRef.isReady()) {
+    return null;
+  }
+  const route = navigationRef.getCurrentRoute();
+  return route ? { name: route.name, params: route.params } : null;
+};
+
+// 跳转到记录下来的页面
+export const navigateToRoute = (route: SavedRoute) => {
+  if (navigationRef.isReady()) {
+    navigationRef.dispatch(CommonActions.navigate({ name: route.name, params: route.params }));
+  }
+};
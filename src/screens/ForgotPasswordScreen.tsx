@@ -0,0 +1,186 @@
+/**
+ * 找回密码屏幕
+ * 输入注册邮箱，由后端发送重置密码的链接
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { authApi } from '../services/api';
+import { ApiError, NavigationParamList } from '../types';
+import { getFieldErrorMessages, validateEmailInput } from '../utils/errorHandling';
+import { useI18n } from '../i18n';
+
+type ForgotPasswordScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'ForgotPassword'>;
+
+interface Props {
+  navigation: ForgotPasswordScreenNavigationProp;
+}
+
+const ForgotPasswordScreen: React.FC<Props> = ({ navigation }) => {
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  // 发送重置密码邮件
+  const handleSubmit = async () => {
+    const emailError = validateEmailInput(email);
+    if (emailError) {
+      setError(emailError);
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await authApi.requestPasswordReset(email.trim());
+      setSentTo(email.trim());
+    } catch (error) {
+      const apiError = error as ApiError;
+      setError(getFieldErrorMessages(apiError).email ?? apiError.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (sentTo) {
+    return (
+      <View style={[styles.container, styles.sentContainer]}>
+        <Text style={styles.sentTitle}>{t('forgotPassword.sentTitle')}</Text>
+        <Text style={styles.description}>
+          {t('forgotPassword.sentDescription', { email: sentTo })}
+        </Text>
+        <TouchableOpacity style={styles.submitButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.submitButtonText}>{t('forgotPassword.backToLogin')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+        <Text style={styles.description}>
+          {t('forgotPassword.description')}
+        </Text>
+
+        <Text style={styles.label}>{t('field.email')}</Text>
+        <TextInput
+          style={[styles.input, error ? styles.inputError : null]}
+          value={email}
+          onChangeText={(text) => {
+            setEmail(text);
+            setError(null);
+          }}
+          placeholder={t('forgotPassword.emailPlaceholder')}
+          placeholderTextColor="#999"
+          keyboardType="email-address"
+          textContentType="emailAddress"
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!isSubmitting}
+          returnKeyType="send"
+          onSubmitEditing={handleSubmit}
+        />
+        {error && <Text style={styles.fieldErrorText}>{error}</Text>}
+
+        <TouchableOpacity
+          style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>{t('forgotPassword.submit')}</Text>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 30,
+  },
+  sentContainer: {
+    justifyContent: 'center',
+    padding: 30,
+  },
+  sentTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    textAlign: 'center',
+    marginBottom: 15,
+  },
+  description: {
+    fontSize: 15,
+    color: '#666',
+    lineHeight: 22,
+    marginBottom: 25,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+  },
+  inputError: {
+    borderColor: '#f44336',
+    borderWidth: 2,
+  },
+  fieldErrorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 5,
+  },
+  submitButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default ForgotPasswordScreen;
@@ -1,27 +1,46 @@
 /**
  * 画廊屏幕
- * 显示所有图片的网格视图
+ * 显示所有图片的网格视图，支持搜索、筛选和多选批量操作
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
+  TextInput,
   StyleSheet,
-  RefreshControl,
   Alert,
   TouchableOpacity,
+  BackHandler,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
-import { 
-  fetchImages, 
-  selectImages, 
-  selectImagesLoading, 
-  selectImagesError 
+import {
+  fetchImages,
+  fetchMoreImages,
+  selectImagesForList,
+  selectCachedImagesMatching,
+  selectHasImageList,
+  selectImagesLoading,
+  selectImagesError,
+  selectImageList,
+  selectImagesCount,
+  selectImageFilter,
+  updateImageFilter,
+  clearImageFilter,
+  getImageListKey,
 } from '../store/slices/imagesSlice';
-import { NavigationParamList } from '../types';
+import { selectGroups } from '../store/slices/groupsSlice';
+import { selectUser } from '../store/slices/authSlice';
+import { selectIsOnline } from '../store/slices/uploadQueueSlice';
+import { ImageListQuery, NavigationParamList } from '../types';
+import { debounce } from '../utils';
+import { countActiveFilters } from '../utils/imageFilter';
+import { useI18n } from '../i18n';
 import ImageGridComponent from '../components/ImageGrid';
+import ImageFilterSheet from '../components/ImageFilterSheet';
+import BatchActionBar from '../components/BatchActionBar';
+import CacheStatus from '../components/CacheStatus';
 import LoadingSpinner from '../components/LoadingSpinner';
 
 type GalleryScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'Gallery'>;
@@ -30,88 +49,259 @@ interface Props {
   navigation: GalleryScreenNavigationProp;
 }
 
+// 停止输入多久后向服务器发起搜索
+const SEARCH_DEBOUNCE_MS = 400;
+
 const GalleryScreen: React.FC<Props> = ({ navigation }) => {
+  const { t, locale } = useI18n();
   const dispatch = useAppDispatch();
-  const images = useAppSelector(selectImages);
+  const filter = useAppSelector(selectImageFilter);
+  const groups = useAppSelector(selectGroups);
+  const user = useAppSelector(selectUser);
   const isLoading = useAppSelector(selectImagesLoading);
   const error = useAppSelector(selectImagesError);
+  const isOnline = useAppSelector(selectIsOnline);
+
+  const [searchText, setSearchText] = useState(filter.search ?? '');
+  const [filterSheetVisible, setFilterSheetVisible] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+
+  const listKey = getImageListKey(filter);
+  const hasServerList = useAppSelector(state => selectHasImageList(state, listKey));
+  const serverImages = useAppSelector(state => selectImagesForList(state, listKey));
+  const pagination = useAppSelector(state => selectImageList(state, listKey));
+  const totalCount = useAppSelector(state => selectImagesCount(state, listKey));
+
+  // 输入中的关键词还没有提交到服务器时，先在本地缓存中筛选
+  const localQuery = useMemo<ImageListQuery>(
+    () => ({ ...filter, search: searchText.trim() || undefined }),
+    [filter, searchText]
+  );
+  const cachedImages = useAppSelector(state =>
+    selectCachedImagesMatching(state, localQuery, user?.id)
+  );
+  const isTyping = (filter.search ?? '') !== searchText.trim();
+  const showCached = isTyping || !hasServerList;
+  const images = showCached ? cachedImages : serverImages;
+  const activeFilterCount = countActiveFilters(filter);
+  const selectedImages = useMemo(
+    () => images.filter(image => selectedIds.includes(image.id)),
+    [images, selectedIds]
+  );
+  const isSelecting = selectedImages.length > 0;
+  const allSelected = isSelecting && selectedImages.length === images.length;
 
-  const [filterMode, setFilterMode] = useState<'all' | 'mine'>('all');
+  // 停止输入后再更新筛选条件，避免每个字符都请求一次
+  const submitSearch = useMemo(
+    () =>
+      debounce((text: string) => {
+        dispatch(updateImageFilter({ search: text.trim() || undefined }));
+      }, SEARCH_DEBOUNCE_MS),
+    [dispatch]
+  );
 
-  // 组件挂载时加载数据
+  // 筛选条件变化时加载数据并退出多选
   useEffect(() => {
+    setSelectedIds([]);
     loadImages();
-  }, [filterMode]);
+  }, [listKey]);
 
-  // 处理错误
+  // 多选模式下按返回键退出多选
   useEffect(() => {
-    if (error) {
-      Alert.alert('错误', error);
+    if (!isSelecting) return;
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      setSelectedIds([]);
+      return true;
+    });
+    return () => subscription.remove();
+  }, [isSelecting]);
+
+  // 处理错误（已显示缓存的图片时不弹窗，由缓存状态提示数据未更新）
+  useEffect(() => {
+    if (error && images.length === 0) {
+      Alert.alert(t('common.error'), error);
     }
   }, [error]);
 
-  // 加载图片
+  // 加载图片（请求失败时显示本地筛选的结果）
   const loadImages = async () => {
     try {
-      const params = filterMode === 'mine' ? { mine: true } : undefined;
-      await dispatch(fetchImages(params)).unwrap();
+      await dispatch(fetchImages(filter)).unwrap();
     } catch (error) {
       console.log('加载图片失败:', error);
     }
   };
 
-  // 刷新数据
-  const handleRefresh = () => {
-    loadImages();
+  // 滚动到底部时加载下一页
+  const handleEndReached = () => {
+    if (isLoading || showCached) return;
+    dispatch(fetchMoreImages(filter));
   };
 
   // 导航到图片详情
   const handleImagePress = (imageId: number) => {
-    navigation.navigate('ImageDetail', { imageId });
+    navigation.navigate('ImageDetail', {
+      imageId,
+      list: showCached ? undefined : filter,
+    });
+  };
+
+  // 输入搜索关键词
+  const handleSearchChange = (text: string) => {
+    setSearchText(text);
+    submitSearch(text);
+  };
+
+  // 清空搜索关键词
+  const handleClearSearch = () => {
+    setSearchText('');
+    dispatch(updateImageFilter({ search: undefined }));
+  };
+
+  // 应用筛选面板中的条件
+  const handleApplyFilter = (changes: Partial<ImageListQuery>) => {
+    dispatch(updateImageFilter(changes));
+    setFilterSheetVisible(false);
+  };
+
+  // 清除所有搜索和筛选条件
+  const handleClearFilter = () => {
+    setSearchText('');
+    dispatch(clearImageFilter());
   };
 
   // 切换过滤模式
   const toggleFilterMode = () => {
-    setFilterMode(filterMode === 'all' ? 'mine' : 'all');
+    dispatch(updateImageFilter({ mine: filter.mine ? undefined : true }));
+  };
+
+  // 全选或取消全选已加载的图片
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : images.map(image => image.id));
   };
 
-  // 设置导航头部
+  // 设置导航头部，多选模式下显示选中数量、取消和全选
   React.useLayoutEffect(() => {
+    if (isSelecting) {
+      navigation.setOptions({
+        title: t('selection.count', { count: selectedImages.length }),
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => setSelectedIds([])} style={styles.cancelSelectionButton}>
+            <Text style={styles.filterButtonText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={toggleSelectAll} style={styles.filterButton}>
+            <Text style={styles.filterButtonText}>
+              {allSelected ? t('selection.deselectAll') : t('selection.selectAll')}
+            </Text>
+          </TouchableOpacity>
+        ),
+      });
+      return;
+    }
+
     navigation.setOptions({
+      title: t('gallery.title'),
+      headerLeft: undefined,
       headerRight: () => (
         <TouchableOpacity onPress={toggleFilterMode} style={styles.filterButton}>
           <Text style={styles.filterButtonText}>
-            {filterMode === 'all' ? '我的图片' : '所有图片'}
+            {filter.mine ? t('gallery.allImages') : t('gallery.myImages')}
           </Text>
         </TouchableOpacity>
       ),
     });
-  }, [navigation, filterMode]);
-
-  if (isLoading && images.length === 0) {
-    return (
-      <View style={styles.loadingContainer}>
-        <LoadingSpinner text="加载图片中..." />
-      </View>
-    );
-  }
+  }, [navigation, filter.mine, locale, isSelecting, selectedImages.length, allSelected, images]);
 
   return (
     <View style={styles.container}>
+      {/* 搜索栏 */}
+      <View style={styles.searchContainer}>
+        <View style={styles.searchInputWrapper}>
+          <TextInput
+            style={styles.searchInput}
+            value={searchText}
+            onChangeText={handleSearchChange}
+            placeholder={t('gallery.searchPlaceholder')}
+            placeholderTextColor="#999"
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {searchText.length > 0 && (
+            <TouchableOpacity onPress={handleClearSearch} style={styles.clearSearchButton}>
+              <Text style={styles.clearSearchText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.openFilterButton, activeFilterCount > 0 && styles.openFilterButtonActive]}
+          onPress={() => setFilterSheetVisible(true)}
+        >
+          <Text
+            style={[styles.openFilterText, activeFilterCount > 0 && styles.openFilterTextActive]}
+          >
+            {t('gallery.filter')}{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
       {/* 统计信息 */}
       <View style={styles.statsContainer}>
         <Text style={styles.statsText}>
-          共 {images.length} 张图片
-          {filterMode === 'mine' && ' (我的图片)'}
+          {t('images.total', { count: showCached ? images.length : totalCount })}
+          {filter.mine && ` (${t('gallery.myImages')})`}
+          {showCached && ` (${t('gallery.localResults')})`}
         </Text>
+        {(activeFilterCount > 0 || !!filter.search) && (
+          <TouchableOpacity onPress={handleClearFilter}>
+            <Text style={styles.clearFilterText}>{t('gallery.clearFilter')}</Text>
+          </TouchableOpacity>
+        )}
       </View>
+      {!showCached && (
+        <View style={styles.cacheStatusContainer}>
+          <CacheStatus updatedAt={pagination.updatedAt} isOffline={!isOnline} />
+        </View>
+      )}
 
       {/* 图片网格 */}
-      <ImageGridComponent
-        images={images}
-        onImagePress={handleImagePress}
-        numColumns={2}
-        showDetails={true}
+      {isLoading && images.length === 0 ? (
+        <LoadingSpinner text={t('images.loading')} />
+      ) : (
+        <ImageGridComponent
+          images={images}
+          onImagePress={handleImagePress}
+          numColumns={2}
+          showDetails={true}
+          onEndReached={handleEndReached}
+          isLoadingMore={pagination.isLoadingMore}
+          layoutKey="gallery"
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          emptyText={
+            activeFilterCount > 0 || searchText.trim() ? t('gallery.noMatches') : t('images.empty')
+          }
+        />
+      )}
+
+      {/* 批量操作 */}
+      {isSelecting && (
+        <BatchActionBar
+          images={selectedImages}
+          onComplete={setSelectedIds}
+          onCreateGroup={() => navigation.navigate('GroupEditor', {})}
+        />
+      )}
+
+      {/* 筛选面板 */}
+      <ImageFilterSheet
+        visible={filterSheetVisible}
+        filter={filter}
+        groups={groups}
+        onApply={handleApplyFilter}
+        onClose={() => setFilterSheetVisible(false)}
       />
     </View>
   );
@@ -122,29 +312,90 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#f5f5f5',
   },
-  loadingContainer: {
-    flex: 1,
-    backgroundColor: '#f5f5f5',
-  },
   filterButton: {
     marginRight: 15,
   },
+  cancelSelectionButton: {
+    marginLeft: 15,
+  },
   filterButtonText: {
     color: '#fff',
     fontSize: 16,
   },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 15,
+    paddingTop: 12,
+  },
+  searchInputWrapper: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 15,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    color: '#333',
+  },
+  clearSearchButton: {
+    padding: 5,
+  },
+  clearSearchText: {
+    color: '#999',
+    fontSize: 14,
+  },
+  openFilterButton: {
+    marginLeft: 10,
+    paddingHorizontal: 12,
+    height: 40,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    justifyContent: 'center',
+  },
+  openFilterButtonActive: {
+    borderColor: '#2196F3',
+    backgroundColor: '#e3f2fd',
+  },
+  openFilterText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  openFilterTextActive: {
+    color: '#2196F3',
+    fontWeight: '600',
+  },
   statsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
     backgroundColor: '#fff',
     paddingHorizontal: 20,
     paddingVertical: 15,
     borderBottomWidth: 1,
     borderBottomColor: '#eee',
   },
+  cacheStatusContainer: {
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingBottom: 8,
+  },
   statsText: {
     fontSize: 16,
     color: '#666',
     textAlign: 'center',
   },
+  clearFilterText: {
+    fontSize: 14,
+    color: '#2196F3',
+    marginLeft: 12,
+  },
 });
 
 export default GalleryScreen;
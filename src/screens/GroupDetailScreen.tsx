@@ -0,0 +1,297 @@
+/**
+ * 分组详情屏幕
+ * 显示分组信息和分组中的图片，支持多选批量操作
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Alert,
+  TouchableOpacity,
+  BackHandler,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  fetchGroupById,
+  selectGroupById,
+  selectGroupsError,
+} from '../store/slices/groupsSlice';
+import {
+  fetchImages,
+  fetchMoreImages,
+  selectGroupImages,
+  selectImageList,
+  selectImagesLoading,
+  getImageListKey,
+} from '../store/slices/imagesSlice';
+import { ApiError, NavigationParamList } from '../types';
+import { useI18n } from '../i18n';
+import ImageGridComponent from '../components/ImageGrid';
+import BatchActionBar from '../components/BatchActionBar';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+type GroupDetailScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'GroupDetail'>;
+type GroupDetailScreenRouteProp = RouteProp<NavigationParamList, 'GroupDetail'>;
+
+interface Props {
+  navigation: GroupDetailScreenNavigationProp;
+  route: GroupDetailScreenRouteProp;
+}
+
+const GroupDetailScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { groupId } = route.params;
+  const { t, locale } = useI18n();
+
+  const dispatch = useAppDispatch();
+  const group = useAppSelector(state => selectGroupById(state, groupId));
+  const groupsError = useAppSelector(selectGroupsError);
+  const images = useAppSelector(state => selectGroupImages(state, groupId));
+  const list = useAppSelector(state => selectImageList(state, getImageListKey({ groupId })));
+  const isLoading = useAppSelector(selectImagesLoading);
+
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  // 分组详情加载失败的原因，没有可显示的内容时代替加载提示显示
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const selectedImages = useMemo(
+    () => images.filter(image => selectedIds.includes(image.id)),
+    [images, selectedIds]
+  );
+  const isSelecting = selectedImages.length > 0;
+  const allSelected = isSelecting && selectedImages.length === images.length;
+
+  // 组件挂载时加载分组详情和分组图片
+  useEffect(() => {
+    setSelectedIds([]);
+    loadGroup();
+    loadImages();
+  }, [groupId]);
+
+  // 多选模式下按返回键退出多选
+  useEffect(() => {
+    if (!isSelecting) return;
+    const subscription = BackHandler.addEventListener('hardwareBackPress', () => {
+      setSelectedIds([]);
+      return true;
+    });
+    return () => subscription.remove();
+  }, [isSelecting]);
+
+  // 处理错误（没有可显示的内容时由页面中的错误提示显示）
+  useEffect(() => {
+    if (groupsError && (group || images.length > 0)) {
+      Alert.alert(t('common.error'), groupsError);
+    }
+  }, [groupsError]);
+
+  // 全选或取消全选已加载的图片
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? [] : images.map(image => image.id));
+  };
+
+  // 使用分组名称作为标题，并提供编辑入口；多选模式下显示选中数量、取消和全选
+  React.useLayoutEffect(() => {
+    if (isSelecting) {
+      navigation.setOptions({
+        title: t('selection.count', { count: selectedImages.length }),
+        headerLeft: () => (
+          <TouchableOpacity onPress={() => setSelectedIds([])} style={styles.headerLeftButton}>
+            <Text style={styles.headerButtonText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        ),
+        headerRight: () => (
+          <TouchableOpacity onPress={toggleSelectAll} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>
+              {allSelected ? t('selection.deselectAll') : t('selection.selectAll')}
+            </Text>
+          </TouchableOpacity>
+        ),
+      });
+      return;
+    }
+
+    navigation.setOptions({
+      title: group ? group.name : t('groupDetail.title'),
+      headerLeft: undefined,
+      headerRight: () => (
+        <TouchableOpacity onPress={handleEdit} style={styles.headerButton}>
+          <Text style={styles.headerButtonText}>{t('common.edit')}</Text>
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, group?.name, locale, isSelecting, selectedImages.length, allSelected, images]);
+
+  // 导航到分组编辑
+  const handleEdit = () => {
+    navigation.navigate('GroupEditor', { groupId });
+  };
+
+  // 加载分组详情（分组已删除、无权限或离线时记录失败原因）
+  const loadGroup = async () => {
+    setLoadError(null);
+    try {
+      await dispatch(fetchGroupById(groupId)).unwrap();
+    } catch (error) {
+      setLoadError((error as ApiError).message || t('groups.fetchDetailFailed'));
+    }
+  };
+
+  // 重新加载分组详情和分组图片
+  const handleRetry = () => {
+    loadGroup();
+    loadImages();
+  };
+
+  // 加载分组图片（请求失败时显示已缓存的图片）
+  const loadImages = async () => {
+    try {
+      await dispatch(fetchImages({ groupId })).unwrap();
+    } catch (error) {
+      console.log('加载分组图片失败:', error);
+    }
+  };
+
+  // 滚动到底部时加载下一页
+  const handleEndReached = () => {
+    if (isLoading) return;
+    dispatch(fetchMoreImages({ groupId }));
+  };
+
+  // 导航到图片详情
+  const handleImagePress = (imageId: number) => {
+    navigation.navigate('ImageDetail', { imageId, list: { groupId } });
+  };
+
+  if (!group && images.length === 0 && loadError) {
+    return (
+      <View style={styles.errorContainer}>
+        <Text style={styles.errorText}>{loadError}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={handleRetry}>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (!group && images.length === 0) {
+    return (
+      <View style={styles.loadingContainer}>
+        <LoadingSpinner text={t('groupDetail.loading')} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* 分组信息 */}
+      <View style={styles.headerContainer}>
+        {group && <Text style={styles.groupName}>{group.name}</Text>}
+        {!!group?.description && (
+          <Text style={styles.groupDescription}>{group.description}</Text>
+        )}
+        <Text style={styles.statsText}>
+          {t('images.total', { count: list.count ?? images.length })}
+        </Text>
+      </View>
+
+      {/* 图片网格 */}
+      {isLoading && images.length === 0 ? (
+        <LoadingSpinner text={t('images.loading')} />
+      ) : (
+        <ImageGridComponent
+          images={images}
+          onImagePress={handleImagePress}
+          numColumns={2}
+          showDetails={true}
+          onEndReached={handleEndReached}
+          isLoadingMore={list.isLoadingMore}
+          layoutKey="groupDetail"
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+        />
+      )}
+
+      {/* 批量操作 */}
+      {isSelecting && (
+        <BatchActionBar
+          images={selectedImages}
+          currentGroup={group}
+          onComplete={setSelectedIds}
+          onCreateGroup={() => navigation.navigate('GroupEditor', {})}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  loadingContainer: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  headerButton: {
+    marginRight: 15,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    paddingHorizontal: 40,
+  },
+  errorText: {
+    fontSize: 18,
+    color: '#999',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  retryButton: {
+    backgroundColor: '#2196F3',
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  headerLeftButton: {
+    marginLeft: 15,
+  },
+  headerButtonText: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  headerContainer: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  groupName: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 5,
+  },
+  groupDescription: {
+    fontSize: 16,
+    color: '#666',
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+  statsText: {
+    fontSize: 14,
+    color: '#999',
+  },
+});
+
+export default GroupDetailScreen;
@@ -0,0 +1,251 @@
+/**
+ * 分组编辑屏幕
+ * 新建分组，或修改、删除已有分组
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  selectGroupById,
+} from '../store/slices/groupsSlice';
+import { ApiError, FieldErrors, NavigationParamList } from '../types';
+import { confirmAction } from '../utils/confirm';
+import { getFieldErrorMessages } from '../utils/errorHandling';
+import { useToast } from '../contexts/ToastContext';
+import { useI18n } from '../i18n';
+
+type GroupEditorScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'GroupEditor'>;
+type GroupEditorScreenRouteProp = RouteProp<NavigationParamList, 'GroupEditor'>;
+
+interface Props {
+  navigation: GroupEditorScreenNavigationProp;
+  route: GroupEditorScreenRouteProp;
+}
+
+const GroupEditorScreen: React.FC<Props> = ({ navigation, route }) => {
+  const groupId = route.params?.groupId;
+  const isNew = groupId === undefined;
+  const { t, locale } = useI18n();
+
+  const dispatch = useAppDispatch();
+  const group = useAppSelector(state => (isNew ? undefined : selectGroupById(state, groupId)));
+  const toast = useToast();
+
+  const [name, setName] = useState(group?.name ?? '');
+  const [description, setDescription] = useState(group?.description ?? '');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // 根据模式设置标题
+  React.useLayoutEffect(() => {
+    navigation.setOptions({ title: isNew ? t('groups.create') : t('groupEditor.editTitle') });
+  }, [navigation, isNew, locale]);
+
+  // 分组数据晚于页面加载时填充表单
+  useEffect(() => {
+    if (group && !name && !description) {
+      setName(group.name);
+      setDescription(group.description);
+    }
+  }, [group]);
+
+  // 修改表单字段时清除该字段的错误
+  const clearFieldError = (field: string) => {
+    setFieldErrors(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // 保存分组
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.showWarning(t('groupEditor.nameRequired'));
+      return;
+    }
+
+    setFieldErrors({});
+    setIsSaving(true);
+    try {
+      const data = { name: name.trim(), description: description.trim() };
+      if (isNew) {
+        await dispatch(createGroup(data)).unwrap();
+        toast.showSuccess(t('groupEditor.created'));
+      } else {
+        await dispatch(updateGroup({ id: groupId, changes: data })).unwrap();
+        toast.showSuccess(t('groupEditor.updated'));
+      }
+      navigation.goBack();
+    } catch (error) {
+      // 名称重复等字段错误显示在对应的输入框下
+      const apiError = error as ApiError;
+      const errors = getFieldErrorMessages(apiError);
+      setFieldErrors(errors);
+      if (!errors.name && !errors.description) {
+        toast.showError(apiError.message || t('groupEditor.saveFailed'));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 删除分组
+  const handleDelete = async () => {
+    if (isNew) return;
+    const confirmed = await confirmAction(
+      t('groupEditor.delete'),
+      t('groupEditor.deleteConfirm', { name: group?.name ?? '' }),
+      t('common.delete')
+    );
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      await dispatch(deleteGroup(groupId)).unwrap();
+      toast.showSuccess(t('groupEditor.deleted'));
+      // 分组详情页已失效，直接返回首页
+      navigation.popToTop();
+    } catch (error) {
+      toast.showError((error as ApiError).message || t('groups.deleteFailed'));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.section}>
+        <Text style={styles.label}>{t('groupEditor.name')}</Text>
+        <TextInput
+          style={[styles.input, !!fieldErrors.name && styles.inputError]}
+          value={name}
+          onChangeText={(text) => {
+            setName(text);
+            clearFieldError('name');
+          }}
+          placeholder={t('groupEditor.nameRequired')}
+          placeholderTextColor="#999"
+          editable={!isSaving}
+        />
+        {!!fieldErrors.name && <Text style={styles.errorText}>{fieldErrors.name}</Text>}
+
+        <Text style={styles.label}>{t('field.description')}</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput, !!fieldErrors.description && styles.inputError]}
+          value={description}
+          onChangeText={(text) => {
+            setDescription(text);
+            clearFieldError('description');
+          }}
+          placeholder={t('groupEditor.descriptionPlaceholder')}
+          placeholderTextColor="#999"
+          multiline
+          editable={!isSaving}
+        />
+        {!!fieldErrors.description && <Text style={styles.errorText}>{fieldErrors.description}</Text>}
+
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.buttonText}>{isNew ? t('groupEditor.create') : t('groupEditor.save')}</Text>
+          )}
+        </TouchableOpacity>
+
+        {!isNew && (
+          <TouchableOpacity
+            style={[styles.deleteButton, isSaving && styles.buttonDisabled]}
+            onPress={handleDelete}
+            disabled={isSaving}
+          >
+            <Text style={styles.buttonText}>{t('groupEditor.delete')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+    marginBottom: 20,
+  },
+  multilineInput: {
+    height: 100,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: '#f44336',
+  },
+  errorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: -14,
+    marginBottom: 20,
+  },
+  saveButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  deleteButton: {
+    height: 50,
+    backgroundColor: '#f44336',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 15,
+  },
+  buttonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
+
+export default GroupEditorScreen;
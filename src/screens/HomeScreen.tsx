@@ -25,6 +25,7 @@ import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { 
   selectUser, 
   selectIsAuthenticated,
+  selectActiveAccountId,
   logoutUser,
 } from '../store/slices/authSlice';
 import { 
@@ -32,6 +33,9 @@ import {
   selectImages, 
   selectImagesLoading, 
   selectImagesError,
+  selectCurrentList,
+  selectImagesCount,
+  selectImageList,
   switchToUserImages,
   switchToAllImages,
 } from '../store/slices/imagesSlice';
@@ -40,8 +44,11 @@ import {
   selectGroups, 
   selectGroupsLoading 
 } from '../store/slices/groupsSlice';
+import { selectIsOnline, selectQueuedUploadCount } from '../store/slices/uploadQueueSlice';
 import { NavigationParamList } from '../types';
+import { useI18n } from '../i18n';
 import ImageGridComponent from '../components/ImageGrid';
+import CacheStatus from '../components/CacheStatus';
 import LoadingSpinner from '../components/LoadingSpinner';
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'Home'>;
@@ -53,28 +60,35 @@ interface Props {
 const { width: screenWidth } = Dimensions.get('window');
 
 const HomeScreen: React.FC<Props> = ({ navigation }) => {
+  const { t, locale } = useI18n();
   const dispatch = useAppDispatch();
   const user = useAppSelector(selectUser);
   const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const activeAccountId = useAppSelector(selectActiveAccountId);
   const images = useAppSelector(selectImages);
   const imagesLoading = useAppSelector(selectImagesLoading);
   const imagesError = useAppSelector(selectImagesError);
+  const currentList = useAppSelector(selectCurrentList);
+  const imagesCount = useAppSelector(state => selectImagesCount(state, currentList));
+  const imagesUpdatedAt = useAppSelector(state => selectImageList(state, currentList).updatedAt);
   const groups = useAppSelector(selectGroups);
   const groupsLoading = useAppSelector(selectGroupsLoading);
+  const queuedUploadCount = useAppSelector(selectQueuedUploadCount);
+  const isOnline = useAppSelector(selectIsOnline);
 
   const scrollViewRef = useRef<ScrollView>(null);
 
-  // 组件挂载时加载数据
+  // 组件挂载或切换账户时加载数据
   useEffect(() => {
     if (isAuthenticated) {
       loadData();
     }
-  }, [isAuthenticated, dispatch]);
+  }, [isAuthenticated, activeAccountId, dispatch]);
 
-  // 处理错误
+  // 处理错误（已显示缓存的图片时不弹窗，由缓存状态提示数据未更新）
   useEffect(() => {
-    if (imagesError) {
-      Alert.alert('错误', imagesError);
+    if (imagesError && images.length === 0) {
+      Alert.alert(t('common.error'), imagesError);
     }
   }, [imagesError]);
 
@@ -82,8 +96,8 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const loadData = async () => {
     try {
       await Promise.all([
-        dispatch(fetchImages()).unwrap(), // 加载所有图片
-        dispatch(fetchImages({ mine: true })).unwrap(), // 加载用户图片
+        dispatch(fetchImages()).unwrap(), // 加载所有图片的第一页
+        dispatch(fetchImages({ mine: true })).unwrap(), // 加载用户图片的第一页
         dispatch(fetchGroups()).unwrap(),
       ]);
       // 默认显示所有图片
@@ -108,13 +122,26 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
       })
       .catch((error) => {
         console.error('HomeScreen logout failed:', error);
-        Alert.alert('登出失败', '操作无法完成，请稍后再试。');
+        Alert.alert(t('home.logoutFailed'), t('home.logoutFailedMessage'));
       });
   };
 
   // 导航到图片详情
   const handleImagePress = (imageId: number) => {
-    navigation.navigate('ImageDetail', { imageId });
+    navigation.navigate('ImageDetail', {
+      imageId,
+      list: currentList === 'mine' ? { mine: true } : {},
+    });
+  };
+
+  // 导航到分组详情
+  const handleGroupPress = (groupId: number) => {
+    navigation.navigate('GroupDetail', { groupId });
+  };
+
+  // 导航到新建分组
+  const handleCreateGroup = () => {
+    navigation.navigate('GroupEditor', {});
   };
 
   // 导航到画廊
@@ -122,6 +149,11 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
     navigation.navigate('Gallery');
   };
 
+  // 导航到上传页面
+  const handleUpload = () => {
+    navigation.navigate('Upload');
+  };
+
   // 导航到个人资料
   const handleProfile = () => {
     navigation.navigate('Profile');
@@ -133,20 +165,20 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
       headerRight: () => (
         <View style={styles.headerButtons}>
           <TouchableOpacity onPress={handleProfile} style={styles.headerButton}>
-            <Text style={styles.headerButtonText}>个人资料</Text>
+            <Text style={styles.headerButtonText}>{t('profile.title')}</Text>
           </TouchableOpacity>
           <TouchableOpacity onPress={handleLogout} style={styles.headerButton}>
-            <Text style={[styles.headerButtonText, styles.logoutText]}>登出</Text>
+            <Text style={[styles.headerButtonText, styles.logoutText]}>{t('home.logout')}</Text>
           </TouchableOpacity>
         </View>
       ),
     });
-  }, [navigation]);
+  }, [navigation, locale]);
 
   if (!isAuthenticated) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>未登录</Text>
+        <Text style={styles.errorText}>{t('home.notLoggedIn')}</Text>
       </View>
     );
   }
@@ -169,40 +201,64 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
       {/* 欢迎区域 */}
       <View style={styles.welcomeSection}>
         <Text style={styles.welcomeText}>
-          欢迎回来, {user?.first_name || user?.username}!
+          {t('home.welcome', { name: user?.first_name || user?.username || '' })}
         </Text>
         <Text style={styles.welcomeSubtext}>
-          您的照片库中共有 {images.length} 张图片
+          {t('home.imageCount', { count: imagesCount })}
         </Text>
+        <CacheStatus updatedAt={imagesUpdatedAt} isOffline={!isOnline} />
       </View>
 
       {/* 快速操作区域 */}
       <View style={styles.quickActionsSection}>
-        <Text style={styles.sectionTitle}>快速操作</Text>
+        <Text style={styles.sectionTitle}>{t('home.quickActions')}</Text>
         <View style={styles.quickActions}>
           <TouchableOpacity 
             style={styles.quickActionButton}
             onPress={() => dispatch(switchToAllImages())}
           >
-            <Text style={styles.quickActionText}>查看所有图片</Text>
+            <Text style={styles.quickActionText}>{t('home.viewAllImages')}</Text>
           </TouchableOpacity>
           <TouchableOpacity 
             style={styles.quickActionButton}
             onPress={() => dispatch(switchToUserImages())}
           >
-            <Text style={styles.quickActionText}>我的图片</Text>
+            <Text style={styles.quickActionText}>{t('gallery.myImages')}</Text>
           </TouchableOpacity>
         </View>
+        <TouchableOpacity 
+          style={[styles.quickActionButton, styles.uploadActionButton]}
+          onPress={handleUpload}
+        >
+          <Text style={styles.quickActionText}>{t('upload.title')}</Text>
+        </TouchableOpacity>
+        {queuedUploadCount > 0 && (
+          <Text style={styles.uploadQueueText}>
+            {t('home.queuedUploads', { count: queuedUploadCount })}
+          </Text>
+        )}
       </View>
 
       {/* 分组信息 */}
-      {groups.length > 0 && (
-        <View style={styles.groupsSection}>
-          <Text style={styles.sectionTitle}>图片分组</Text>
+      <View style={styles.groupsSection}>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>{t('home.groups')}</Text>
+          <TouchableOpacity onPress={handleCreateGroup}>
+            <Text style={styles.viewAllText}>{t('groups.create')}</Text>
+          </TouchableOpacity>
+        </View>
+        {/* 已有缓存的分组时后台刷新期间继续显示，由下拉刷新和缓存状态提示 */}
+        {groupsLoading && groups.length === 0 ? (
+          <LoadingSpinner />
+        ) : groups.length > 0 ? (
           <ScrollView horizontal showsHorizontalScrollIndicator={false}>
             <View style={styles.groupsList}>
               {groups.map((group) => (
-                <TouchableOpacity key={group.id} style={styles.groupItem}>
+                <TouchableOpacity 
+                  key={group.id} 
+                  style={styles.groupItem}
+                  onPress={() => handleGroupPress(group.id)}
+                >
                   <Text style={styles.groupName}>{group.name}</Text>
                   <Text style={styles.groupDescription} numberOfLines={2}>
                     {group.description}
@@ -211,33 +267,36 @@ const HomeScreen: React.FC<Props> = ({ navigation }) => {
               ))}
             </View>
           </ScrollView>
-        </View>
-      )}
+        ) : (
+          <Text style={styles.emptyStateSubtext}>{t('home.groupsEmpty')}</Text>
+        )}
+      </View>
 
       {/* 最近图片 */}
       <View style={styles.recentSection}>
         <View style={styles.sectionHeader}>
-          <Text style={styles.sectionTitle}>最近图片</Text>
-          {images.length > 6 && (
+          <Text style={styles.sectionTitle}>{t('home.recentImages')}</Text>
+          {imagesCount > 6 && (
             <TouchableOpacity onPress={handleViewAllImages}>
-              <Text style={styles.viewAllText}>查看全部</Text>
+              <Text style={styles.viewAllText}>{t('home.viewAll')}</Text>
             </TouchableOpacity>
           )}
         </View>
 
-        {isLoading ? (
+        {imagesLoading && recentImages.length === 0 ? (
           <LoadingSpinner />
         ) : recentImages.length > 0 ? (
           <ImageGridComponent
             images={recentImages}
             onImagePress={handleImagePress}
             numColumns={2}
+            scrollEnabled={false}
           />
         ) : (
           <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>还没有图片</Text>
+            <Text style={styles.emptyStateText}>{t('home.imagesEmpty')}</Text>
             <Text style={styles.emptyStateSubtext}>
-              上传一些图片来开始使用照片库吧！
+              {t('home.imagesEmptyHint')}
             </Text>
           </View>
         )}
@@ -307,6 +366,17 @@ const styles = StyleSheet.create({
     marginHorizontal: 5,
     alignItems: 'center',
   },
+  uploadActionButton: {
+    flex: 0,
+    marginTop: 10,
+    backgroundColor: '#4CAF50',
+  },
+  uploadQueueText: {
+    marginTop: 10,
+    fontSize: 14,
+    color: '#ff9800',
+    textAlign: 'center',
+  },
   quickActionText: {
     color: '#fff',
     fontSize: 16,
@@ -347,6 +417,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 15,
   },
+  sectionHeaderTitle: {
+    marginBottom: 0,
+  },
   viewAllText: {
     color: '#2196F3',
     fontSize: 16,
@@ -3,34 +3,61 @@
  * 显示单张图片的详细信息
  */
 
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   ScrollView,
-  Image,
   StyleSheet,
   Dimensions,
+  PixelRatio,
   TouchableOpacity,
+  TextInput,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RouteProp } from '@react-navigation/native';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { 
   fetchImageById, 
+  fetchMoreImages,
   selectCurrentImage, 
+  selectImagesForList,
+  selectGroupImages,
+  selectImageList,
   selectImagesLoading, 
   selectImagesError,
   setCurrentImage,
+  updateImage,
+  deleteImage,
+  getImageListKey,
 } from '../store/slices/imagesSlice';
-import { selectGroups } from '../store/slices/groupsSlice';
-import { NavigationParamList } from '../types';
-import { formatDate, formatFileSize, calculateFitSize } from '../utils';
+import { selectGroups, updateGroupImages } from '../store/slices/groupsSlice';
+import { selectUser } from '../store/slices/authSlice';
+import { ApiError, FieldErrors, Image, NavigationParamList } from '../types';
+import { calculateFitSize } from '../utils';
+import { selectImageVariant } from '../utils/imageVariants';
+import { confirmAction } from '../utils/confirm';
+import { getFieldErrorMessages, toApiError } from '../utils/errorHandling';
+import { getCachedImage } from '../services/imageCache';
+import { useToast } from '../contexts/ToastContext';
+import { formatDate, formatFileSize, useI18n } from '../i18n';
 import LoadingSpinner from '../components/LoadingSpinner';
+import GroupPickerSheet from '../components/GroupPickerSheet';
+import ImageViewer from '../components/ImageViewer';
+import CachedImage from '../components/CachedImage';
 
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+// 剩余未浏览的图片少于该数量时加载来源列表的下一页
+const PREFETCH_THRESHOLD = 3;
+
+// 计算适应屏幕的图片尺寸
+const getImageDisplaySize = (image: Image) =>
+  calculateFitSize(image.width, image.height, screenWidth - 40, screenHeight * 0.4);
+
 type ImageDetailScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'ImageDetail'>;
 type ImageDetailScreenRouteProp = RouteProp<NavigationParamList, 'ImageDetail'>;
 
@@ -40,25 +67,73 @@ interface Props {
 }
 
 const ImageDetailScreen: React.FC<Props> = ({ navigation, route }) => {
-  const { imageId } = route.params;
+  const { imageId, list } = route.params;
+  const listKey = getImageListKey(list);
+  const groupListId = list && !list.mine && !list.search ? list.groupId : undefined;
+  const { t, locale } = useI18n();
   
   const dispatch = useAppDispatch();
   const currentImage = useAppSelector(selectCurrentImage);
+  // 来源列表，分组列表与分组详情页保持一致（尚未加载时使用已缓存的图片）
+  const listImages = useAppSelector(state =>
+    groupListId !== undefined
+      ? selectGroupImages(state, groupListId)
+      : selectImagesForList(state, listKey)
+  );
+  const listState = useAppSelector(state => selectImageList(state, listKey));
   const isLoading = useAppSelector(selectImagesLoading);
   const error = useAppSelector(selectImagesError);
   const groups = useAppSelector(selectGroups);
+  const user = useAppSelector(selectUser);
+  const toast = useToast();
 
   const [imageModalVisible, setImageModalVisible] = useState(false);
+  const viewerIndexRef = useRef<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editName, setEditName] = useState('');
+  const [editDescription, setEditDescription] = useState('');
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
+  const [groupSheetVisible, setGroupSheetVisible] = useState(false);
+  const [isSavingGroups, setIsSavingGroups] = useState(false);
+
+  const position = list ? listImages.findIndex(img => img.id === imageId) : -1;
+  const previousImage = position > 0 ? listImages[position - 1] : undefined;
+  const nextImage = position >= 0 ? listImages[position + 1] : undefined;
+  const totalCount = listState.count ?? listImages.length;
 
-  // 组件挂载时加载图片详情
+  // 切换图片时先显示已缓存的数据，再加载最新详情
   useEffect(() => {
+    dispatch(setCurrentImage(imageId));
+    setIsEditing(false);
     loadImageDetail();
   }, [imageId]);
 
+  // 在标题中显示当前图片在列表中的位置
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      title: position >= 0 ? `${position + 1} / ${totalCount}` : t('imageDetail.title'),
+    });
+  }, [navigation, position, totalCount, locale]);
+
+  // 预加载相邻图片，接近已加载列表末尾时加载下一页
+  useEffect(() => {
+    if (position < 0) return;
+    [previousImage, nextImage].forEach(img => {
+      if (img) {
+        const size = getImageDisplaySize(img);
+        getCachedImage(selectImageVariant(img, size.width, size.height, PixelRatio.get()).url, 'original');
+      }
+    });
+    if (listImages.length - position <= PREFETCH_THRESHOLD) {
+      dispatch(fetchMoreImages(list));
+    }
+  }, [position, listImages.length]);
+
   // 处理错误
   useEffect(() => {
     if (error) {
-      Alert.alert('错误', error);
+      Alert.alert(t('common.error'), error);
     }
   }, [error]);
 
@@ -71,6 +146,128 @@ const ImageDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  // 切换到相邻图片（替换当前路由参数，避免导航栈无限增长）
+  const showNeighbour = (direction: -1 | 1) => {
+    const target = direction === -1 ? previousImage : nextImage;
+    if (!target || isEditing) return;
+    navigation.setParams({ imageId: target.id });
+  };
+
+  // 在图片区域左右滑动切换图片，纵向滑动仍交给ScrollView
+  const swipeGesture = Gesture.Pan()
+    .runOnJS(true)
+    .activeOffsetX([-20, 20])
+    .failOffsetY([-15, 15])
+    .onEnd(event => {
+      if (event.translationX < -screenWidth * 0.2) {
+        showNeighbour(1);
+      } else if (event.translationX > screenWidth * 0.2) {
+        showNeighbour(-1);
+      }
+    });
+
+  // 进入编辑模式
+  const handleStartEdit = () => {
+    if (!currentImage) return;
+    setEditName(currentImage.name);
+    setEditDescription(currentImage.description || '');
+    setEditErrors({});
+    setIsEditing(true);
+  };
+
+  // 保存图片所属的分组（通过分组接口逐个添加或移除）
+  const handleSaveGroups = async (selectedIds: number[]) => {
+    if (!currentImage) return;
+    const imageId = currentImage.id;
+    const added = selectedIds.filter(id => !currentImage.groups.includes(id));
+    const removed = currentImage.groups.filter(id => !selectedIds.includes(id));
+
+    setIsSavingGroups(true);
+    try {
+      await Promise.all([
+        ...added.map(groupId =>
+          dispatch(updateGroupImages({ groupId, add: [imageId], remove: [] })).unwrap()
+        ),
+        ...removed.map(groupId =>
+          dispatch(updateGroupImages({ groupId, add: [], remove: [imageId] })).unwrap()
+        ),
+      ]);
+      setGroupSheetVisible(false);
+      toast.showSuccess(t('groupEditor.updated'));
+    } catch (error) {
+      toast.showError((error as ApiError).message || t('groups.updateFailed'));
+    } finally {
+      setIsSavingGroups(false);
+    }
+  };
+
+  // 从分组面板跳转到新建分组
+  const handleCreateGroup = () => {
+    setGroupSheetVisible(false);
+    navigation.navigate('GroupEditor', {});
+  };
+
+  // 保存修改
+  const handleSaveEdit = async () => {
+    if (!currentImage) return;
+    if (!editName.trim()) {
+      toast.showWarning(t('imageDetail.nameRequired'));
+      return;
+    }
+
+    setIsSaving(true);
+    setIsEditing(false);
+    try {
+      await dispatch(updateImage({
+        id: currentImage.id,
+        changes: {
+          name: editName.trim(),
+          description: editDescription.trim(),
+        },
+      })).unwrap();
+      toast.showSuccess(t('imageDetail.updated'));
+    } catch (error) {
+      // 修改已回滚，字段错误显示在输入框下，其他错误由上方的错误处理显示
+      console.log('更新图片失败:', error);
+      setEditErrors(getFieldErrorMessages(error));
+      setIsEditing(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // 删除图片
+  const handleDelete = async () => {
+    if (!currentImage) return;
+    const confirmed = await confirmAction(
+      t('imageDetail.delete'),
+      t('imageDetail.deleteConfirm', { name: currentImage.name }),
+      t('common.delete')
+    );
+    if (!confirmed) return;
+
+    const deletingId = currentImage.id;
+    navigation.goBack();
+    try {
+      await dispatch(deleteImage(deletingId)).unwrap();
+      toast.showSuccess(t('imageDetail.deleted'));
+    } catch (error) {
+      // 已经返回上一页，图片回到列表中，用全局的Toast告知删除失败
+      console.log('删除图片失败:', error);
+      toast.showError(toApiError(error).message || t('images.deleteFailed'));
+    }
+  };
+
+  // 关闭大图查看器，若滑动到了其他图片则显示该图片的详情
+  const handleCloseViewer = (viewerImages: typeof listImages) => {
+    setImageModalVisible(false);
+    const viewedIndex = viewerIndexRef.current;
+    viewerIndexRef.current = null;
+    if (viewedIndex !== null && viewerImages[viewedIndex] && viewerImages[viewedIndex].id !== imageId) {
+      navigation.setParams({ imageId: viewerImages[viewedIndex].id });
+    }
+  };
+
   // 获取图片所属的分组名称
   const getGroupNames = (groupIds: number[]): string[] => {
     return groupIds
@@ -78,99 +275,157 @@ const ImageDetailScreen: React.FC<Props> = ({ navigation, route }) => {
       .filter(Boolean) as string[];
   };
 
-  // 计算适应屏幕的图片尺寸
-  const getImageDisplaySize = () => {
-    if (!currentImage) return { width: screenWidth, height: 200 };
-    
-    const maxWidth = screenWidth - 40;
-    const maxHeight = screenHeight * 0.4;
-    
-    return calculateFitSize(
-      currentImage.width,
-      currentImage.height,
-      maxWidth,
-      maxHeight
-    );
-  };
 
-  if (isLoading) {
+  // 已有缓存的图片数据时不显示整页加载状态
+  if (isLoading && currentImage?.id !== imageId) {
     return (
       <View style={styles.loadingContainer}>
-        <LoadingSpinner text="加载图片详情中..." />
+        <LoadingSpinner text={t('imageDetail.loading')} />
       </View>
     );
   }
 
-  if (!currentImage) {
+  if (!currentImage || currentImage.id !== imageId) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>图片未找到</Text>
+        <Text style={styles.errorText}>{t('imageDetail.notFound')}</Text>
         <TouchableOpacity 
           style={styles.retryButton}
           onPress={loadImageDetail}
         >
-          <Text style={styles.retryButtonText}>重试</Text>
+          <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
         </TouchableOpacity>
       </View>
     );
   }
 
-  const imageSize = getImageDisplaySize();
+  const imageSize = getImageDisplaySize(currentImage);
+  // 详情页只需要覆盖显示尺寸的版本，大图查看器中缩放时使用原图
+  const displayVariant = selectImageVariant(currentImage, imageSize.width, imageSize.height, PixelRatio.get());
+  // 大图查看器在来源列表中左右切换；没有来源列表时只显示这一张
+  const viewerImages = position >= 0 ? listImages : [currentImage];
+  const viewerInitialIndex = Math.max(position, 0);
   const groupNames = getGroupNames(currentImage.groups);
+  // 只有图片所有者和管理员可以编辑或删除
+  const canEdit = !!user && (currentImage.owner === user.id || user.is_staff);
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       {/* 图片显示区域 */}
-      <View style={styles.imageContainer}>
-        <TouchableOpacity 
-          onPress={() => setImageModalVisible(true)}
-          activeOpacity={0.9}
-        >
-          <Image
-            source={{ uri: currentImage.image }}
-            style={[styles.image, imageSize]}
-            resizeMode="contain"
-          />
-        </TouchableOpacity>
-      </View>
+      <GestureDetector gesture={swipeGesture}>
+        <View style={styles.imageContainer}>
+          <TouchableOpacity 
+            onPress={() => setImageModalVisible(true)}
+            activeOpacity={0.9}
+          >
+            <CachedImage
+              uri={displayVariant.url}
+              kind="original"
+              style={[styles.image, imageSize]}
+              resizeMode="contain"
+            />
+          </TouchableOpacity>
+
+          {/* 上一张/下一张 */}
+          {position >= 0 && (
+            <View style={styles.navigationRow}>
+              <TouchableOpacity
+                style={[styles.navigationButton, !previousImage && styles.navigationButtonDisabled]}
+                onPress={() => showNeighbour(-1)}
+                disabled={!previousImage || isEditing}
+              >
+                <Text style={styles.navigationButtonText}>‹ {t('imageDetail.previous')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.navigationButton, !nextImage && styles.navigationButtonDisabled]}
+                onPress={() => showNeighbour(1)}
+                disabled={!nextImage || isEditing}
+              >
+                <Text style={styles.navigationButtonText}>{t('imageDetail.next')} ›</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </GestureDetector>
 
       {/* 图片信息 */}
       <View style={styles.infoContainer}>
         {/* 基本信息 */}
-        <View style={styles.section}>
-          <Text style={styles.imageName}>{currentImage.name}</Text>
-          {currentImage.description && (
-            <Text style={styles.imageDescription}>{currentImage.description}</Text>
-          )}
-        </View>
+        {isEditing ? (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('imageDetail.editTitle')}</Text>
+            <Text style={styles.inputLabel}>{t('field.name')}</Text>
+            <TextInput
+              style={[styles.input, !!editErrors.name && styles.inputError]}
+              value={editName}
+              onChangeText={setEditName}
+              placeholder={t('imageDetail.namePlaceholder')}
+              placeholderTextColor="#999"
+            />
+            {!!editErrors.name && <Text style={styles.fieldErrorText}>{editErrors.name}</Text>}
+            <Text style={styles.inputLabel}>{t('field.description')}</Text>
+            <TextInput
+              style={[styles.input, styles.multilineInput, !!editErrors.description && styles.inputError]}
+              value={editDescription}
+              onChangeText={setEditDescription}
+              placeholder={t('imageDetail.descriptionPlaceholder')}
+              placeholderTextColor="#999"
+              multiline
+            />
+            {!!editErrors.description && (
+              <Text style={styles.fieldErrorText}>{editErrors.description}</Text>
+            )}
+            <View style={styles.editButtons}>
+              <TouchableOpacity
+                style={[styles.editButton, styles.cancelButton]}
+                onPress={() => setIsEditing(false)}
+              >
+                <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editButton} onPress={handleSaveEdit}>
+                <Text style={styles.actionButtonText}>{t('common.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <View style={styles.section}>
+            <View style={styles.titleRow}>
+              <Text style={[styles.imageName, styles.titleText]}>{currentImage.name}</Text>
+              {isSaving && <ActivityIndicator color="#2196F3" />}
+            </View>
+            {currentImage.description && (
+              <Text style={styles.imageDescription}>{currentImage.description}</Text>
+            )}
+          </View>
+        )}
 
         {/* 详细信息 */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>详细信息</Text>
+          <Text style={styles.sectionTitle}>{t('imageDetail.details')}</Text>
           <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>尺寸:</Text>
+            <Text style={styles.detailLabel}>{t('imageDetail.dimensions')}</Text>
             <Text style={styles.detailValue}>
-              {currentImage.width} × {currentImage.height} 像素
+              {t('imageDetail.pixels', { width: currentImage.width, height: currentImage.height })}
             </Text>
           </View>
           <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>文件大小:</Text>
+            <Text style={styles.detailLabel}>{t('imageDetail.fileSize')}</Text>
             <Text style={styles.detailValue}>
               {formatFileSize(currentImage.size)}
             </Text>
           </View>
           <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>上传者:</Text>
+            <Text style={styles.detailLabel}>{t('imageDetail.owner')}</Text>
             <Text style={styles.detailValue}>{currentImage.owner_username}</Text>
           </View>
           <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>上传时间:</Text>
+            <Text style={styles.detailLabel}>{t('imageDetail.uploadedAt')}</Text>
             <Text style={styles.detailValue}>
               {formatDate(currentImage.uploaded_at)}
             </Text>
           </View>
           <View style={styles.detailRow}>
-            <Text style={styles.detailLabel}>更新时间:</Text>
+            <Text style={styles.detailLabel}>{t('imageDetail.updatedAt')}</Text>
             <Text style={styles.detailValue}>
               {formatDate(currentImage.updated_at)}
             </Text>
@@ -180,7 +435,7 @@ const ImageDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         {/* 分组信息 */}
         {groupNames.length > 0 && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>所属分组</Text>
+            <Text style={styles.sectionTitle}>{t('imageDetail.groups')}</Text>
             <View style={styles.groupsContainer}>
               {groupNames.map((groupName, index) => (
                 <View key={index} style={styles.groupTag}>
@@ -197,13 +452,58 @@ const ImageDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             style={styles.actionButton}
             onPress={() => setImageModalVisible(true)}
           >
-            <Text style={styles.actionButtonText}>查看大图</Text>
+            <Text style={styles.actionButtonText}>{t('imageDetail.view')}</Text>
           </TouchableOpacity>
+          {canEdit && !isEditing && (
+            <>
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.secondaryActionButton]}
+                onPress={handleStartEdit}
+                disabled={isSaving}
+              >
+                <Text style={styles.actionButtonText}>{t('imageDetail.edit')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.secondaryActionButton]}
+                onPress={() => setGroupSheetVisible(true)}
+                disabled={isSaving}
+              >
+                <Text style={styles.actionButtonText}>{t('imageDetail.manageGroups')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity 
+                style={[styles.actionButton, styles.deleteButton]}
+                onPress={handleDelete}
+                disabled={isSaving}
+              >
+                <Text style={styles.actionButtonText}>{t('imageDetail.delete')}</Text>
+              </TouchableOpacity>
+            </>
+          )}
         </View>
       </View>
 
       {/* 底部间距 */}
       <View style={styles.bottomSpacing} />
+
+      {/* 全屏大图 */}
+      <ImageViewer
+        visible={imageModalVisible}
+        images={viewerImages}
+        initialIndex={viewerInitialIndex}
+        onIndexChange={index => { viewerIndexRef.current = index; }}
+        onClose={() => handleCloseViewer(viewerImages)}
+      />
+
+      {/* 分组选择面板 */}
+      <GroupPickerSheet
+        visible={groupSheetVisible}
+        groups={groups}
+        selectedIds={currentImage.groups}
+        isSaving={isSavingGroups}
+        onConfirm={handleSaveGroups}
+        onClose={() => setGroupSheetVisible(false)}
+        onCreateGroup={handleCreateGroup}
+      />
     </ScrollView>
   );
 };
@@ -247,6 +547,25 @@ const styles = StyleSheet.create({
   image: {
     borderRadius: 8,
   },
+  navigationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    marginTop: 15,
+  },
+  navigationButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  navigationButtonDisabled: {
+    opacity: 0.4,
+  },
+  navigationButtonText: {
+    fontSize: 14,
+    color: '#2196F3',
+  },
   infoContainer: {
     backgroundColor: '#fff',
     padding: 20,
@@ -312,6 +631,72 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  secondaryActionButton: {
+    marginTop: 12,
+    backgroundColor: '#4CAF50',
+  },
+  deleteButton: {
+    marginTop: 12,
+    backgroundColor: '#f44336',
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  titleText: {
+    flex: 1,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+    marginBottom: 15,
+  },
+  multilineInput: {
+    height: 100,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: '#f44336',
+  },
+  fieldErrorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: -10,
+    marginBottom: 15,
+  },
+  editButtons: {
+    flexDirection: 'row',
+    marginTop: 10,
+  },
+  editButton: {
+    flex: 1,
+    backgroundColor: '#2196F3',
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 5,
+  },
+  cancelButton: {
+    backgroundColor: '#f0f0f0',
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   actionButtonText: {
     color: '#fff',
     fontSize: 16,
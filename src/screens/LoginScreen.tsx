@@ -16,13 +16,22 @@ import {
   ActivityIndicator,
   ScrollView,
 } from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { loginUser, selectAuthLoading, selectAuthError, clearError } from '../store/slices/authSlice';
 import { isValidUsername } from '../utils';
 import ErrorMessage from '../components/ErrorMessage';
+import ServerPickerSheet from '../components/ServerPickerSheet';
+import { serverApi, accountsApi } from '../services/api';
+import { SERVER_PRESETS, isValidServerUrl, normalizeServerUrl } from '../services/serverConfig';
+import { ApiError, FieldErrors, NavigationParamList } from '../types';
 import { useToast } from '../contexts/ToastContext';
+import { useI18n } from '../i18n';
 import { 
+  parseApiError,
   parseLoginError, 
+  getFieldErrorMessages,
   getErrorMessageType, 
   getRetryButtonText, 
   validateLoginInput,
@@ -31,12 +40,23 @@ import {
 } from '../utils/errorHandling';
 
 const LoginScreen: React.FC = () => {
+  const { t } = useI18n();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [loginError, setLoginError] = useState<LoginError | null>(null);
-  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [validationErrors, setValidationErrors] = useState<FieldErrors>({});
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [showValidationError, setShowValidationError] = useState(false);
+  const [serverUrl, setServerUrl] = useState(serverApi.getServerUrl());
+  const [serverSheetVisible, setServerSheetVisible] = useState(false);
+  const [isCheckingServer, setIsCheckingServer] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const validationMessages = Object.values(validationErrors);
+
+  const navigation = useNavigation<NativeStackNavigationProp<NavigationParamList>>();
+  // 已登录时从个人资料页进入，用于添加另一个账户
+  const isAddingAccount = useRoute().name === 'AddAccount';
 
   const dispatch = useAppDispatch();
   const isLoading = useAppSelector(selectAuthLoading);
@@ -50,14 +70,23 @@ const LoginScreen: React.FC = () => {
   useEffect(() => {
     dispatch(clearError());
     setLoginError(null);
-    setValidationErrors([]);
+    setValidationErrors({});
     setShowValidationError(false);
   }, [dispatch]);
 
+  // 放弃添加账户时恢复当前账户所在的服务器
+  useEffect(() => {
+    if (!isAddingAccount) return;
+    return () => {
+      accountsApi.restoreActiveServer();
+    };
+  }, [isAddingAccount]);
+
   // 处理Redux错误状态
   useEffect(() => {
     if (error) {
-      const parsedError = parseLoginError({ message: error });
+      // 错误信息已由loginUser转换为友好提示
+      const parsedError = parseApiError({ message: error });
       setLoginError(parsedError);
     } else {
       setLoginError(null);
@@ -66,15 +95,24 @@ const LoginScreen: React.FC = () => {
 
   // 输入变化时清除相关错误
   useEffect(() => {
-    if (validationErrors.length > 0) {
-      setValidationErrors([]);
+    if (validationMessages.length > 0) {
+      setValidationErrors({});
       setShowValidationError(false);
     }
     if (loginError) {
       setLoginError(null);
       dispatch(clearError());
     }
-  }, [username, password, validationErrors.length, loginError, dispatch]);
+  }, [username, password, validationMessages.length, loginError, dispatch]);
+
+  // 修改输入时清除该字段的后端错误
+  const handleChange = (field: 'username' | 'password', value: string) => {
+    (field === 'username' ? setUsername : setPassword)(value);
+    setFieldErrors(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
 
   // 处理登录
   const handleLogin = async () => {
@@ -82,16 +120,16 @@ const LoginScreen: React.FC = () => {
     const validation = validateLoginInput(username, password);
     
     if (!validation.isValid) {
-      setValidationErrors(validation.errors);
+      setValidationErrors(validation.fieldErrors);
       setShowValidationError(true);
       
       // 显示输入验证错误的Toast提示
       toast.showWarning(formatValidationErrors(validation.errors), 4000);
       
       // 聚焦到第一个有错误的输入框
-      if (validation.errors.some((err: string) => err.includes('用户名'))) {
+      if (validation.fieldErrors.username) {
         usernameInputRef.current?.focus();
-      } else if (validation.errors.some((err: string) => err.includes('密码'))) {
+      } else if (validation.fieldErrors.password) {
         passwordInputRef.current?.focus();
       }
       return;
@@ -99,7 +137,8 @@ const LoginScreen: React.FC = () => {
 
     // 清除之前的错误
     setLoginError(null);
-    setValidationErrors([]);
+    setFieldErrors({});
+    setValidationErrors({});
     setShowValidationError(false);
 
     // 执行登录
@@ -107,12 +146,20 @@ const LoginScreen: React.FC = () => {
       await dispatch(loginUser({ username: username.trim(), password })).unwrap();
       
       // 登录成功提示
-      toast.showSuccess('登录成功！欢迎回来');
+      if (isAddingAccount) {
+        toast.showSuccess(t('login.accountAdded'));
+        navigation.popToTop();
+      } else {
+        toast.showSuccess(t('login.success'));
+      }
       
     } catch (error: any) {
       // 错误已经在Redux中处理，这里可以做额外的处理
       console.log('登录失败:', error);
       
+      // 后端返回的字段错误显示在对应的输入框下
+      setFieldErrors(getFieldErrorMessages(error));
+
       // 显示友好的错误提示
       const parsedError = parseLoginError(error);
       toast.showError(parsedError.message, 6000);
@@ -135,6 +182,35 @@ const LoginScreen: React.FC = () => {
     }
   };
 
+  // 检查并切换服务器
+  const handleSaveServer = async (url: string) => {
+    const normalized = normalizeServerUrl(url);
+    if (!isValidServerUrl(normalized)) {
+      setServerError(t('login.invalidServerUrl'));
+      return;
+    }
+
+    setServerError(null);
+    setIsCheckingServer(true);
+    try {
+      await serverApi.checkServer(normalized);
+      setServerUrl(await serverApi.saveServerUrl(normalized));
+      setServerSheetVisible(false);
+      handleDismissError();
+      toast.showSuccess(t('login.serverChanged'));
+    } catch (error) {
+      setServerError((error as ApiError).message);
+    } finally {
+      setIsCheckingServer(false);
+    }
+  };
+
+  // 打开服务器选择面板
+  const handleOpenServerSheet = () => {
+    setServerError(null);
+    setServerSheetVisible(true);
+  };
+
   // 关闭错误提示
   const handleDismissError = () => {
     setLoginError(null);
@@ -144,7 +220,7 @@ const LoginScreen: React.FC = () => {
   // 关闭验证错误提示
   const handleDismissValidationError = () => {
     setShowValidationError(false);
-    setValidationErrors([]);
+    setValidationErrors({});
   };
 
   return (
@@ -160,14 +236,16 @@ const LoginScreen: React.FC = () => {
         <View style={styles.content}>
           {/* 标题 */}
           <View style={styles.header}>
-            <Text style={styles.title}>照片库</Text>
-            <Text style={styles.subtitle}>登录您的账户</Text>
+            <Text style={styles.title}>{t('home.title')}</Text>
+            <Text style={styles.subtitle}>
+              {isAddingAccount ? t('login.addAccountSubtitle') : t('login.subtitle')}
+            </Text>
           </View>
 
           {/* 错误提示 */}
-          {showValidationError && validationErrors.length > 0 && (
+          {showValidationError && validationMessages.length > 0 && (
             <ErrorMessage
-              message={formatValidationErrors(validationErrors)}
+              message={formatValidationErrors(validationMessages)}
               type="info"
               visible={showValidationError}
               onDismiss={handleDismissValidationError}
@@ -191,16 +269,17 @@ const LoginScreen: React.FC = () => {
           <View style={styles.form}>
             {/* 用户名输入 */}
             <View style={styles.inputContainer}>
-              <Text style={styles.label}>用户名</Text>
+              <Text style={styles.label}>{t('field.username')}</Text>
               <TextInput
                 ref={usernameInputRef}
                 style={[
                   styles.input, 
-                  validationErrors.some((err: string) => err.includes('用户名')) && styles.inputError
+                  (!!validationErrors.username || !!fieldErrors.username) &&
+                    styles.inputError
                 ]}
                 value={username}
-                onChangeText={setUsername}
-                placeholder="请输入用户名"
+                onChangeText={(text) => handleChange('username', text)}
+                placeholder={t('login.usernamePlaceholder')}
                 placeholderTextColor="#999"
                 autoCapitalize="none"
                 autoCorrect={false}
@@ -209,22 +288,24 @@ const LoginScreen: React.FC = () => {
                 onSubmitEditing={() => passwordInputRef.current?.focus()}
                 blurOnSubmit={false}
               />
+              {!!fieldErrors.username && <Text style={styles.fieldErrorText}>{fieldErrors.username}</Text>}
             </View>
 
             {/* 密码输入 */}
             <View style={styles.inputContainer}>
-              <Text style={styles.label}>密码</Text>
+              <Text style={styles.label}>{t('field.password')}</Text>
               <View style={styles.passwordContainer}>
                 <TextInput
                   ref={passwordInputRef}
                   style={[
                     styles.input, 
                     styles.passwordInput,
-                    validationErrors.some((err: string) => err.includes('密码')) && styles.inputError
+                    (!!validationErrors.password || !!fieldErrors.password) &&
+                      styles.inputError
                   ]}
                   value={password}
-                  onChangeText={setPassword}
-                  placeholder="请输入密码"
+                  onChangeText={(text) => handleChange('password', text)}
+                  placeholder={t('login.passwordPlaceholder')}
                   placeholderTextColor="#999"
                   secureTextEntry={!showPassword}
                   autoCapitalize="none"
@@ -239,10 +320,11 @@ const LoginScreen: React.FC = () => {
                   disabled={isLoading}
                 >
                   <Text style={styles.eyeText}>
-                    {showPassword ? '隐藏' : '显示'}
+                    {showPassword ? t('login.hidePassword') : t('login.showPassword')}
                   </Text>
                 </TouchableOpacity>
               </View>
+              {!!fieldErrors.password && <Text style={styles.fieldErrorText}>{fieldErrors.password}</Text>}
             </View>
 
             {/* 登录按钮 */}
@@ -254,19 +336,57 @@ const LoginScreen: React.FC = () => {
               {isLoading ? (
                 <ActivityIndicator color="#fff" />
               ) : (
-                <Text style={styles.loginButtonText}>登录</Text>
+                <Text style={styles.loginButtonText}>{t('login.submit')}</Text>
               )}
             </TouchableOpacity>
+
+            <View style={styles.linksRow}>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('ForgotPassword')}
+                disabled={isLoading}
+              >
+                <Text style={styles.linkText}>{t('login.forgotPassword')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('Register')}
+                disabled={isLoading}
+              >
+                <Text style={styles.linkText}>{t('login.register')}</Text>
+              </TouchableOpacity>
+            </View>
           </View>
 
           {/* 底部信息 */}
           <View style={styles.footer}>
             <Text style={styles.footerText}>
-              使用您的网站账户登录
+              {t('login.footer')}
             </Text>
+            <TouchableOpacity
+              style={styles.serverButton}
+              onPress={handleOpenServerSheet}
+              disabled={isLoading}
+            >
+              <Text style={styles.serverText} numberOfLines={1}>
+                {t('login.server', {
+                  name: SERVER_PRESETS.find(preset => preset.url === serverUrl)?.name ?? serverUrl,
+                })}
+              </Text>
+              <Text style={styles.serverChangeText}>{t('login.changeServer')}</Text>
+            </TouchableOpacity>
           </View>
         </View>
       </ScrollView>
+
+      {/* 服务器选择 */}
+      <ServerPickerSheet
+        visible={serverSheetVisible}
+        presets={SERVER_PRESETS}
+        currentUrl={serverUrl}
+        isChecking={isCheckingServer}
+        error={serverError}
+        onSave={handleSaveServer}
+        onClose={() => setServerSheetVisible(false)}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -325,6 +445,11 @@ const styles = StyleSheet.create({
     borderColor: '#f44336',
     borderWidth: 2,
   },
+  fieldErrorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 5,
+  },
   passwordContainer: {
     position: 'relative',
   },
@@ -358,6 +483,15 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  linksRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+  },
   footer: {
     alignItems: 'center',
   },
@@ -365,6 +499,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#999',
   },
+  serverButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 15,
+    paddingVertical: 5,
+  },
+  serverText: {
+    fontSize: 13,
+    color: '#999',
+    flexShrink: 1,
+  },
+  serverChangeText: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginLeft: 8,
+  },
 });
 
 export default LoginScreen;
@@ -3,7 +3,7 @@
  * 显示用户信息和账户设置
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -11,15 +11,51 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
+  ActivityIndicator,
+  Switch,
+  Image,
 } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useAppDispatch, useAppSelector } from '../store/hooks';
 import { 
   selectUser, 
+  selectAccounts,
+  selectActiveAccountId,
   logoutUser,
+  switchAccount,
+  removeAccount,
+  updateProfile,
 } from '../store/slices/authSlice';
-import { selectAllImages, selectUserImages } from '../store/slices/imagesSlice';
-import { NavigationParamList } from '../types';
+import { selectAllImages, selectImagesCount, updateImageFilter } from '../store/slices/imagesSlice';
+import { selectAppLockSettings, updateAppLockSettings } from '../store/slices/appLockSlice';
+import {
+  Account,
+  ApiError,
+  AppLockSettings,
+  FieldErrors,
+  LanguagePreference,
+  NavigationParamList,
+} from '../types';
+import { SERVER_PRESETS } from '../services/serverConfig';
+import { authApi } from '../services/api';
+import { changeLanguage, getLanguagePreference } from '../services/language';
+import {
+  IMAGE_CACHE_BUDGET_OPTIONS,
+  clearImageCache,
+  configureImageCache,
+  getImageCacheBudgets,
+  getImageCacheSize,
+  splitImageCacheBudget,
+} from '../services/imageCache';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, formatDateTime, formatFileSize, useI18n } from '../i18n';
+import { LOCK_TIMEOUT_OPTIONS } from '../utils/appLock';
+import { getFieldErrorMessages, validateProfileInput } from '../utils/errorHandling';
+import { toUploadFile } from '../utils/uploadFile';
+import FormField from '../components/FormField';
+import ChangePasswordSheet from '../components/ChangePasswordSheet';
+import { confirmAction } from '../utils/confirm';
+import { useToast } from '../contexts/ToastContext';
 
 type ProfileScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'Profile'>;
 
@@ -27,19 +63,57 @@ interface Props {
   navigation: ProfileScreenNavigationProp;
 }
 
+// 语言选项，跟随系统排在最前
+const LANGUAGE_OPTIONS: LanguagePreference[] = ['system', ...SUPPORTED_LOCALES];
+
 const ProfileScreen: React.FC<Props> = ({ navigation }) => {
+  const { t } = useI18n();
   const dispatch = useAppDispatch();
   const user = useAppSelector(selectUser);
   const allImages = useAppSelector(selectAllImages);
-  const userImages = useAppSelector(selectUserImages);
+  const cachedUserImageCount = useAppSelector(state => selectImagesCount(state, 'mine'));
+  const totalImageCount = useAppSelector(state => selectImagesCount(state, 'all'));
+  const accounts = useAppSelector(selectAccounts);
+  const activeAccountId = useAppSelector(selectActiveAccountId);
+  const toast = useToast();
+  const [switchingAccountId, setSwitchingAccountId] = useState<string | null>(null);
+  const [sessionExpiry, setSessionExpiry] = useState<number | null>(null);
+  const appLockSettings = useAppSelector(selectAppLockSettings);
+  const [isUpdatingAppLock, setIsUpdatingAppLock] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [profileForm, setProfileForm] = useState({ first_name: '', last_name: '', email: '' });
+  const [profileErrors, setProfileErrors] = useState<FieldErrors>({});
+  const [passwordSheetVisible, setPasswordSheetVisible] = useState(false);
+  const [languagePreference, setLanguagePreference] = useState(getLanguagePreference());
+  const [imageCacheSize, setImageCacheSize] = useState<number | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [imageCacheBudget, setImageCacheBudget] = useState(() => {
+    const budgets = getImageCacheBudgets();
+    return budgets.thumbnail + budgets.original;
+  });
 
-  // 获取用户的图片数量 - 使用缓存的用户图片数据或从所有图片中筛选
-  const userImageCount = userImages.length > 0 
-    ? userImages.length 
-    : allImages.filter(image => image.owner === user?.id).length;
+  // 每次进入页面时读取登录有效期（刷新token后有效期可能延长）
+  useEffect(() => {
+    const loadSessionExpiry = () => {
+      authApi.getSessionExpiry().then(setSessionExpiry);
+    };
+    loadSessionExpiry();
+    return navigation.addListener('focus', loadSessionExpiry);
+  }, [navigation, activeAccountId]);
+
+  // 每次进入页面时读取图片缓存占用的空间
+  useEffect(() => {
+    const loadImageCacheSize = () => {
+      getImageCacheSize().then(setImageCacheSize);
+    };
+    loadImageCacheSize();
+    return navigation.addListener('focus', loadImageCacheSize);
+  }, [navigation]);
 
-  // 总图片数量 - 使用缓存的所有图片数据
-  const totalImageCount = allImages.length;
+  // 获取用户的图片数量 - 使用用户图片列表的总数或从已加载的所有图片中筛选
+  const userImageCount = cachedUserImageCount > 0 
+    ? cachedUserImageCount 
+    : allImages.filter(image => image.owner === user?.id).length;
 
   // 处理登出
   const handleLogout = () => {
@@ -51,20 +125,172 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
       })
       .catch((error) => {
         console.error('Logout failed:', error);
-        Alert.alert('登出失败', '操作无法完成，请稍后再试。');
+        Alert.alert(t('home.logoutFailed'), t('home.logoutFailedMessage'));
       });
   };
 
-  // 导航到我的图片
+  // 切换到另一个账户
+  const handleSwitchAccount = async (account: Account) => {
+    if (account.id === activeAccountId || switchingAccountId) return;
+    setSwitchingAccountId(account.id);
+    try {
+      await dispatch(switchAccount(account.id)).unwrap();
+      toast.showSuccess(t('profile.switched', { name: account.username }));
+      // 回到首页重新加载新账户的数据
+      navigation.popToTop();
+    } catch (error) {
+      toast.showError((error as ApiError).message || t('profile.switchFailed'));
+    } finally {
+      setSwitchingAccountId(null);
+    }
+  };
+
+  // 移除一个未在使用的账户
+  const handleRemoveAccount = async (account: Account) => {
+    const confirmed = await confirmAction(
+      t('profile.removeAccount'),
+      t('profile.removeAccountConfirm', { name: account.username }),
+      t('profile.remove')
+    );
+    if (confirmed) {
+      dispatch(removeAccount(account.id));
+    }
+  };
+
+  // 进入编辑模式，以当前资料填充表单
+  const handleStartEditing = () => {
+    if (!user) return;
+    setProfileForm({
+      first_name: user.first_name,
+      last_name: user.last_name,
+      email: user.email,
+    });
+    setProfileErrors({});
+    setIsEditing(true);
+  };
+
+  // 修改表单字段时清除该字段的错误
+  const handleProfileChange = (field: keyof typeof profileForm, value: string) => {
+    setProfileForm(prev => ({ ...prev, [field]: value }));
+    setProfileErrors(prev => {
+      const { [field]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  // 保存资料：立即退出编辑模式，服务器校验失败时回到编辑模式显示字段错误
+  const handleSaveProfile = async () => {
+    const validation = validateProfileInput(profileForm);
+    if (!validation.isValid) {
+      setProfileErrors(validation.fieldErrors);
+      return;
+    }
+
+    setIsEditing(false);
+    try {
+      await dispatch(updateProfile({
+        first_name: profileForm.first_name.trim(),
+        last_name: profileForm.last_name.trim(),
+        email: profileForm.email.trim(),
+      })).unwrap();
+      toast.showSuccess(t('profile.saved'));
+    } catch (error) {
+      const apiError = error as ApiError;
+      setProfileErrors(getFieldErrorMessages(apiError));
+      setIsEditing(true);
+      toast.showError(apiError.message || t('profile.saveFailed'));
+    }
+  };
+
+  // 从相册选择新头像
+  const handleChangeAvatar = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('upload.libraryDenied'), t('upload.libraryDeniedMessage'));
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+    if (result.canceled) return;
+
+    try {
+      await dispatch(updateProfile({ avatar: toUploadFile(result.assets[0]) })).unwrap();
+      toast.showSuccess(t('profile.avatarUpdated'));
+    } catch (error) {
+      const apiError = error as ApiError;
+      toast.showError(getFieldErrorMessages(apiError).avatar ?? apiError.message ?? t('profile.avatarFailed'));
+    }
+  };
+
+  // 密码修改成功
+  const handlePasswordChanged = () => {
+    setPasswordSheetVisible(false);
+    toast.showSuccess(t('profile.passwordChanged'));
+  };
+
+  // 修改应用锁设置
+  const handleUpdateAppLock = async (changes: Partial<AppLockSettings>) => {
+    setIsUpdatingAppLock(true);
+    try {
+      await dispatch(updateAppLockSettings(changes)).unwrap();
+    } catch (error) {
+      toast.showError((error as ApiError).message || t('profile.appLockFailed'));
+    } finally {
+      setIsUpdatingAppLock(false);
+    }
+  };
+
+  // 切换界面语言
+  const handleChangeLanguage = (preference: LanguagePreference) => {
+    setLanguagePreference(preference);
+    changeLanguage(preference);
+  };
+
+  // 修改图片缓存容量，超出的部分立即淘汰
+  const handleChangeImageCacheBudget = async (total: number) => {
+    setImageCacheBudget(total);
+    await configureImageCache(splitImageCacheBudget(total));
+    getImageCacheSize().then(setImageCacheSize);
+  };
+
+  // 清除图片缓存
+  const handleClearImageCache = async () => {
+    const confirmed = await confirmAction(
+      t('profile.clearImageCache'),
+      t('profile.clearImageCacheConfirm'),
+      t('profile.clear')
+    );
+    if (!confirmed) return;
+
+    setIsClearingCache(true);
+    try {
+      await clearImageCache();
+      setImageCacheSize(0);
+      toast.showSuccess(t('profile.imageCacheCleared'));
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  // 显示账户所在的服务器（预设服务器显示名称）
+  const getServerLabel = (serverUrl: string) =>
+    SERVER_PRESETS.find(preset => preset.url === serverUrl)?.name ?? serverUrl;
+
+  // 导航到画廊并只显示我的图片
   const handleViewMyImages = () => {
+    dispatch(updateImageFilter({ mine: true }));
     navigation.navigate('Gallery');
-    // 这里应该设置过滤为仅显示我的图片，但由于导航参数限制，暂时导航到画廊页面
   };
 
   if (!user) {
     return (
       <View style={styles.errorContainer}>
-        <Text style={styles.errorText}>用户信息加载失败</Text>
+        <Text style={styles.errorText}>{t('profile.loadFailed')}</Text>
       </View>
     );
   }
@@ -73,13 +299,18 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       {/* 用户信息卡片 */}
       <View style={styles.userCard}>
-        <View style={styles.avatarContainer}>
-          <View style={styles.avatar}>
-            <Text style={styles.avatarText}>
-              {(user.first_name || user.username).charAt(0).toUpperCase()}
-            </Text>
-          </View>
-        </View>
+        <TouchableOpacity style={styles.avatarContainer} onPress={handleChangeAvatar}>
+          {user.avatar ? (
+            <Image source={{ uri: user.avatar }} style={styles.avatar} />
+          ) : (
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>
+                {(user.first_name || user.username).charAt(0).toUpperCase()}
+              </Text>
+            </View>
+          )}
+          <Text style={styles.changeAvatarText}>{t('profile.changeAvatar')}</Text>
+        </TouchableOpacity>
         
         <View style={styles.userInfo}>
           <Text style={styles.userName}>
@@ -91,7 +322,7 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
           <Text style={styles.userEmail}>{user.email}</Text>
           {user.is_staff && (
             <View style={styles.staffBadge}>
-              <Text style={styles.staffBadgeText}>管理员</Text>
+              <Text style={styles.staffBadgeText}>{t('profile.staff')}</Text>
             </View>
           )}
         </View>
@@ -99,64 +330,266 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
 
       {/* 统计信息 */}
       <View style={styles.statsContainer}>
-        <Text style={styles.sectionTitle}>统计信息</Text>
+        <Text style={styles.sectionTitle}>{t('profile.stats')}</Text>
         <View style={styles.statsGrid}>
           <View style={styles.statItem}>
             <Text style={styles.statNumber}>{userImageCount}</Text>
-            <Text style={styles.statLabel}>我的图片</Text>
+            <Text style={styles.statLabel}>{t('gallery.myImages')}</Text>
           </View>
           <View style={styles.statItem}>
             <Text style={styles.statNumber}>{totalImageCount}</Text>
-            <Text style={styles.statLabel}>总图片数</Text>
+            <Text style={styles.statLabel}>{t('profile.totalImages')}</Text>
           </View>
         </View>
       </View>
 
       {/* 账户详情 */}
       <View style={styles.detailsContainer}>
-        <Text style={styles.sectionTitle}>账户详情</Text>
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, styles.sectionHeaderTitle]}>{t('profile.accountDetails')}</Text>
+          {!isEditing && (
+            <TouchableOpacity onPress={handleStartEditing}>
+              <Text style={styles.editText}>{t('common.edit')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
         
         <View style={styles.detailItem}>
-          <Text style={styles.detailLabel}>用户名</Text>
+          <Text style={styles.detailLabel}>{t('field.username')}</Text>
           <Text style={styles.detailValue}>{user.username}</Text>
         </View>
+
+        {isEditing ? (
+          <View style={styles.editForm}>
+            <FormField
+              label={t('field.email')}
+              value={profileForm.email}
+              onChangeText={value => handleProfileChange('email', value)}
+              error={profileErrors.email}
+              keyboardType="email-address"
+              textContentType="emailAddress"
+            />
+            <FormField
+              label={t('field.first_name')}
+              value={profileForm.first_name}
+              onChangeText={value => handleProfileChange('first_name', value)}
+              error={profileErrors.first_name}
+              autoCapitalize="words"
+            />
+            <FormField
+              label={t('field.last_name')}
+              value={profileForm.last_name}
+              onChangeText={value => handleProfileChange('last_name', value)}
+              error={profileErrors.last_name}
+              autoCapitalize="words"
+            />
+            <View style={styles.editActions}>
+              <TouchableOpacity
+                style={[styles.editButton, styles.cancelEditButton]}
+                onPress={() => setIsEditing(false)}
+              >
+                <Text style={styles.cancelEditText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.editButton} onPress={handleSaveProfile}>
+                <Text style={styles.saveEditText}>{t('common.save')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        ) : (
+          <>
+            <View style={styles.detailItem}>
+              <Text style={styles.detailLabel}>{t('field.email')}</Text>
+              <Text style={styles.detailValue}>{user.email}</Text>
+            </View>
+            
+            {user.first_name && (
+              <View style={styles.detailItem}>
+                <Text style={styles.detailLabel}>{t('field.first_name')}</Text>
+                <Text style={styles.detailValue}>{user.first_name}</Text>
+              </View>
+            )}
+            
+            {user.last_name && (
+              <View style={styles.detailItem}>
+                <Text style={styles.detailLabel}>{t('field.last_name')}</Text>
+                <Text style={styles.detailValue}>{user.last_name}</Text>
+              </View>
+            )}
+          </>
+        )}
         
         <View style={styles.detailItem}>
-          <Text style={styles.detailLabel}>邮箱</Text>
-          <Text style={styles.detailValue}>{user.email}</Text>
+          <Text style={styles.detailLabel}>{t('profile.accountType')}</Text>
+          <Text style={styles.detailValue}>
+            {user.is_staff ? t('profile.staffAccount') : t('profile.regularAccount')}
+          </Text>
         </View>
-        
-        {user.first_name && (
+
+        {sessionExpiry !== null && (
           <View style={styles.detailItem}>
-            <Text style={styles.detailLabel}>名字</Text>
-            <Text style={styles.detailValue}>{user.first_name}</Text>
+            <Text style={styles.detailLabel}>{t('profile.sessionExpiry')}</Text>
+            <Text style={styles.detailValue}>{formatDateTime(sessionExpiry)}</Text>
           </View>
         )}
-        
-        {user.last_name && (
-          <View style={styles.detailItem}>
-            <Text style={styles.detailLabel}>姓氏</Text>
-            <Text style={styles.detailValue}>{user.last_name}</Text>
-          </View>
+      </View>
+
+      {/* 账户切换 */}
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>{t('profile.switchAccount')}</Text>
+
+        {accounts.map(account => {
+          const isActive = account.id === activeAccountId;
+          return (
+            <TouchableOpacity
+              key={account.id}
+              style={styles.accountItem}
+              onPress={() => handleSwitchAccount(account)}
+              disabled={isActive || !!switchingAccountId}
+            >
+              <View style={styles.accountInfo}>
+                <Text style={styles.accountName}>{account.username}</Text>
+                <Text style={styles.accountServer} numberOfLines={1}>
+                  {getServerLabel(account.serverUrl)}
+                </Text>
+              </View>
+              {isActive ? (
+                <Text style={styles.activeAccountText}>{t('profile.currentAccount')}</Text>
+              ) : switchingAccountId === account.id ? (
+                <ActivityIndicator color="#2196F3" />
+              ) : (
+                <TouchableOpacity onPress={() => handleRemoveAccount(account)}>
+                  <Text style={styles.removeAccountText}>{t('profile.remove')}</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        <TouchableOpacity
+          style={styles.addAccountButton}
+          onPress={() => navigation.navigate('AddAccount')}
+        >
+          <Text style={styles.addAccountText}>+ {t('login.addAccountTitle')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* 应用锁 */}
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>{t('profile.appLock')}</Text>
+
+        <View style={styles.detailItem}>
+          <Text style={styles.detailLabel}>{t('lockScreen.hint')}</Text>
+          <Switch
+            value={appLockSettings.enabled}
+            onValueChange={enabled => handleUpdateAppLock({ enabled })}
+            disabled={isUpdatingAppLock}
+          />
+        </View>
+
+        {appLockSettings.enabled && (
+          <>
+            <Text style={styles.optionLabel}>{t('profile.lockTimeout')}</Text>
+            <View style={styles.chips}>
+              {LOCK_TIMEOUT_OPTIONS.map(timeoutMs => {
+                const selected = appLockSettings.timeoutMs === timeoutMs;
+                return (
+                  <TouchableOpacity
+                    key={timeoutMs}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => handleUpdateAppLock({ timeoutMs })}
+                    disabled={isUpdatingAppLock}
+                  >
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                      {timeoutMs === 0
+                        ? t('appLock.timeoutImmediately')
+                        : t('appLock.timeoutMinutes', { count: timeoutMs / 60000 })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
         )}
-        
+      </View>
+
+      {/* 语言 */}
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>{t('profile.language')}</Text>
+        <View style={styles.chips}>
+          {LANGUAGE_OPTIONS.map(option => {
+            const selected = languagePreference === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => handleChangeLanguage(option)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {option === 'system' ? t('profile.followSystem') : LOCALE_NAMES[option]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      {/* 存储 */}
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>{t('profile.storage')}</Text>
         <View style={styles.detailItem}>
-          <Text style={styles.detailLabel}>账户类型</Text>
+          <Text style={styles.detailLabel}>{t('profile.imageCache')}</Text>
           <Text style={styles.detailValue}>
-            {user.is_staff ? '管理员账户' : '普通用户'}
+            {imageCacheSize === null ? '…' : formatFileSize(imageCacheSize)}
           </Text>
         </View>
+        <Text style={styles.optionLabel}>{t('profile.imageCacheBudget')}</Text>
+        <View style={styles.chips}>
+          {IMAGE_CACHE_BUDGET_OPTIONS.map(total => {
+            const selected = imageCacheBudget === total;
+            return (
+              <TouchableOpacity
+                key={total}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => handleChangeImageCacheBudget(total)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {formatFileSize(total)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TouchableOpacity
+          style={styles.clearCacheButton}
+          onPress={handleClearImageCache}
+          disabled={isClearingCache || !imageCacheSize}
+        >
+          {isClearingCache ? (
+            <ActivityIndicator color="#f44336" />
+          ) : (
+            <Text style={[styles.clearCacheText, !imageCacheSize && styles.clearCacheTextDisabled]}>
+              {t('profile.clearImageCache')}
+            </Text>
+          )}
+        </TouchableOpacity>
       </View>
 
       {/* 操作按钮 */}
       <View style={styles.actionsContainer}>
-        <Text style={styles.sectionTitle}>操作</Text>
+        <Text style={styles.sectionTitle}>{t('profile.actions')}</Text>
         
         <TouchableOpacity 
           style={styles.actionButton}
           onPress={handleViewMyImages}
         >
-          <Text style={styles.actionButtonText}>查看我的图片</Text>
+          <Text style={styles.actionButtonText}>{t('profile.viewMyImages')}</Text>
+        </TouchableOpacity>
+        
+        <TouchableOpacity 
+          style={styles.actionButton}
+          onPress={() => setPasswordSheetVisible(true)}
+        >
+          <Text style={styles.actionButtonText}>{t('changePassword.title')}</Text>
         </TouchableOpacity>
         
         <TouchableOpacity 
@@ -164,13 +597,20 @@ const ProfileScreen: React.FC<Props> = ({ navigation }) => {
           onPress={handleLogout}
         >
           <Text style={[styles.actionButtonText, styles.logoutButtonText]}>
-            退出登录
+            {t('lockScreen.logout')}
           </Text>
         </TouchableOpacity>
       </View>
 
       {/* 底部间距 */}
       <View style={styles.bottomSpacing} />
+
+      {/* 修改密码 */}
+      <ChangePasswordSheet
+        visible={passwordSheetVisible}
+        onSuccess={handlePasswordChanged}
+        onClose={() => setPasswordSheetVisible(false)}
+      />
     </ScrollView>
   );
 };
@@ -197,8 +637,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
   avatarContainer: {
+    alignItems: 'center',
     marginBottom: 15,
   },
+  changeAvatarText: {
+    fontSize: 13,
+    color: '#2196F3',
+    marginTop: 8,
+  },
   avatar: {
     width: 80,
     height: 80,
@@ -270,6 +716,48 @@ const styles = StyleSheet.create({
     padding: 20,
     marginBottom: 10,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  sectionHeaderTitle: {
+    marginBottom: 0,
+  },
+  editText: {
+    fontSize: 15,
+    color: '#2196F3',
+  },
+  editForm: {
+    paddingTop: 15,
+  },
+  editActions: {
+    flexDirection: 'row',
+    marginTop: 5,
+  },
+  editButton: {
+    flex: 1,
+    height: 44,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cancelEditButton: {
+    backgroundColor: '#f0f0f0',
+    marginRight: 10,
+  },
+  cancelEditText: {
+    color: '#666',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  saveEditText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
   detailItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -289,6 +777,82 @@ const styles = StyleSheet.create({
     flex: 2,
     textAlign: 'right',
   },
+  accountItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  accountInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  accountName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  accountServer: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  activeAccountText: {
+    fontSize: 14,
+    color: '#4CAF50',
+    fontWeight: '600',
+  },
+  removeAccountText: {
+    fontSize: 14,
+    color: '#f44336',
+  },
+  clearCacheButton: {
+    paddingTop: 15,
+    alignItems: 'center',
+  },
+  clearCacheText: {
+    fontSize: 16,
+    color: '#f44336',
+  },
+  clearCacheTextDisabled: {
+    color: '#ccc',
+  },
+  addAccountButton: {
+    paddingTop: 15,
+    alignItems: 'center',
+  },
+  addAccountText: {
+    fontSize: 16,
+    color: '#2196F3',
+  },
+  optionLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 15,
+    marginBottom: 10,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 15,
+    backgroundColor: '#f0f0f0',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#2196F3',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
   actionsContainer: {
     backgroundColor: '#fff',
     padding: 20,
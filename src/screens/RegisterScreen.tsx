@@ -0,0 +1,278 @@
+/**
+ * 注册屏幕
+ * 创建新账户，注册成功后自动登录
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TextInputProps,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { loginUser, clearError, selectIsAuthenticated } from '../store/slices/authSlice';
+import { authApi } from '../services/api';
+import { ApiError, FieldErrors, NavigationParamList } from '../types';
+import { useToast } from '../contexts/ToastContext';
+import { getFieldErrorMessages, validateRegisterInput } from '../utils/errorHandling';
+import { useI18n } from '../i18n';
+import ErrorMessage from '../components/ErrorMessage';
+
+type RegisterScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'Register'>;
+
+interface Props {
+  navigation: RegisterScreenNavigationProp;
+}
+
+type RegisterField = 'username' | 'email' | 'password' | 'confirmPassword';
+
+const RegisterScreen: React.FC<Props> = ({ navigation }) => {
+  const { t } = useI18n();
+  const dispatch = useAppDispatch();
+  // 已登录时从添加账户进入，注册后作为新账户添加
+  const isAuthenticated = useAppSelector(selectIsAuthenticated);
+  const toast = useToast();
+
+  const [values, setValues] = useState<Record<RegisterField, string>>({
+    username: '',
+    email: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const inputRefs = {
+    username: useRef<TextInput>(null),
+    email: useRef<TextInput>(null),
+    password: useRef<TextInput>(null),
+    confirmPassword: useRef<TextInput>(null),
+  };
+
+  // 修改字段时清除该字段的错误
+  const handleChange = (field: RegisterField, value: string) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    if (fieldErrors[field]) {
+      setFieldErrors(prev => {
+        const { [field]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  // 提交注册
+  const handleRegister = async () => {
+    const data = {
+      username: values.username.trim(),
+      email: values.email.trim(),
+      password: values.password,
+    };
+
+    const validation = validateRegisterInput({ ...data, confirmPassword: values.confirmPassword });
+    if (!validation.isValid) {
+      setFieldErrors(validation.fieldErrors);
+      const firstField = (Object.keys(inputRefs) as RegisterField[]).find(
+        field => validation.fieldErrors[field]
+      );
+      if (firstField) {
+        inputRefs[firstField].current?.focus();
+      }
+      return;
+    }
+
+    setFieldErrors({});
+    setFormError(null);
+    setIsSubmitting(true);
+    try {
+      await authApi.register(data);
+    } catch (error) {
+      // 后端的字段错误显示在对应的输入框下，其余错误显示在表单顶部
+      const apiError = error as ApiError;
+      const errors = getFieldErrorMessages(apiError);
+      const knownFields = Object.keys(errors).filter(field => field in inputRefs);
+      setFieldErrors(errors);
+      setFormError(knownFields.length > 0 ? null : apiError.message);
+      setIsSubmitting(false);
+      return;
+    }
+
+    // 注册成功后直接登录
+    try {
+      await dispatch(loginUser({ username: data.username, password: data.password })).unwrap();
+      toast.showSuccess(t('register.success'));
+      if (isAuthenticated) {
+        navigation.popToTop();
+      }
+    } catch (error) {
+      // 例如需要先验证邮箱的情况，回到登录页手动登录
+      dispatch(clearError());
+      toast.showInfo(t('register.successLogin'));
+      navigation.goBack();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderField = (
+    field: RegisterField,
+    label: string,
+    nextField: RegisterField | null,
+    inputProps: TextInputProps
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        ref={inputRefs[field]}
+        style={[styles.input, fieldErrors[field] ? styles.inputError : null]}
+        value={values[field]}
+        onChangeText={value => handleChange(field, value)}
+        placeholderTextColor="#999"
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isSubmitting}
+        returnKeyType={nextField ? 'next' : 'done'}
+        onSubmitEditing={() =>
+          nextField ? inputRefs[nextField].current?.focus() : handleRegister()
+        }
+        blurOnSubmit={!nextField}
+        {...inputProps}
+      />
+      {fieldErrors[field] && <Text style={styles.fieldErrorText}>{fieldErrors[field]}</Text>}
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+    >
+      <ScrollView
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+        showsVerticalScrollIndicator={false}
+      >
+        {formError && (
+          <ErrorMessage
+            message={formError}
+            visible={!!formError}
+            onDismiss={() => setFormError(null)}
+          />
+        )}
+
+        {renderField('username', t('field.username'), 'email', {
+          placeholder: t('register.usernamePlaceholder'),
+          textContentType: 'username',
+        })}
+        {renderField('email', t('field.email'), 'password', {
+          placeholder: t('register.emailPlaceholder'),
+          keyboardType: 'email-address',
+          textContentType: 'emailAddress',
+        })}
+        {renderField('password', t('field.password'), 'confirmPassword', {
+          placeholder: t('changePassword.newPasswordPlaceholder'),
+          secureTextEntry: true,
+          textContentType: 'newPassword',
+        })}
+        {renderField('confirmPassword', t('register.confirmPassword'), null, {
+          placeholder: t('register.confirmPasswordPlaceholder'),
+          secureTextEntry: true,
+          textContentType: 'newPassword',
+        })}
+
+        <TouchableOpacity
+          style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
+          onPress={handleRegister}
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.submitButtonText}>{t('register.submit')}</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.linkButton}
+          onPress={() => navigation.goBack()}
+          disabled={isSubmitting}
+        >
+          <Text style={styles.linkText}>{t('register.backToLogin')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  scrollContent: {
+    padding: 30,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 8,
+  },
+  input: {
+    height: 50,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+  },
+  inputError: {
+    borderColor: '#f44336',
+    borderWidth: 2,
+  },
+  fieldErrorText: {
+    color: '#f44336',
+    fontSize: 13,
+    marginTop: 5,
+  },
+  submitButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  submitButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 20,
+    padding: 5,
+  },
+  linkText: {
+    color: '#2196F3',
+    fontSize: 14,
+  },
+});
+
+export default RegisterScreen;
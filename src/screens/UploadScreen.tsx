@@ -0,0 +1,542 @@
+/**
+ * 图片上传屏幕
+ * 从相册或相机选择图片，填写信息后上传到服务器
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as ImagePicker from 'expo-image-picker';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { selectUploads, clearFinishedUploads } from '../store/slices/imagesSlice';
+import {
+  enqueueUploads,
+  retryUpload,
+  selectUploadQueue,
+  selectIsOnline,
+} from '../store/slices/uploadQueueSlice';
+import { fetchGroups, selectGroups } from '../store/slices/groupsSlice';
+import { NavigationParamList, ImageUploadFile } from '../types';
+import { generateId } from '../utils';
+import { toUploadFile } from '../utils/uploadFile';
+import { useToast } from '../contexts/ToastContext';
+import { useI18n } from '../i18n';
+
+type UploadScreenNavigationProp = NativeStackNavigationProp<NavigationParamList, 'Upload'>;
+
+interface Props {
+  navigation: UploadScreenNavigationProp;
+}
+
+// 待上传的文件
+interface PendingFile {
+  uploadId: string;
+  file: ImageUploadFile;
+  name: string;
+}
+
+// 去掉扩展名作为默认图片名称
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^.]+$/, '');
+
+const UploadScreen: React.FC<Props> = ({ navigation }) => {
+  const { t } = useI18n();
+  const dispatch = useAppDispatch();
+  const groups = useAppSelector(selectGroups);
+  const uploads = useAppSelector(selectUploads);
+  const queue = useAppSelector(selectUploadQueue);
+  const isOnline = useAppSelector(selectIsOnline);
+  const toast = useToast();
+
+  const [files, setFiles] = useState<PendingFile[]>([]);
+  const [description, setDescription] = useState('');
+  const [selectedGroups, setSelectedGroups] = useState<number[]>([]);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  // 本页面提交的文件是否仍在队列中
+  const isUploading = isSubmitted && files.some(item => queue.some(queued => queued.id === item.uploadId));
+
+  // 组件挂载时确保分组已加载，离开时清理已结束的上传记录
+  useEffect(() => {
+    if (groups.length === 0) {
+      dispatch(fetchGroups());
+    }
+    return () => {
+      dispatch(clearFinishedUploads());
+    };
+  }, [dispatch]);
+
+  // 所有文件都上传完成后返回上一页
+  useEffect(() => {
+    if (isSubmitted && !isUploading) {
+      toast.showSuccess(t('upload.success', { count: files.length }));
+      navigation.goBack();
+    }
+  }, [isSubmitted, isUploading]);
+
+  // 添加选择的图片
+  const addAssets = (assets: ImagePicker.ImagePickerAsset[]) => {
+    const newFiles = assets.map(asset => {
+      const file = toUploadFile(asset);
+      return {
+        uploadId: generateId(),
+        file,
+        name: stripExtension(file.name),
+      };
+    });
+    setFiles(prev => [...prev, ...newFiles]);
+  };
+
+  // 从相册选择
+  const handlePickFromLibrary = async () => {
+    const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('upload.libraryDenied'), t('upload.libraryDeniedMessage'));
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ['images'],
+      allowsMultipleSelection: true,
+      quality: 1,
+    });
+
+    if (!result.canceled) {
+      addAssets(result.assets);
+    }
+  };
+
+  // 拍照
+  const handleTakePhoto = async () => {
+    const permission = await ImagePicker.requestCameraPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(t('upload.cameraDenied'), t('upload.cameraDeniedMessage'));
+      return;
+    }
+
+    const result = await ImagePicker.launchCameraAsync({
+      mediaTypes: ['images'],
+      quality: 1,
+    });
+
+    if (!result.canceled) {
+      addAssets(result.assets);
+    }
+  };
+
+  // 修改单个文件的名称
+  const handleNameChange = (uploadId: string, name: string) => {
+    setFiles(prev => prev.map(item => (item.uploadId === uploadId ? { ...item, name } : item)));
+  };
+
+  // 移除单个文件
+  const handleRemoveFile = (uploadId: string) => {
+    setFiles(prev => prev.filter(item => item.uploadId !== uploadId));
+  };
+
+  // 切换分组选择
+  const toggleGroup = (groupId: number) => {
+    setSelectedGroups(prev =>
+      prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]
+    );
+  };
+
+  // 将所有文件加入上传队列，由队列负责上传和失败重试
+  const handleUpload = async () => {
+    if (files.length === 0) {
+      toast.showWarning(t('upload.noFiles'));
+      return;
+    }
+
+    if (files.some(item => !item.name.trim())) {
+      toast.showWarning(t('upload.nameRequired'));
+      return;
+    }
+
+    await dispatch(enqueueUploads(files.map(item => ({
+      id: item.uploadId,
+      data: {
+        file: item.file,
+        name: item.name.trim(),
+        description: description.trim(),
+        groups: selectedGroups,
+      },
+    }))));
+    setIsSubmitted(true);
+
+    if (!isOnline) {
+      toast.showInfo(t('upload.offline'));
+    }
+  };
+
+  // 重试不可自动重试的上传，名称被后端拒绝时使用修改后的名称
+  const handleRetry = (item: PendingFile) => {
+    if (!item.name.trim()) {
+      toast.showWarning(t('upload.nameRequired'));
+      return;
+    }
+    dispatch(retryUpload({ id: item.uploadId, name: item.name.trim() }));
+  };
+
+  // 获取单个文件的上传状态描述
+  const getStatusText = (item: PendingFile): { text: string; isError: boolean } | null => {
+    const queued = queue.find(queuedItem => queuedItem.id === item.uploadId);
+    const task = uploads[item.uploadId];
+
+    if (!queued) {
+      return task?.status === 'success' ? { text: t('upload.status.done'), isError: false } : null;
+    }
+    if (queued.status === 'failed') {
+      return { text: queued.lastError || t('upload.status.failed'), isError: true };
+    }
+    if (queued.status === 'uploading' && task) {
+      return { text: `${Math.round(task.progress * 100)}%`, isError: false };
+    }
+    if (queued.lastError) {
+      return { text: t('upload.status.retrying', { count: queued.attempts }), isError: true };
+    }
+    return { text: isOnline ? t('upload.status.pending') : t('upload.status.offline'), isError: false };
+  };
+
+  const renderFileItem = (item: PendingFile) => {
+    const task = uploads[item.uploadId];
+    const queued = queue.find(queuedItem => queuedItem.id === item.uploadId);
+    const progress = task ? Math.round(task.progress * 100) : 0;
+    const status = isSubmitted ? getStatusText(item) : null;
+    const isDone = isSubmitted && !queued && task?.status === 'success';
+    const nameError = queued?.fieldErrors?.name;
+
+    return (
+      <View key={item.uploadId} style={styles.fileItem}>
+        <Image source={{ uri: item.file.uri }} style={styles.thumbnail} />
+        <View style={styles.fileInfo}>
+          <TextInput
+            style={[styles.nameInput, !!nameError && styles.nameInputError]}
+            value={item.name}
+            onChangeText={(text) => handleNameChange(item.uploadId, text)}
+            placeholder={t('imageDetail.namePlaceholder')}
+            placeholderTextColor="#999"
+            editable={!isSubmitted || queued?.status === 'failed'}
+          />
+          {!!nameError && <Text style={styles.fieldErrorText}>{nameError}</Text>}
+          {status && (
+            <View style={styles.progressContainer}>
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressBar,
+                    { width: `${isDone ? 100 : progress}%` },
+                    status.isError && styles.progressBarError,
+                    isDone && styles.progressBarSuccess,
+                  ]}
+                />
+              </View>
+              <Text style={[styles.progressText, status.isError && styles.errorText]}>
+                {status.text}
+              </Text>
+            </View>
+          )}
+        </View>
+        {!isSubmitted && (
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemoveFile(item.uploadId)}
+          >
+            <Text style={styles.removeButtonText}>✕</Text>
+          </TouchableOpacity>
+        )}
+        {queued?.status === 'failed' && (
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRetry(item)}
+          >
+            <Text style={styles.retryText}>{t('common.retry')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      {/* 选择图片 */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('upload.pick')}</Text>
+        <View style={styles.pickerButtons}>
+          <TouchableOpacity
+            style={styles.pickerButton}
+            onPress={handlePickFromLibrary}
+            disabled={isSubmitted}
+          >
+            <Text style={styles.pickerButtonText}>{t('upload.fromLibrary')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.pickerButton}
+            onPress={handleTakePhoto}
+            disabled={isSubmitted}
+          >
+            <Text style={styles.pickerButtonText}>{t('upload.takePhoto')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {files.length > 0 ? (
+          <View style={styles.fileList}>{files.map(renderFileItem)}</View>
+        ) : (
+          <Text style={styles.emptyText}>{t('upload.empty')}</Text>
+        )}
+      </View>
+
+      {/* 图片描述 */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('field.description')}</Text>
+        <TextInput
+          style={[styles.input, styles.multilineInput]}
+          value={description}
+          onChangeText={setDescription}
+          placeholder={t('upload.descriptionPlaceholder')}
+          placeholderTextColor="#999"
+          multiline
+          editable={!isSubmitted}
+        />
+      </View>
+
+      {/* 分组选择 */}
+      {groups.length > 0 && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('imageFilter.group')}</Text>
+          <View style={styles.groupsContainer}>
+            {groups.map(group => {
+              const selected = selectedGroups.includes(group.id);
+              return (
+                <TouchableOpacity
+                  key={group.id}
+                  style={[styles.groupTag, selected && styles.groupTagSelected]}
+                  onPress={() => toggleGroup(group.id)}
+                  disabled={isSubmitted}
+                >
+                  <Text style={[styles.groupTagText, selected && styles.groupTagTextSelected]}>
+                    {group.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      )}
+
+      {/* 上传按钮 */}
+      <View style={styles.section}>
+        {isSubmitted ? (
+          <Text style={styles.hintText}>
+            {t('upload.queuedHint')}
+          </Text>
+        ) : (
+          <TouchableOpacity
+            style={[styles.uploadButton, files.length === 0 && styles.uploadButtonDisabled]}
+            onPress={handleUpload}
+            disabled={files.length === 0}
+          >
+            <Text style={styles.uploadButtonText}>{t('upload.submit', { count: files.length })}</Text>
+          </TouchableOpacity>
+        )}
+        {isUploading && <ActivityIndicator style={styles.uploadingIndicator} color="#2196F3" />}
+      </View>
+
+      {/* 底部间距 */}
+      <View style={styles.bottomSpacing} />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  section: {
+    backgroundColor: '#fff',
+    padding: 20,
+    marginBottom: 10,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 15,
+  },
+  pickerButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  pickerButton: {
+    flex: 1,
+    backgroundColor: '#2196F3',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginHorizontal: 5,
+    alignItems: 'center',
+  },
+  pickerButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  fileList: {
+    marginTop: 15,
+  },
+  fileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    backgroundColor: '#eee',
+  },
+  fileInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  nameInput: {
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    fontSize: 15,
+    color: '#333',
+  },
+  nameInputError: {
+    borderColor: '#f44336',
+  },
+  fieldErrorText: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#f44336',
+  },
+  progressContainer: {
+    marginTop: 8,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#2196F3',
+  },
+  progressBarError: {
+    backgroundColor: '#f44336',
+  },
+  progressBarSuccess: {
+    backgroundColor: '#4CAF50',
+  },
+  progressText: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#666',
+  },
+  errorText: {
+    color: '#f44336',
+  },
+  removeButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
+  removeButtonText: {
+    fontSize: 16,
+    color: '#999',
+    fontWeight: 'bold',
+  },
+  retryText: {
+    fontSize: 14,
+    color: '#2196F3',
+    fontWeight: '600',
+  },
+  emptyText: {
+    marginTop: 15,
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 15,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+  },
+  multilineInput: {
+    minHeight: 90,
+    paddingTop: 12,
+    textAlignVertical: 'top',
+  },
+  groupsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  groupTag: {
+    backgroundColor: '#f0f0f0',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  groupTagSelected: {
+    backgroundColor: '#e3f2fd',
+  },
+  groupTagText: {
+    color: '#666',
+    fontSize: 14,
+  },
+  groupTagTextSelected: {
+    color: '#1976d2',
+    fontWeight: '600',
+  },
+  uploadButton: {
+    height: 50,
+    backgroundColor: '#2196F3',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  uploadButtonDisabled: {
+    backgroundColor: '#ccc',
+  },
+  uploadButtonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+  },
+  uploadingIndicator: {
+    marginTop: 12,
+  },
+  bottomSpacing: {
+    height: 20,
+  },
+});
+
+export default UploadScreen;
@@ -3,34 +3,73 @@
  * 使用axios进行HTTP请求，适配后端API
  */
 
-import axios, { AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import { 
   User, 
+  Account,
   Image, 
   Group, 
   AuthTokens, 
   LoginCredentials, 
+  RegisterData,
+  ProfileUpdateData,
+  PasswordChangeData,
+  ApiFieldErrors,
   ApiResponse, 
-  ApiError 
+  ApiError,
+  ImageUploadData,
+  ImageUpdateData,
+  ImageQueryParams,
+  PaginatedResponse,
+  PageResult,
+  GroupFormData,
+  GroupImagesChange,
 } from '../types';
+import { parseQueryString } from '../utils';
+import { createApiError } from '../utils/errorHandling';
+import { MessageKey, t } from '../i18n';
+import { ACCESS_TOKEN_REFRESH_LEEWAY_MS, getTokenExpiry, isTokenExpired } from '../utils/jwt';
+import { DEFAULT_SERVER_URL, normalizeServerUrl } from './serverConfig';
+import { removeCache } from './cache';
 
-// API基础配置
-const BASE_URL = 'http://127.0.0.1:8000'; // 开发环境，实际部署时需要修改
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // 不携带token、401时也不刷新（登录和刷新token本身的请求）
+    skipAuthRefresh?: boolean;
+    // 已经刷新token重发过一次
+    _retry?: boolean;
+  }
+}
+
+// API基础配置，服务器地址可在登录页切换
 const API_PREFIX = '/api';
+let serverUrl = DEFAULT_SERVER_URL;
 
 // 创建axios实例
 const apiClient = axios.create({
-  baseURL: `${BASE_URL}${API_PREFIX}`,
+  baseURL: `${serverUrl}${API_PREFIX}`,
   timeout: 10000,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Token存储key
+// Token存储key（每个账户一组token，未登录任何账户时使用不带后缀的旧key）
 const TOKEN_KEY = 'auth_tokens';
+// 已登录账户列表和当前账户的存储key
+const ACCOUNTS_KEY = 'accounts';
+const ACTIVE_ACCOUNT_KEY = 'active_account';
+// 用户选择的服务器地址存储key
+const SERVER_URL_KEY = 'server_url';
+
+// 当前账户ID，决定请求使用哪一组token
+let activeAccountId: string | null = null;
+
+// 当前账户的token存储key（SecureStore的key只允许字母、数字和 . - _）
+const getTokenKey = (accountId: string | null = activeAccountId) =>
+  accountId ? `${TOKEN_KEY}.${accountId.replace(/[^A-Za-z0-9._-]/g, '_')}` : TOKEN_KEY;
 
 // 安全存储工具函数
 const secureStorage = {
@@ -77,10 +116,20 @@ const secureStorage = {
 // 请求拦截器 - 添加认证token
 apiClient.interceptors.request.use(
   async (config) => {
+    if (config.skipAuthRefresh) {
+      return config;
+    }
     try {
-      const tokens = await secureStorage.getItem(TOKEN_KEY);
+      const tokens = await secureStorage.getItem(getTokenKey());
       if (tokens) {
-        const parsedTokens: AuthTokens = JSON.parse(tokens);
+        let parsedTokens: AuthTokens = JSON.parse(tokens);
+        // access token即将过期时先刷新，避免请求带着过期token失败一次
+        if (
+          isTokenExpired(parsedTokens.access, ACCESS_TOKEN_REFRESH_LEEWAY_MS) &&
+          !isTokenExpired(parsedTokens.refresh)
+        ) {
+          parsedTokens = (await refreshTokens().catch(() => null)) ?? parsedTokens;
+        }
         config.headers = config.headers || {};
         config.headers.Authorization = `Bearer ${parsedTokens.access}`;
       }
@@ -94,42 +143,115 @@ apiClient.interceptors.request.use(
   }
 );
 
+// 登录失效（refresh token被拒绝或已过期）的监听者，参数为失效的账户ID
+type SessionExpiredListener = (accountId: string | null) => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// 通知登录已失效，由状态层清除认证状态
+const emitSessionExpired = (accountId: string | null) => {
+  sessionExpiredListeners.forEach(listener => listener(accountId));
+};
+
+// 订阅登录失效事件，返回取消订阅函数
+export const subscribeSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// 正在进行的token刷新，同一时间只发起一次，其余401请求等待它完成后重发
+let refreshPromise: Promise<AuthTokens | null> | null = null;
+
+// 用refresh token换取新的access token，后端轮换refresh token时一并保存
+// 没有保存token（如刷新前已退出该账户）时返回null，由调用方按原来的错误处理
+const refreshTokens = (): Promise<AuthTokens | null> => {
+  if (!refreshPromise) {
+    // 记下发起刷新时的账户，避免刷新期间切换账户后写错位置
+    const accountId = activeAccountId;
+    const tokenKey = getTokenKey(accountId);
+    refreshPromise = (async () => {
+      const tokens = await secureStorage.getItem(tokenKey);
+      if (!tokens) {
+        return null;
+      }
+      const parsedTokens: AuthTokens = JSON.parse(tokens);
+      try {
+        const response = await apiClient.post<Partial<AuthTokens>>(
+          '/token/refresh/',
+          { refresh: parsedTokens.refresh },
+          { skipAuthRefresh: true }
+        );
+        const newTokens: AuthTokens = {
+          access: response.data.access as string,
+          refresh: response.data.refresh ?? parsedTokens.refresh,
+        };
+        await secureStorage.setItem(tokenKey, JSON.stringify(newTokens));
+        return newTokens;
+      } catch (error) {
+        // 服务器拒绝了refresh token（已过期或已失效）时清除存储的token，
+        // 网络错误等临时失败保留token，稍后可以再试
+        const status = (error as AxiosError).response?.status;
+        if (status === 400 || status === 401) {
+          await secureStorage.deleteItem(tokenKey);
+          emitSessionExpired(accountId);
+        }
+        throw error;
+      }
+    })().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+// 读取请求发出时携带的access token
+const getRequestAccessToken = (config: InternalAxiosRequestConfig): string | null => {
+  const header = config.headers?.Authorization;
+  return typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7) : null;
+};
+
 // 响应拦截器 - 处理token刷新
 apiClient.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
     const originalRequest = error.config;
-    
-    if (error.response?.status === 401 && originalRequest && !(originalRequest as any)._retry) {
-      (originalRequest as any)._retry = true;
-      
-      try {
-        const tokens = await secureStorage.getItem(TOKEN_KEY);
-        if (tokens) {
-          const parsedTokens: AuthTokens = JSON.parse(tokens);
-          const refreshResponse = await axios.post(`${BASE_URL}${API_PREFIX}/token/refresh/`, {
-            refresh: parsedTokens.refresh
-          });
-          
-          const newTokens: AuthTokens = {
-            access: refreshResponse.data.access,
-            refresh: parsedTokens.refresh
-          };
-          
-          await secureStorage.setItem(TOKEN_KEY, JSON.stringify(newTokens));
-          originalRequest.headers = originalRequest.headers || {};
-          originalRequest.headers.Authorization = `Bearer ${newTokens.access}`;
-          
-          return apiClient(originalRequest);
-        }
-      } catch (refreshError) {
-        // 刷新token失败，清除存储的token
-        await secureStorage.deleteItem(TOKEN_KEY);
-        return Promise.reject(refreshError);
-      }
+
+    if (
+      error.response?.status !== 401 ||
+      !originalRequest ||
+      originalRequest._retry ||
+      originalRequest.skipAuthRefresh
+    ) {
+      return Promise.reject(error);
     }
-    
-    return Promise.reject(error);
+    originalRequest._retry = true;
+
+    const stored = await secureStorage.getItem(getTokenKey());
+    if (!stored) {
+      return Promise.reject(error);
+    }
+
+    // refresh token已过期时不必再请求服务器
+    const currentTokens: AuthTokens = JSON.parse(stored);
+    if (isTokenExpired(currentTokens.refresh)) {
+      await secureStorage.deleteItem(getTokenKey());
+      emitSessionExpired(activeAccountId);
+      return Promise.reject(error);
+    }
+
+    // 请求发出后token已被其他请求刷新过时，直接用新token重发
+    const requestToken = getRequestAccessToken(originalRequest);
+    const tokens =
+      requestToken && currentTokens.access !== requestToken
+        ? currentTokens
+        : await refreshTokens();
+    if (!tokens) {
+      return Promise.reject(error);
+    }
+
+    originalRequest.headers.Authorization = `Bearer ${tokens.access}`;
+    return apiClient(originalRequest);
   }
 );
 
@@ -141,7 +263,117 @@ const handleApiResponse = <T>(response: AxiosResponse<T>): ApiResponse<T> => {
   };
 };
 
+// 工具函数：统一处理分页和未分页的列表响应
+const handlePageResponse = <T>(
+  response: AxiosResponse<PaginatedResponse<T> | T[]>
+): ApiResponse<PageResult<T>> => {
+  const data = response.data;
+
+  // 后端未开启分页时直接返回数组
+  if (Array.isArray(data)) {
+    return {
+      data: { results: data, count: data.length, nextParams: null },
+      status: response.status,
+    };
+  }
+
+  return {
+    data: {
+      results: data.results,
+      count: typeof data.count === 'number' ? data.count : null,
+      // 只保留下一页的查询参数（page或cursor），避免依赖后端返回的主机地址
+      nextParams: data.next ? parseQueryString(data.next) : null,
+    },
+    status: response.status,
+  };
+};
+
 // 工具函数：处理API错误
+// 字段错误在提示信息中显示的名称，也决定多个字段出错时优先提示哪个
+const FIELD_LABELS: Record<string, MessageKey> = {
+  username: 'field.username',
+  password: 'field.password',
+  email: 'field.email',
+  first_name: 'field.first_name',
+  last_name: 'field.last_name',
+  old_password: 'field.old_password',
+  new_password: 'field.new_password',
+  avatar: 'field.avatar',
+  name: 'field.name',
+  description: 'field.description',
+  image: 'field.image',
+  groups: 'field.groups',
+};
+
+// 字段在错误提示中的优先级，未列出的字段排在最后
+const getFieldRank = (field: string) => {
+  const index = Object.keys(FIELD_LABELS).indexOf(field.split('.')[0]);
+  return index === -1 ? Object.keys(FIELD_LABELS).length : index;
+};
+
+// 不属于字段错误的响应字段
+const NON_FIELD_KEYS = ['detail', 'non_field_errors', 'code', 'message', 'messages'];
+
+// DRF的错误可能是字符串或字符串数组
+const joinErrorMessages = (value: string | string[]): string =>
+  Array.isArray(value) ? value.join(', ') : value;
+
+// 递归收集字段错误，嵌套序列化器和列表中的错误用点号连接路径（如 items.0.name）
+const collectFieldErrors = (value: unknown, path: string, fieldErrors: ApiFieldErrors) => {
+  if (typeof value === 'string') {
+    fieldErrors[path] = [...(fieldErrors[path] ?? []), value];
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      collectFieldErrors(item, typeof item === 'string' ? path : `${path}.${index}`, fieldErrors);
+    });
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, item]) => {
+      collectFieldErrors(item, `${path}.${key}`, fieldErrors);
+    });
+  }
+};
+
+// 从DRF的校验错误中提取每个字段的错误信息
+const getFieldErrors = (responseData: any): ApiFieldErrors => {
+  if (!responseData || typeof responseData !== 'object' || Array.isArray(responseData)) {
+    return {};
+  }
+  const fieldErrors: ApiFieldErrors = {};
+  Object.keys(responseData)
+    .filter(key => !NON_FIELD_KEYS.includes(key))
+    .sort((a, b) => getFieldRank(a) - getFieldRank(b))
+    .forEach(field => collectFieldErrors(responseData[field], field, fieldErrors));
+  return fieldErrors;
+};
+
+// 从响应中取出给用户看的错误信息，没有时返回undefined（使用错误码的默认提示）
+const getResponseMessage = (responseData: any, fieldErrors: ApiFieldErrors): string | undefined => {
+  const firstField = Object.keys(fieldErrors)[0];
+  if (responseData?.detail) {
+    return responseData.detail;
+  }
+  if (responseData?.non_field_errors) {
+    return joinErrorMessages(responseData.non_field_errors);
+  }
+  if (firstField) {
+    const labelKey = FIELD_LABELS[firstField.split('.')[0]];
+    const label = labelKey ? t(labelKey) : firstField;
+    return `${label}: ${joinErrorMessages(fieldErrors[firstField])}`;
+  }
+  if (typeof responseData?.message === 'string') {
+    return responseData.message;
+  }
+  // 直接抛出ValidationError时响应体是字符串数组
+  if (Array.isArray(responseData) && responseData.every(item => typeof item === 'string')) {
+    return joinErrorMessages(responseData);
+  }
+  // 忽略服务器出错时返回的HTML页面
+  if (typeof responseData === 'string' && responseData && !responseData.trim().startsWith('<')) {
+    return responseData;
+  }
+  return undefined;
+};
+
 const handleApiError = (error: AxiosError): ApiError => {
   console.log('API错误详情:', {
     response: error.response?.data,
@@ -151,63 +383,241 @@ const handleApiError = (error: AxiosError): ApiError => {
   });
 
   if (error.response) {
-    const responseData = error.response.data as any;
-    
     // 处理Django REST framework的标准错误格式
-    let message = '请求失败';
-    
-    if (responseData?.detail) {
-      message = responseData.detail;
-    } else if (responseData?.non_field_errors) {
-      message = Array.isArray(responseData.non_field_errors) 
-        ? responseData.non_field_errors.join(', ')
-        : responseData.non_field_errors;
-    } else if (responseData?.username) {
-      message = `用户名: ${Array.isArray(responseData.username) 
-        ? responseData.username.join(', ') 
-        : responseData.username}`;
-    } else if (responseData?.password) {
-      message = `密码: ${Array.isArray(responseData.password) 
-        ? responseData.password.join(', ') 
-        : responseData.password}`;
-    } else if (responseData?.message) {
-      message = responseData.message;
-    } else if (typeof responseData === 'string') {
-      message = responseData;
-    }
-
-    return {
-      message,
+    const responseData = error.response.data as any;
+    const fieldErrors = getFieldErrors(responseData);
+    return createApiError(getResponseMessage(responseData, fieldErrors), {
       status: error.response.status,
-      code: responseData?.code,
-    };
+      fieldErrors,
+    });
+  } else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return createApiError(undefined, { code: 'TIMEOUT' });
   } else if (error.request) {
-    return {
-      message: '网络连接失败，请检查网络设置',
-      code: 'NETWORK_ERROR',
-    };
+    return createApiError(undefined, { code: 'NETWORK_ERROR' });
   } else {
-    return {
-      message: error.message || '未知错误',
-      code: 'UNKNOWN_ERROR',
-    };
+    return createApiError(error.message, { code: 'UNKNOWN_ERROR' });
+  }
+};
+
+// 切换服务器：之后的所有请求都发往新地址
+const applyServerUrl = (url: string) => {
+  serverUrl = url;
+  apiClient.defaults.baseURL = `${url}${API_PREFIX}`;
+};
+
+// 服务器配置API
+export const serverApi = {
+  // 当前使用的服务器地址
+  getServerUrl: (): string => serverUrl,
+
+  // 应用启动时恢复上次选择的服务器
+  restoreServerUrl: async (): Promise<string> => {
+    const storedUrl = await secureStorage.getItem(SERVER_URL_KEY);
+    if (storedUrl) {
+      applyServerUrl(storedUrl);
+    }
+    return serverUrl;
+  },
+
+  // 检查服务器是否可用（请求 /api/ 根路径）
+  checkServer: async (url: string): Promise<void> => {
+    try {
+      await axios.get(`${normalizeServerUrl(url)}${API_PREFIX}/`, {
+        timeout: 5000,
+        // 需要登录的API根路径会返回401/403，同样说明服务器可用
+        validateStatus: status => (status >= 200 && status < 300) || status === 401 || status === 403,
+      });
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      throw axiosError.response
+        ? createApiError(
+            t('server.unexpectedResponse', { status: axiosError.response.status }),
+            { status: axiosError.response.status }
+          )
+        : createApiError(t('server.unreachable'), { code: 'NETWORK_ERROR' });
+    }
+  },
+
+  // 保存并切换服务器
+  saveServerUrl: async (url: string): Promise<string> => {
+    const normalized = normalizeServerUrl(url);
+    await secureStorage.setItem(SERVER_URL_KEY, normalized);
+    applyServerUrl(normalized);
+    return normalized;
+  },
+};
+
+// 读取已登录的账户列表
+const loadAccounts = async (): Promise<Account[]> => {
+  try {
+    const stored = await secureStorage.getItem(ACCOUNTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.log('读取账户列表失败:', error);
+    return [];
+  }
+};
+
+const saveAccounts = (accounts: Account[]) =>
+  secureStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+
+// 切换当前账户，并使用该账户所在的服务器
+const applyAccount = async (account: Account | null) => {
+  activeAccountId = account?.id ?? null;
+  if (account) {
+    applyServerUrl(account.serverUrl);
+    await secureStorage.setItem(ACTIVE_ACCOUNT_KEY, account.id);
+  } else {
+    await secureStorage.deleteItem(ACTIVE_ACCOUNT_KEY);
   }
 };
 
+// 账户API（多个账户可同时保持登录）
+export const accountsApi = {
+  // 根据服务器地址和用户名生成账户ID
+  getAccountId: (username: string, url: string = serverUrl): string => `${username}@${url}`,
+
+  getAccounts: loadAccounts,
+
+  getActiveAccountId: (): string | null => activeAccountId,
+
+  // 应用启动时恢复上次使用的账户
+  restoreActiveAccount: async (): Promise<Account | null> => {
+    const accountId = await secureStorage.getItem(ACTIVE_ACCOUNT_KEY);
+    const account = (await loadAccounts()).find(item => item.id === accountId) ?? null;
+    if (account) {
+      activeAccountId = account.id;
+      applyServerUrl(account.serverUrl);
+    }
+    return account;
+  },
+
+  // 切换到已登录的账户
+  activateAccount: async (accountId: string): Promise<Account> => {
+    const account = (await loadAccounts()).find(item => item.id === accountId);
+    if (!account) {
+      throw createApiError(t('account.notFound'));
+    }
+    await applyAccount(account);
+    return account;
+  },
+
+  // 保存新登录账户的token并设为当前账户
+  addAccount: async (username: string, tokens: AuthTokens): Promise<Account> => {
+    const account: Account = {
+      id: accountsApi.getAccountId(username),
+      serverUrl,
+      username,
+    };
+    const accounts = (await loadAccounts()).filter(item => item.id !== account.id);
+    await secureStorage.setItem(getTokenKey(account.id), JSON.stringify(tokens));
+    await saveAccounts([...accounts, account]);
+    await applyAccount(account);
+    return account;
+  },
+
+  // 将旧版本保存的单组token迁移为一个账户
+  adoptLegacyTokens: async (username: string): Promise<Account | null> => {
+    const tokens = await secureStorage.getItem(TOKEN_KEY);
+    if (!tokens) return null;
+    const account = await accountsApi.addAccount(username, JSON.parse(tokens));
+    await secureStorage.deleteItem(TOKEN_KEY);
+    return account;
+  },
+
+  // 移除账户及其token和离线缓存，移除当前账户后没有当前账户
+  removeAccount: async (accountId: string): Promise<void> => {
+    await secureStorage.deleteItem(getTokenKey(accountId));
+    await removeCache(accountId);
+    await saveAccounts((await loadAccounts()).filter(item => item.id !== accountId));
+    if (accountId === activeAccountId) {
+      await applyAccount(null);
+    }
+  },
+
+  // 取消当前账户（所有账户都不可用时）
+  clearActiveAccount: (): Promise<void> => applyAccount(null),
+
+  // 放弃添加账户时恢复当前账户所在的服务器
+  restoreActiveServer: async (): Promise<void> => {
+    const account = (await loadAccounts()).find(item => item.id === activeAccountId);
+    if (account) {
+      applyServerUrl(account.serverUrl);
+    }
+  },
+};
+
 // 认证API
 export const authApi = {
-  // 用户登录
+  // 用户登录，登录成功后作为新账户保存并切换到该账户
   login: async (credentials: LoginCredentials): Promise<ApiResponse<AuthTokens>> => {
     try {
-      const response = await apiClient.post<AuthTokens>('/token/', credentials);
-      // 登录成功后保存token
-      await secureStorage.setItem(TOKEN_KEY, JSON.stringify(response.data));
+      const response = await apiClient.post<AuthTokens>('/token/', credentials, {
+        skipAuthRefresh: true,
+      });
+      await accountsApi.addAccount(credentials.username, response.data);
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 注册新用户（注册成功后需要再登录）
+  register: async (data: RegisterData): Promise<ApiResponse<User>> => {
+    try {
+      const response = await apiClient.post<User>('/register/', data, {
+        skipAuthRefresh: true,
+      });
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 请求重置密码，后端会向该邮箱发送重置链接
+  requestPasswordReset: async (email: string): Promise<void> => {
+    try {
+      await apiClient.post<void>('/password-reset/', { email }, {
+        skipAuthRefresh: true,
+      });
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 修改当前用户的资料，包含头像时以multipart/form-data提交
+  updateProfile: async (data: ProfileUpdateData): Promise<ApiResponse<User>> => {
+    try {
+      const { avatar, ...fields } = data;
+      let response: AxiosResponse<User>;
+      if (avatar) {
+        const formData = new FormData();
+        formData.append('avatar', avatar as any);
+        Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+        response = await apiClient.patch<User>('/me/', formData, {
+          headers: {
+            'Content-Type': 'multipart/form-data',
+          },
+          timeout: 60000,
+        });
+      } else {
+        response = await apiClient.patch<User>('/me/', fields);
+      }
       return handleApiResponse(response);
     } catch (error) {
       throw handleApiError(error as AxiosError);
     }
   },
 
+  // 修改当前用户的密码
+  changePassword: async (data: PasswordChangeData): Promise<void> => {
+    try {
+      await apiClient.post<void>('/me/password/', data);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
   // 获取当前用户信息
   getCurrentUser: async (): Promise<ApiResponse<User>> => {
     try {
@@ -218,10 +628,13 @@ export const authApi = {
     }
   },
 
-  // 用户登出
+  // 用户登出（只退出当前账户）
   logout: async (): Promise<void> => {
     console.log('authApi.logout called'); // 新增日志
     try {
+      if (activeAccountId) {
+        await accountsApi.removeAccount(activeAccountId);
+      }
       await secureStorage.deleteItem(TOKEN_KEY);
       console.log('Token deleted successfully'); // 新增日志
     } catch (error) {
@@ -229,25 +642,74 @@ export const authApi = {
     }
   },
 
-  // 检查是否有有效token
+  // 检查是否有有效token（refresh token已过期时视为未登录，无需请求服务器）
   hasValidToken: async (): Promise<boolean> => {
     try {
-      const tokens = await secureStorage.getItem(TOKEN_KEY);
-      return !!tokens;
+      const tokens = await secureStorage.getItem(getTokenKey());
+      if (!tokens) {
+        return false;
+      }
+      const parsedTokens: AuthTokens = JSON.parse(tokens);
+      return !!parsedTokens.refresh && !isTokenExpired(parsedTokens.refresh);
     } catch (error) {
       return false;
     }
   },
+
+  // 获取当前登录的有效期（refresh token的过期时间），未知时返回null
+  getSessionExpiry: async (): Promise<number | null> => {
+    try {
+      const tokens = await secureStorage.getItem(getTokenKey());
+      if (!tokens) {
+        return null;
+      }
+      const parsedTokens: AuthTokens = JSON.parse(tokens);
+      return getTokenExpiry(parsedTokens.refresh);
+    } catch (error) {
+      return null;
+    }
+  },
 };
 
 // 图片API
+// 工具函数：将后端返回的相对媒体地址补全为当前服务器的地址
+const resolveMediaUrl = (url: string): string =>
+  /^https?:\/\//i.test(url) || !url.startsWith('/') ? url : `${serverUrl}${url}`;
+
+// 工具函数：整理图片的原图、缩略图和缩放版本地址，丢弃缺少尺寸的版本
+const normalizeImage = (image: Image): Image => ({
+  ...image,
+  image: resolveMediaUrl(image.image),
+  thumbnail: image.thumbnail ? resolveMediaUrl(image.thumbnail) : null,
+  medium: image.medium ? resolveMediaUrl(image.medium) : null,
+  variants: Array.isArray(image.variants)
+    ? image.variants
+        .filter(variant => !!variant?.url && variant.width > 0 && variant.height > 0)
+        .map(variant => ({ url: resolveMediaUrl(variant.url), width: variant.width, height: variant.height }))
+    : [],
+});
+
+// 工具函数：整理响应中的图片
+const withNormalizedImage = (response: ApiResponse<Image>): ApiResponse<Image> => ({
+  ...response,
+  data: normalizeImage(response.data),
+});
+
 export const imagesApi = {
-  // 获取图片列表
-  getImages: async (mine?: boolean): Promise<ApiResponse<Image[]>> => {
+  // 获取图片列表（一页），分页参数来自上一页返回的nextParams
+  getImages: async (params: ImageQueryParams = {}): Promise<ApiResponse<PageResult<Image>>> => {
     try {
-      const params = mine ? { mine: 'true' } : {};
-      const response = await apiClient.get<Image[]>('/images/', { params });
-      return handleApiResponse(response);
+      const { mine, ...rest } = params;
+      // 去掉未设置的参数
+      const query: Record<string, string | number | boolean> = mine ? { mine: 'true' } : {};
+      Object.entries(rest).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') {
+          query[key] = value;
+        }
+      });
+      const response = await apiClient.get<PaginatedResponse<Image> | Image[]>('/images/', { params: query });
+      const page = handlePageResponse(response);
+      return { ...page, data: { ...page.data, results: page.data.results.map(normalizeImage) } };
     } catch (error) {
       throw handleApiError(error as AxiosError);
     }
@@ -257,6 +719,56 @@ export const imagesApi = {
   getImage: async (id: number): Promise<ApiResponse<Image>> => {
     try {
       const response = await apiClient.get<Image>(`/images/${id}/`);
+      return withNormalizedImage(handleApiResponse(response));
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 上传图片（multipart/form-data）
+  uploadImage: async (
+    data: ImageUploadData,
+    onProgress?: (progress: number) => void
+  ): Promise<ApiResponse<Image>> => {
+    try {
+      const formData = new FormData();
+      // React Native的FormData接受 { uri, name, type } 形式的文件对象
+      formData.append('image', data.file as any);
+      formData.append('name', data.name);
+      formData.append('description', data.description);
+      data.groups.forEach(groupId => formData.append('groups', String(groupId)));
+
+      const response = await apiClient.post<Image>('/images/', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 60000, // 上传大文件需要更长的超时时间
+        onUploadProgress: (event) => {
+          if (onProgress && event.total) {
+            onProgress(event.loaded / event.total);
+          }
+        },
+      });
+      return withNormalizedImage(handleApiResponse(response));
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 更新图片信息
+  updateImage: async (id: number, data: ImageUpdateData): Promise<ApiResponse<Image>> => {
+    try {
+      const response = await apiClient.patch<Image>(`/images/${id}/`, data);
+      return withNormalizedImage(handleApiResponse(response));
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 删除图片
+  deleteImage: async (id: number): Promise<ApiResponse<void>> => {
+    try {
+      const response = await apiClient.delete<void>(`/images/${id}/`);
       return handleApiResponse(response);
     } catch (error) {
       throw handleApiError(error as AxiosError);
@@ -285,6 +797,46 @@ export const groupsApi = {
       throw handleApiError(error as AxiosError);
     }
   },
+
+  // 创建分组
+  createGroup: async (data: GroupFormData): Promise<ApiResponse<Group>> => {
+    try {
+      const response = await apiClient.post<Group>('/groups/', data);
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 更新分组信息
+  updateGroup: async (id: number, data: Partial<GroupFormData>): Promise<ApiResponse<Group>> => {
+    try {
+      const response = await apiClient.patch<Group>(`/groups/${id}/`, data);
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 删除分组（分组中的图片不会被删除）
+  deleteGroup: async (id: number): Promise<ApiResponse<void>> => {
+    try {
+      const response = await apiClient.delete<void>(`/groups/${id}/`);
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
+
+  // 向分组添加或从分组移除图片
+  updateGroupImages: async (id: number, change: GroupImagesChange): Promise<ApiResponse<void>> => {
+    try {
+      const response = await apiClient.post<void>(`/groups/${id}/images/`, change);
+      return handleApiResponse(response);
+    } catch (error) {
+      throw handleApiError(error as AxiosError);
+    }
+  },
 };
 
 // 导出API客户端实例（用于扩展）
@@ -0,0 +1,92 @@
+/**
+ * 应用锁服务
+ * 负责应用锁设置的持久化和调用系统的生物识别/设备密码验证
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as LocalAuthentication from 'expo-local-authentication';
+import { AppState, Platform } from 'react-native';
+import { AppLockSettings } from '../types';
+import { DEFAULT_APP_LOCK_SETTINGS } from '../utils/appLock';
+import { t } from '../i18n';
+
+// 应用锁设置存储key
+const SETTINGS_KEY = 'app_lock_settings';
+
+/**
+ * 从设备存储读取应用锁设置
+ */
+export const loadAppLockSettings = async (): Promise<AppLockSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_APP_LOCK_SETTINGS, ...JSON.parse(stored) } : DEFAULT_APP_LOCK_SETTINGS;
+  } catch (error) {
+    console.log('读取应用锁设置失败:', error);
+    return DEFAULT_APP_LOCK_SETTINGS;
+  }
+};
+
+/**
+ * 保存应用锁设置到设备存储
+ */
+export const saveAppLockSettings = async (settings: AppLockSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.log('保存应用锁设置失败:', error);
+  }
+};
+
+/**
+ * 设备是否支持应用锁（有生物识别硬件或设置了设备密码）
+ */
+export const isAppLockAvailable = async (): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+  try {
+    const level = await LocalAuthentication.getEnrolledLevelAsync();
+    return level !== LocalAuthentication.SecurityLevel.NONE;
+  } catch (error) {
+    console.log('检查设备验证能力失败:', error);
+    return false;
+  }
+};
+
+/**
+ * 请求系统验证身份（生物识别，失败时可使用设备密码）
+ * @returns 成功时success为true，失败时error为系统返回的原因
+ */
+export const authenticateDevice = async (
+  promptMessage: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+      cancelLabel: t('common.cancel'),
+      fallbackLabel: t('appLock.usePasscode'),
+    });
+    return result.success ? { success: true } : { success: false, error: result.error };
+  } catch (error) {
+    console.log('设备验证失败:', error);
+    return { success: false, error: 'unknown' };
+  }
+};
+
+/**
+ * 监听应用进入后台和回到前台，返回取消监听的函数
+ * （iOS的inactive状态出现在验证弹窗和多任务界面，不视为进入后台）
+ */
+export const subscribeAppLockTriggers = (
+  onBackground: () => void,
+  onForeground: () => void
+): (() => void) => {
+  const subscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'background') {
+      onBackground();
+    } else if (nextState === 'active') {
+      onForeground();
+    }
+  });
+  return () => subscription.remove();
+};
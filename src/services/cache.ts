@@ -0,0 +1,127 @@
+/**
+ * 离线缓存服务
+ * 按账户将图片、分组和用户信息保存到设备存储，冷启动时先显示缓存再从服务器更新
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PersistedCache } from '../types';
+
+// 缓存存储key前缀，后接账户ID
+const CACHE_KEY_PREFIX = 'offline_cache:';
+
+// 当前的缓存结构版本，修改 PersistedCache 的结构时加1，并在 CACHE_MIGRATIONS 中添加迁移
+export const CACHE_VERSION = 1;
+
+// 将上一版本的缓存转换为指定版本
+export type CacheMigration = (cache: any) => any;
+
+// 缓存迁移，key为迁移后的版本
+export const CACHE_MIGRATIONS: Record<number, CacheMigration> = {};
+
+// 超过该时间没有从服务器更新的数据视为过期
+export const CACHE_STALE_MS = 5 * 60 * 1000;
+
+// 数据变化后等待多久再写入，短时间内的多次变化只保存一次
+const SAVE_DELAY = 1000;
+
+const getCacheKey = (accountId: string) => `${CACHE_KEY_PREFIX}${accountId}`;
+
+/**
+ * 将读取到的缓存依次迁移到当前版本
+ * @returns 无法识别、版本比当前新或缺少迁移时返回null（丢弃缓存）
+ */
+export const migrateCache = (
+  stored: any,
+  migrations: Record<number, CacheMigration> = CACHE_MIGRATIONS,
+  version: number = CACHE_VERSION
+): PersistedCache | null => {
+  if (!stored || typeof stored.version !== 'number' || stored.version > version) {
+    return null;
+  }
+
+  let cache = stored;
+  for (let next = stored.version + 1; next <= version; next++) {
+    const migrate = migrations[next];
+    if (!migrate) {
+      return null;
+    }
+    cache = { ...migrate(cache), version: next };
+  }
+  return cache;
+};
+
+/**
+ * 判断数据是否已过期，从未获取过的数据不算过期
+ */
+export const isCacheStale = (updatedAt: number | null, now: number = Date.now()): boolean =>
+  updatedAt !== null && now - updatedAt >= CACHE_STALE_MS;
+
+/**
+ * 读取账户的离线缓存
+ */
+export const loadCache = async (accountId: string): Promise<PersistedCache | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(getCacheKey(accountId));
+    return stored ? migrateCache(JSON.parse(stored)) : null;
+  } catch (error) {
+    console.log('读取离线缓存失败:', error);
+    return null;
+  }
+};
+
+/**
+ * 保存账户的离线缓存
+ */
+export const saveCache = async (accountId: string, cache: PersistedCache): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(getCacheKey(accountId), JSON.stringify(cache));
+  } catch (error) {
+    console.log('保存离线缓存失败:', error);
+  }
+};
+
+/**
+ * 删除账户的离线缓存（移除账户或登出时）
+ */
+export const removeCache = async (accountId: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(getCacheKey(accountId));
+  } catch (error) {
+    console.log('删除离线缓存失败:', error);
+  }
+};
+
+/**
+ * 需要缓存的数据变化后延迟保存
+ * @param getSnapshot 返回当前账户要保存的缓存，数据未变化时应返回同一个对象，没有可保存的数据时返回null
+ * @returns 取消订阅的函数
+ */
+export const subscribeCachePersistence = (
+  subscribe: (listener: () => void) => () => void,
+  getSnapshot: () => { accountId: string; cache: PersistedCache } | null
+): (() => void) => {
+  let lastSnapshot = getSnapshot();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const unsubscribe = subscribe(() => {
+    const snapshot = getSnapshot();
+    if (snapshot === lastSnapshot) return;
+    lastSnapshot = snapshot;
+    if (!snapshot || timer) return;
+
+    timer = setTimeout(() => {
+      timer = null;
+      // 保存等待期间最新的数据
+      if (lastSnapshot) {
+        saveCache(lastSnapshot.accountId, { ...lastSnapshot.cache, savedAt: Date.now() });
+      }
+    }, SAVE_DELAY);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * 网格布局设置服务
+ * 按页面保存用户选择的图片网格布局和列数
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GridLayoutMode, GridLayoutSettings } from '../types';
+import { clampColumns } from '../utils/gridLayout';
+
+// 布局设置存储key前缀，后接页面名称
+const GRID_LAYOUT_KEY_PREFIX = 'grid_layout:';
+
+const LAYOUT_MODES: GridLayoutMode[] = ['square', 'masonry', 'justified'];
+
+/**
+ * 读取页面的布局设置，没有保存过或数据无效时返回null
+ */
+export const loadGridLayout = async (screen: string): Promise<GridLayoutSettings | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(`${GRID_LAYOUT_KEY_PREFIX}${screen}`);
+    if (!stored) return null;
+    const settings = JSON.parse(stored);
+    if (!LAYOUT_MODES.includes(settings?.mode) || typeof settings.columns !== 'number') {
+      return null;
+    }
+    return { mode: settings.mode, columns: clampColumns(settings.columns) };
+  } catch (error) {
+    console.log('读取网格布局设置失败:', error);
+    return null;
+  }
+};
+
+/**
+ * 保存页面的布局设置
+ */
+export const saveGridLayout = async (screen: string, settings: GridLayoutSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(`${GRID_LAYOUT_KEY_PREFIX}${screen}`, JSON.stringify(settings));
+  } catch (error) {
+    console.log('保存网格布局设置失败:', error);
+  }
+};
@@ -0,0 +1,299 @@
+/**
+ * 图片磁盘缓存服务
+ * 将缩略图和原图下载到设备缓存目录，按各自的容量限制以LRU方式淘汰
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import {
+  LruEntry,
+  LruIndex,
+  addEntry,
+  getTotalSize,
+  removeEntries,
+  selectEvictions,
+  touchEntry,
+} from '../utils/lruCache';
+
+// 缩略图用于网格等小尺寸显示，原图用于详情和全屏查看
+export type ImageCacheKind = 'thumbnail' | 'original';
+
+export interface ImageCacheEntry extends LruEntry {
+  uri: string; // 本地文件地址
+}
+
+type ImageCacheIndexes = Record<ImageCacheKind, LruIndex<ImageCacheEntry>>;
+
+// 缓存索引存储key
+const INDEX_KEY = 'image_cache_index';
+// 缓存容量设置存储key
+const BUDGETS_KEY = 'image_cache_budgets';
+
+// 缓存目录（Web环境没有可用的文件系统，直接使用网络地址）
+const CACHE_DIR = FileSystem.cacheDirectory ? `${FileSystem.cacheDirectory}image-cache/` : null;
+
+// 默认容量（字节）
+export const DEFAULT_IMAGE_CACHE_BUDGETS: Record<ImageCacheKind, number> = {
+  thumbnail: 50 * 1024 * 1024,
+  original: 200 * 1024 * 1024,
+};
+
+// 可选的总容量（字节），其中五分之一用于缩略图
+export const IMAGE_CACHE_BUDGET_OPTIONS: number[] = [100, 250, 500, 1000].map(mb => mb * 1024 * 1024);
+
+// 索引变化后等待多久再写入
+const SAVE_DELAY = 1000;
+
+const emptyIndexes = (): ImageCacheIndexes => ({ thumbnail: {}, original: {} });
+
+let budgets = { ...DEFAULT_IMAGE_CACHE_BUDGETS };
+let indexes: ImageCacheIndexes | null = null;
+let loadingIndexes: Promise<ImageCacheIndexes> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+// 清除缓存后递增，丢弃清除前开始的下载结果
+let generation = 0;
+
+// 正在下载的图片，同一地址同时只下载一次
+const pendingDownloads = new Map<string, Promise<string>>();
+
+/**
+ * 根据图片地址生成缓存文件名（两个不同种子的32位哈希，保留扩展名）
+ */
+export const getCacheFileName = (url: string): string => {
+  const hash = (seed: number) => {
+    let h = seed;
+    for (let i = 0; i < url.length; i++) {
+      h = Math.imul(h ^ url.charCodeAt(i), 16777619);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+  };
+  const extension = url.split('?')[0].match(/\.(jpe?g|png|gif|webp|heic)$/i)?.[0] ?? '.jpg';
+  return `${hash(2166136261)}${hash(5381)}${extension.toLowerCase()}`;
+};
+
+/**
+ * 读取缓存索引（只读取一次）
+ * 等待期间索引可能已被其他操作修改，之后应通过 currentIndexes 取最新的索引
+ */
+const loadIndexes = (): Promise<ImageCacheIndexes> => {
+  if (indexes) return Promise.resolve(indexes);
+  if (!loadingIndexes) {
+    loadingIndexes = AsyncStorage.getItem(INDEX_KEY)
+      .then(stored => ({ ...emptyIndexes(), ...(stored ? JSON.parse(stored) : {}) }))
+      .catch(error => {
+        console.log('读取图片缓存索引失败:', error);
+        return emptyIndexes();
+      })
+      .then(loaded => {
+        // 读取期间已有变化（如清除缓存）时以内存中的为准
+        const current = indexes ?? loaded;
+        indexes = current;
+        loadingIndexes = null;
+        return current;
+      });
+  }
+  return loadingIndexes;
+};
+
+const currentIndexes = (): ImageCacheIndexes => indexes ?? emptyIndexes();
+
+/**
+ * 延迟保存缓存索引，短时间内的多次变化只保存一次
+ */
+const scheduleSave = (): void => {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    AsyncStorage.setItem(INDEX_KEY, JSON.stringify(indexes ?? emptyIndexes())).catch(error => {
+      console.log('保存图片缓存索引失败:', error);
+    });
+  }, SAVE_DELAY);
+};
+
+/**
+ * 删除缓存文件（失败时忽略）
+ */
+const deleteFiles = (uris: string[]): void => {
+  uris.forEach(uri => {
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(error => {
+      console.log('删除图片缓存文件失败:', error);
+    });
+  });
+};
+
+/**
+ * 淘汰超出容量的文件
+ * @param keep 刚加入的文件，尽量保留
+ */
+const evict = (kind: ImageCacheKind, keep?: string): void => {
+  if (!indexes) return;
+  const index = indexes[kind];
+  const evicted = selectEvictions(index, budgets[kind], keep);
+  if (evicted.length === 0) return;
+
+  deleteFiles(evicted.map(key => index[key].uri));
+  indexes = { ...indexes, [kind]: removeEntries(index, evicted) };
+};
+
+/**
+ * 下载图片并加入缓存
+ * @returns 本地文件地址，下载失败时返回原地址
+ */
+const downloadImage = async (url: string, kind: ImageCacheKind): Promise<string> => {
+  const startGeneration = generation;
+  const directory = `${CACHE_DIR}${kind}/`;
+  const target = `${directory}${getCacheFileName(url)}`;
+
+  try {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    const result = await FileSystem.downloadAsync(url, target);
+    if (result.status < 200 || result.status >= 300) {
+      deleteFiles([target]);
+      return url;
+    }
+    // 下载期间清除了缓存
+    if (startGeneration !== generation) {
+      deleteFiles([target]);
+      return url;
+    }
+
+    const info = await FileSystem.getInfoAsync(target);
+    const size = info.exists ? info.size : 0;
+    await loadIndexes();
+    const current = currentIndexes();
+    indexes = {
+      ...current,
+      [kind]: addEntry(current[kind], { key: url, uri: target, size, lastAccessed: Date.now() }),
+    };
+    evict(kind, url);
+    scheduleSave();
+    return indexes[kind][url] ? target : url;
+  } catch (error) {
+    console.log('下载图片缓存失败:', error);
+    return url;
+  }
+};
+
+/**
+ * 同步查询已缓存的本地地址（索引尚未读取或未缓存时返回null），用于首次渲染时避免闪烁
+ */
+export const peekCachedImage = (url: string, kind: ImageCacheKind): string | null =>
+  indexes?.[kind][url]?.uri ?? null;
+
+/**
+ * 获取图片的本地地址，未缓存时下载后返回
+ * @returns 本地文件地址，无法缓存时返回原地址
+ */
+export const getCachedImage = async (url: string, kind: ImageCacheKind): Promise<string> => {
+  if (!CACHE_DIR || !/^https?:\/\//.test(url)) {
+    return url;
+  }
+
+  await loadIndexes();
+  const current = currentIndexes();
+  if (current[kind][url]) {
+    indexes = { ...current, [kind]: touchEntry(current[kind], url, Date.now()) };
+    scheduleSave();
+    return current[kind][url].uri;
+  }
+
+  const pendingKey = `${kind}:${url}`;
+  let pending = pendingDownloads.get(pendingKey);
+  if (!pending) {
+    pending = downloadImage(url, kind).finally(() => {
+      pendingDownloads.delete(pendingKey);
+    });
+    pendingDownloads.set(pendingKey, pending);
+  }
+  return pending;
+};
+
+/**
+ * 移除一张缓存的图片（本地文件已损坏或被系统清理时）
+ */
+export const removeCachedImage = async (url: string, kind: ImageCacheKind): Promise<void> => {
+  await loadIndexes();
+  const current = currentIndexes();
+  const entry = current[kind][url];
+  if (!entry) return;
+  deleteFiles([entry.uri]);
+  indexes = { ...current, [kind]: removeEntries(current[kind], [url]) };
+  scheduleSave();
+};
+
+/**
+ * 应用启动时恢复上次设置的缓存容量
+ */
+export const restoreImageCacheBudgets = async (): Promise<void> => {
+  try {
+    const stored = await AsyncStorage.getItem(BUDGETS_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    (Object.keys(DEFAULT_IMAGE_CACHE_BUDGETS) as ImageCacheKind[]).forEach(kind => {
+      if (typeof parsed[kind] === 'number' && parsed[kind] > 0) {
+        budgets = { ...budgets, [kind]: parsed[kind] };
+      }
+    });
+  } catch (error) {
+    console.log('读取图片缓存容量失败:', error);
+  }
+};
+
+/**
+ * 当前各类图片缓存的容量
+ */
+export const getImageCacheBudgets = (): Record<ImageCacheKind, number> => budgets;
+
+/**
+ * 按总容量分配缩略图和原图的容量
+ */
+export const splitImageCacheBudget = (total: number): Record<ImageCacheKind, number> => {
+  const thumbnail = Math.round(total / 5);
+  return { thumbnail, original: total - thumbnail };
+};
+
+/**
+ * 修改各类图片缓存的容量并保存，超出新容量的部分立即淘汰
+ */
+export const configureImageCache = async (
+  changes: Partial<Record<ImageCacheKind, number>>
+): Promise<void> => {
+  budgets = { ...budgets, ...changes };
+  try {
+    await AsyncStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+  } catch (error) {
+    console.log('保存图片缓存容量失败:', error);
+  }
+  await loadIndexes();
+  (Object.keys(budgets) as ImageCacheKind[]).forEach(kind => evict(kind));
+  scheduleSave();
+};
+
+/**
+ * 获取图片缓存占用的空间（字节）
+ */
+export const getImageCacheSize = async (): Promise<number> => {
+  await loadIndexes();
+  const current = currentIndexes();
+  return getTotalSize(current.thumbnail) + getTotalSize(current.original);
+};
+
+/**
+ * 清除所有缓存的图片
+ */
+export const clearImageCache = async (): Promise<void> => {
+  generation += 1;
+  indexes = emptyIndexes();
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+
+  try {
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(indexes));
+    if (CACHE_DIR) {
+      await FileSystem.deleteAsync(CACHE_DIR, { idempotent: true });
+    }
+  } catch (error) {
+    console.log('清除图片缓存失败:', error);
+  }
+};
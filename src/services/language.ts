@@ -0,0 +1,74 @@
+/**
+ * 语言设置服务
+ * 负责检测系统语言以及用户所选语言的持久化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getLocales } from 'expo-localization';
+import { LanguagePreference, Locale } from '../types';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, setLocale } from '../i18n';
+
+// 语言设置存储key
+const LANGUAGE_KEY = 'app_language';
+
+let currentPreference: LanguagePreference = 'system';
+
+/**
+ * 根据系统语言选择支持的语言（中文使用简体中文，其他语言使用英文）
+ */
+export const detectDeviceLocale = (): Locale => {
+  try {
+    const [deviceLocale] = getLocales();
+    if (!deviceLocale) {
+      return DEFAULT_LOCALE;
+    }
+    const exact = SUPPORTED_LOCALES.find(locale => locale === deviceLocale.languageTag);
+    if (exact) {
+      return exact;
+    }
+    return deviceLocale.languageCode === 'zh' ? 'zh-CN' : 'en';
+  } catch (error) {
+    console.log('检测系统语言失败:', error);
+    return DEFAULT_LOCALE;
+  }
+};
+
+/**
+ * 得到语言设置实际使用的语言
+ */
+export const resolveLocale = (preference: LanguagePreference): Locale =>
+  preference === 'system' ? detectDeviceLocale() : preference;
+
+/**
+ * 当前的语言设置
+ */
+export const getLanguagePreference = (): LanguagePreference => currentPreference;
+
+/**
+ * 应用启动时恢复上次选择的语言
+ */
+export const restoreLanguage = async (): Promise<LanguagePreference> => {
+  try {
+    const stored = await AsyncStorage.getItem(LANGUAGE_KEY);
+    if (stored === 'system' || SUPPORTED_LOCALES.includes(stored as Locale)) {
+      currentPreference = stored as LanguagePreference;
+    }
+  } catch (error) {
+    console.log('读取语言设置失败:', error);
+  }
+  setLocale(resolveLocale(currentPreference));
+  return currentPreference;
+};
+
+/**
+ * 切换语言并保存
+ */
+export const changeLanguage = async (preference: LanguagePreference): Promise<void> => {
+  currentPreference = preference;
+  setLocale(resolveLocale(preference));
+  try {
+    await AsyncStorage.setItem(LANGUAGE_KEY, preference);
+  } catch (error) {
+    console.log('保存语言设置失败:', error);
+  }
+};
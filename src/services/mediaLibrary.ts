@@ -0,0 +1,63 @@
+/**
+ * 相册服务
+ * 将图片原图下载到设备后保存到系统相册
+ */
+
+import * as MediaLibrary from 'expo-media-library';
+import { Platform } from 'react-native';
+import { BatchImageFailure, BatchImageResult, Image } from '../types';
+import { runWithConcurrency } from '../utils';
+import { createApiError, toApiError } from '../utils/errorHandling';
+import { t } from '../i18n';
+import { getCachedImage } from './imageCache';
+
+// 同时下载保存的图片数量
+const SAVE_CONCURRENCY = 2;
+
+/**
+ * 是否可以保存到相册（Web端没有系统相册）
+ */
+export const isMediaLibraryAvailable = (): boolean => Platform.OS !== 'web';
+
+/**
+ * 请求保存到相册的权限
+ */
+export const requestMediaLibraryPermission = async (): Promise<boolean> => {
+  try {
+    const { granted } = await MediaLibrary.requestPermissionsAsync(true, ['photo']);
+    return granted;
+  } catch (error) {
+    console.log('请求相册权限失败:', error);
+    return false;
+  }
+};
+
+/**
+ * 下载图片原图并保存到相册，逐张记录成功和失败
+ */
+export const saveImagesToLibrary = async (images: Image[]): Promise<BatchImageResult> => {
+  const succeeded = new Set<number>();
+  const failed: BatchImageFailure[] = [];
+
+  await runWithConcurrency(images, SAVE_CONCURRENCY, async image => {
+    try {
+      // 已缓存的原图直接使用，否则先下载到缓存目录
+      const localUri = await getCachedImage(image.image, 'original');
+      if (!localUri.startsWith('file:')) {
+        throw createApiError(t('batch.downloadFailed'), { code: 'NETWORK_ERROR' });
+      }
+      await MediaLibrary.saveToLibraryAsync(localUri);
+      succeeded.add(image.id);
+    } catch (error) {
+      failed.push({ id: image.id, error: toApiError(error, t('batch.downloadFailed')) });
+    }
+  });
+
+  // 按选择的顺序返回
+  return {
+    succeeded: images.filter(image => succeeded.has(image.id)).map(image => image.id),
+    failed: images
+      .map(image => failed.find(failure => failure.id === image.id))
+      .filter((failure): failure is BatchImageFailure => !!failure),
+  };
+};
@@ -0,0 +1,42 @@
+/**
+ * 服务器配置
+ * 从Expo配置（app.json的extra或环境变量）读取默认服务器地址和预设服务器列表
+ */
+
+import Constants from 'expo-constants';
+import { ServerPreset } from '../types';
+
+interface ServerConfigExtra {
+  apiBaseUrl?: string;
+  servers?: ServerPreset[];
+}
+
+const extra = (Constants.expoConfig?.extra ?? {}) as ServerConfigExtra;
+
+/**
+ * 规范化服务器地址：补全协议，去掉末尾的斜杠和/api前缀
+ */
+export const normalizeServerUrl = (url: string): string => {
+  let normalized = url.trim().replace(/\/+$/, '').replace(/\/api$/i, '');
+  if (normalized && !/^https?:\/\//i.test(normalized)) {
+    normalized = `http://${normalized}`;
+  }
+  return normalized;
+};
+
+/**
+ * 验证服务器地址格式
+ */
+export const isValidServerUrl = (url: string): boolean => {
+  return /^https?:\/\/[^\s/?#]+(\/[^\s?#]*)?$/i.test(url);
+};
+
+// 默认服务器，环境变量 EXPO_PUBLIC_API_BASE_URL 优先于 app.json 中的配置
+export const DEFAULT_SERVER_URL = normalizeServerUrl(
+  process.env.EXPO_PUBLIC_API_BASE_URL || extra.apiBaseUrl || 'http://127.0.0.1:8000'
+);
+
+// 登录页可以直接选择的服务器
+export const SERVER_PRESETS: ServerPreset[] = (extra.servers ?? [])
+  .filter(server => !!server.url)
+  .map(server => ({ name: server.name, url: normalizeServerUrl(server.url) }));
@@ -0,0 +1,146 @@
+/**
+ * 离线上传队列服务
+ * 负责队列的持久化、待上传文件的保存以及网络/前后台状态监听
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as FileSystem from 'expo-file-system';
+import { AppState } from 'react-native';
+import { ApiError, ImageUploadFile, QueuedUpload } from '../types';
+
+// 队列存储key
+const QUEUE_KEY = 'upload_queue';
+
+// 待上传文件的保存目录（相册/相机返回的缓存文件可能被系统清理）
+const QUEUE_DIR = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}upload-queue/`
+  : null;
+
+// 重试退避配置
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * 计算第 attempts 次失败后的重试等待时间（指数退避，带少量随机抖动）
+ */
+export const getRetryDelay = (attempts: number): number => {
+  const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * 判断上传错误是否为暂时性错误（网络问题、服务器错误等），暂时性错误会自动重试
+ */
+export const isTransientError = (error: ApiError): boolean =>
+  // 401表示会话失效，重新登录后仍可继续上传
+  error.retryable || error.status === 401;
+
+/**
+ * 从设备存储读取上传队列
+ */
+export const loadQueue = async (): Promise<QueuedUpload[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.log('读取上传队列失败:', error);
+    return [];
+  }
+};
+
+/**
+ * 保存上传队列到设备存储
+ */
+export const saveQueue = async (items: QueuedUpload[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.log('保存上传队列失败:', error);
+  }
+};
+
+/**
+ * 将选择的文件复制到应用私有目录，保证应用重启后仍可上传
+ */
+export const persistUploadFile = async (id: string, file: ImageUploadFile): Promise<ImageUploadFile> => {
+  if (!QUEUE_DIR) {
+    // Web环境没有可用的文件系统，直接使用原始URI
+    return file;
+  }
+
+  try {
+    await FileSystem.makeDirectoryAsync(QUEUE_DIR, { intermediates: true });
+    const target = `${QUEUE_DIR}${id}_${file.name}`;
+    await FileSystem.copyAsync({ from: file.uri, to: target });
+    return { ...file, uri: target };
+  } catch (error) {
+    console.log('保存待上传文件失败:', error);
+    return file;
+  }
+};
+
+/**
+ * 删除队列保存的文件副本
+ */
+export const removeUploadFile = async (file: ImageUploadFile): Promise<void> => {
+  if (!QUEUE_DIR || !file.uri.startsWith(QUEUE_DIR)) {
+    return;
+  }
+
+  try {
+    await FileSystem.deleteAsync(file.uri, { idempotent: true });
+  } catch (error) {
+    console.log('删除待上传文件失败:', error);
+  }
+};
+
+// 重试定时器
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * 在指定时间后执行一次队列处理（只保留最近的一次）
+ */
+export const scheduleQueueRetry = (delay: number, run: () => void): void => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+  }
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    run();
+  }, Math.max(delay, 0));
+};
+
+/**
+ * 取消已安排的队列处理
+ */
+export const cancelQueueRetry = (): void => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+};
+
+/**
+ * 监听网络恢复和应用回到前台，返回取消监听的函数
+ */
+export const subscribeQueueTriggers = (
+  onNetworkChange: (isOnline: boolean) => void,
+  onForeground: () => void
+): (() => void) => {
+  const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+    onNetworkChange(state.isConnected !== false && state.isInternetReachable !== false);
+  });
+
+  const appStateSubscription = AppState.addEventListener('change', nextState => {
+    if (nextState === 'active') {
+      onForeground();
+    }
+  });
+
+  return () => {
+    unsubscribeNetInfo();
+    appStateSubscription.remove();
+    cancelQueueRetry();
+  };
+};
@@ -7,6 +7,8 @@ import { configureStore } from '@reduxjs/toolkit';
 import authSlice from './slices/authSlice';
 import imagesSlice from './slices/imagesSlice';
 import groupsSlice from './slices/groupsSlice';
+import uploadQueueSlice from './slices/uploadQueueSlice';
+import appLockSlice from './slices/appLockSlice';
 
 // 配置store
 export const store = configureStore({
@@ -14,6 +16,8 @@ export const store = configureStore({
     auth: authSlice,
     images: imagesSlice,
     groups: groupsSlice,
+    uploadQueue: uploadQueueSlice,
+    appLock: appLockSlice,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
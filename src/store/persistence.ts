@@ -0,0 +1,77 @@
+/**
+ * 离线缓存的持久化
+ * 从store中选出需要保存到设备上的数据
+ */
+
+import { createSelector } from '@reduxjs/toolkit';
+import { AuthState, GroupsState, Image, ImageListState, ImagesState, PersistedCache } from '../types';
+import { CACHE_VERSION } from '../services/cache';
+
+type PersistableState = { auth: AuthState; images: ImagesState; groups: GroupsState };
+
+// 只缓存所有图片、我的图片和分组列表，搜索和筛选结果不缓存
+const PERSISTED_LIST_KEY = /^(all|mine|group:\d+)$/;
+
+/**
+ * 列表只保存第一页，避免滚动加载很多页后缓存超出设备存储单项的大小限制
+ * 恢复后从第一页之后继续加载
+ */
+const toPersistedList = (list: ImageListState): ImageListState => {
+  // 第一页之后没有更多时，超出的只是之后上传的图片
+  if (list.ids.length <= list.firstPageSize || list.firstPageNextParams === null) {
+    return { ...list, isLoadingMore: false };
+  }
+  return {
+    ...list,
+    ids: list.ids.slice(0, list.firstPageSize),
+    nextParams: list.firstPageNextParams,
+    isLoadingMore: false,
+  };
+};
+
+/**
+ * 当前账户需要保存的离线缓存，数据未变化时返回同一个对象
+ * 未登录或还没有从服务器获取过数据时返回null，避免用空数据覆盖已有的缓存
+ */
+export const selectPersistedCache = createSelector(
+  [
+    (state: PersistableState) => state.auth.activeAccountId,
+    (state: PersistableState) => state.auth.user,
+    (state: PersistableState) => state.images.entities,
+    (state: PersistableState) => state.images.lists,
+    (state: PersistableState) => state.groups.groups,
+    (state: PersistableState) => state.groups.updatedAt,
+  ],
+  (accountId, user, entities, lists, groups, groupsUpdatedAt) => {
+    if (!accountId || !user) return null;
+
+    const imageLists: Record<string, ImageListState> = {};
+    const images = new Map<number, Image>();
+    Object.entries(lists).forEach(([key, list]) => {
+      if (!PERSISTED_LIST_KEY.test(key) || list.updatedAt === null) return;
+      const persisted = toPersistedList(list);
+      imageLists[key] = persisted;
+      persisted.ids.forEach(id => {
+        const image = entities[id];
+        if (image) {
+          images.set(id, image);
+        }
+      });
+    });
+
+    if (Object.keys(imageLists).length === 0 && groupsUpdatedAt === null) {
+      return null;
+    }
+
+    const cache: PersistedCache = {
+      version: CACHE_VERSION,
+      savedAt: 0, // 写入设备存储时填写
+      user,
+      images: Array.from(images.values()),
+      imageLists,
+      groups,
+      groupsUpdatedAt,
+    };
+    return { accountId, cache };
+  }
+);
@@ -0,0 +1,148 @@
+/**
+ * 应用锁状态管理
+ * 冷启动和在后台停留一段时间后要求生物识别或设备密码验证
+ */
+
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import { ApiError, AppLockSettings, AppLockState } from '../../types';
+import {
+  loadAppLockSettings,
+  saveAppLockSettings,
+  isAppLockAvailable,
+  authenticateDevice,
+} from '../../services/appLock';
+import {
+  DEFAULT_APP_LOCK_SETTINGS,
+  INITIAL_APP_LOCK_STATUS,
+  getLaunchStatus,
+  handleBackground,
+  handleForeground,
+  handleUnlockSuccess,
+  handleUnlockFailure,
+  getLockoutRemaining,
+  isCountedFailure,
+} from '../../utils/appLock';
+import { loginUser } from './authSlice';
+import { createApiError } from '../../utils/errorHandling';
+import { t } from '../../i18n';
+
+type AppLockRootState = { appLock: AppLockState };
+
+// 初始状态
+const initialState: AppLockState = {
+  ...INITIAL_APP_LOCK_STATUS,
+  settings: DEFAULT_APP_LOCK_SETTINGS,
+  isRestored: false,
+  isAuthenticating: false,
+};
+
+// 异步action：从设备存储恢复应用锁设置
+export const restoreAppLock = createAsyncThunk<AppLockSettings, void>(
+  'appLock/restore',
+  async () => loadAppLockSettings()
+);
+
+// 异步action：验证身份解锁应用
+export const unlockApp = createAsyncThunk<
+  { success: boolean; error?: string; now: number },
+  void,
+  { state: AppLockRootState }
+>(
+  'appLock/unlock',
+  async () => {
+    const result = await authenticateDevice(t('appLock.unlockPrompt'));
+    return { ...result, now: Date.now() };
+  },
+  {
+    // 正在验证或处于禁止解锁时间内时不再发起验证
+    condition: (_, { getState }) => {
+      const { appLock } = getState();
+      return !appLock.isAuthenticating && getLockoutRemaining(appLock, Date.now()) === 0;
+    },
+  }
+);
+
+// 异步action：修改应用锁设置（开启前需要验证一次身份）
+export const updateAppLockSettings = createAsyncThunk<
+  AppLockSettings,
+  Partial<AppLockSettings>,
+  { state: AppLockRootState; rejectValue: ApiError }
+>(
+  'appLock/updateSettings',
+  async (changes, { getState, rejectWithValue }) => {
+    const current = getState().appLock.settings;
+    const settings = { ...current, ...changes };
+
+    if (settings.enabled && !current.enabled) {
+      if (!(await isAppLockAvailable())) {
+        return rejectWithValue(createApiError(t('appLock.unavailable')));
+      }
+      const result = await authenticateDevice(t('appLock.enablePrompt'));
+      if (!result.success) {
+        return rejectWithValue(createApiError(t('appLock.enableFailed')));
+      }
+    }
+
+    await saveAppLockSettings(settings);
+    return settings;
+  }
+);
+
+// 创建slice
+const appLockSlice = createSlice({
+  name: 'appLock',
+  initialState,
+  reducers: {
+    // 应用进入后台，参数为当前时间
+    appBackgrounded: (state, action: PayloadAction<number>) => {
+      Object.assign(state, handleBackground(state, action.payload));
+    },
+    // 应用回到前台，参数为当前时间
+    appForegrounded: (state, action: PayloadAction<number>) => {
+      Object.assign(state, handleForeground(state.settings, state, action.payload));
+    },
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(restoreAppLock.fulfilled, (state, action) => {
+        Object.assign(state, getLaunchStatus(action.payload));
+        state.settings = action.payload;
+        state.isRestored = true;
+      })
+      .addCase(unlockApp.pending, (state) => {
+        state.isAuthenticating = true;
+      })
+      .addCase(unlockApp.fulfilled, (state, action) => {
+        const { success, error, now } = action.payload;
+        state.isAuthenticating = false;
+        if (success) {
+          Object.assign(state, handleUnlockSuccess(state, now));
+        } else if (isCountedFailure(error)) {
+          Object.assign(state, handleUnlockFailure(state, now));
+        }
+      })
+      .addCase(unlockApp.rejected, (state) => {
+        state.isAuthenticating = false;
+      })
+      .addCase(updateAppLockSettings.fulfilled, (state, action) => {
+        state.settings = action.payload;
+      })
+      // 用密码重新登录后无需再解锁
+      .addCase(loginUser.fulfilled, (state) => {
+        state.isLocked = false;
+        state.failedAttempts = 0;
+        state.lockedOutUntil = null;
+      });
+  },
+});
+
+// 导出actions
+export const { appBackgrounded, appForegrounded } = appLockSlice.actions;
+
+// 导出reducer
+export default appLockSlice.reducer;
+
+// 选择器
+export const selectAppLock = (state: AppLockRootState) => state.appLock;
+export const selectAppLockSettings = (state: AppLockRootState) => state.appLock.settings;
+export const selectIsAppLocked = (state: AppLockRootState) => state.appLock.isLocked;
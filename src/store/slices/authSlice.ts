@@ -3,27 +3,67 @@
  * 处理用户登录、登出和认证状态
  */
 
-import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import { AuthState, User, AuthTokens, LoginCredentials, ApiError } from '../../types';
-import { authApi } from '../../services/api';
+import { createSlice, createAsyncThunk, createAction, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+import {
+  AuthState,
+  User,
+  AuthTokens,
+  LoginCredentials,
+  ApiError,
+  Account,
+  AccountSession,
+  ProfileUpdateData,
+  PersistedCache,
+} from '../../types';
+import { authApi, accountsApi } from '../../services/api';
+import { loadCache } from '../../services/cache';
+import { createApiError, parseLoginError, toApiError } from '../../utils/errorHandling';
+import { t } from '../../i18n';
 
 // 初始状态
 const initialState: AuthState = {
   user: null,
   tokens: null,
+  accounts: [],
+  activeAccountId: null,
   isAuthenticated: false,
   isLoading: false,
   error: null,
 };
 
-// 异步action：用户登录
+// 读取账户列表，组成操作完成后的账户状态
+const buildSession = async (user: User | null): Promise<AccountSession> => ({
+  user,
+  accounts: await accountsApi.getAccounts(),
+  activeAccountId: accountsApi.getActiveAccountId(),
+});
+
+// 从设备存储恢复离线缓存，图片和分组只补充还没有的数据
+export const cacheRestored = createAction<PersistedCache>('auth/cacheRestored');
+
+// 异步action：恢复当前账户的离线缓存
+export const restoreCache = createAsyncThunk<PersistedCache | null, void>(
+  'auth/restoreCache',
+  async (_, { dispatch }) => {
+    const accountId = accountsApi.getActiveAccountId();
+    if (!accountId) return null;
+    const cache = await loadCache(accountId);
+    // 读取期间切换了账户时丢弃
+    if (!cache || accountsApi.getActiveAccountId() !== accountId) return null;
+    dispatch(cacheRestored(cache));
+    return cache;
+  }
+);
+
+// 异步action：用户登录（已登录其他账户时作为新账户添加）
 export const loginUser = createAsyncThunk<
-  { tokens: AuthTokens; user: User },
+  AccountSession & { tokens: AuthTokens },
   LoginCredentials,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'auth/login',
   async (credentials, { rejectWithValue }) => {
+    const previousAccountId = accountsApi.getActiveAccountId();
     try {
       console.log('开始登录请求:', credentials);
       
@@ -31,34 +71,29 @@ export const loginUser = createAsyncThunk<
       const loginResponse = await authApi.login(credentials);
       console.log('登录API响应成功:', loginResponse);
       
-      // 获取用户信息
-      const userResponse = await authApi.getCurrentUser();
+      // 获取用户信息，失败时撤销刚添加的账户
+      let userResponse;
+      try {
+        userResponse = await authApi.getCurrentUser();
+      } catch (error) {
+        await authApi.logout();
+        if (previousAccountId) {
+          await accountsApi.activateAccount(previousAccountId);
+        }
+        throw error;
+      }
       console.log('获取用户信息成功:', userResponse);
       
       return {
+        ...(await buildSession(userResponse.data)),
         tokens: loginResponse.data,
-        user: userResponse.data,
       };
     } catch (error) {
       console.error('登录失败详情:', error);
-      const apiError = error as ApiError;
+      const apiError = toApiError(error);
       
-      // 根据不同的错误类型返回更具体的错误信息
-      let errorMessage = apiError.message;
-      
-      if (apiError.status === 401) {
-        errorMessage = '用户名或密码错误，请检查后重试';
-      } else if (apiError.status === 400) {
-        errorMessage = '请求格式错误，请检查输入信息';
-      } else if (apiError.status === 429) {
-        errorMessage = '登录尝试过于频繁，请稍后再试';
-      } else if (apiError.status === 500) {
-        errorMessage = '服务器内部错误，请稍后重试';
-      } else if (apiError.code === 'NETWORK_ERROR') {
-        errorMessage = '网络连接失败，请检查网络设置';
-      }
-      
-      return rejectWithValue(errorMessage);
+      // 根据错误码返回更具体的错误信息，字段错误仍随ApiError返回
+      return rejectWithValue({ ...apiError, message: parseLoginError(apiError).message });
     }
   }
 );
@@ -67,7 +102,7 @@ export const loginUser = createAsyncThunk<
 export const getCurrentUser = createAsyncThunk<
   User,
   void,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'auth/getCurrentUser',
   async (_, { rejectWithValue }) => {
@@ -75,44 +110,152 @@ export const getCurrentUser = createAsyncThunk<
       const response = await authApi.getCurrentUser();
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      return rejectWithValue(apiError.message);
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：修改个人资料（乐观更新，失败时回滚）
+export const updateProfile = createAsyncThunk<
+  User,
+  ProfileUpdateData,
+  { state: { auth: AuthState }; rejectValue: ApiError }
+>(
+  'auth/updateProfile',
+  async (data, { getState, dispatch, rejectWithValue }) => {
+    // 先保存原始数据再立即应用修改（pending action在此之前已经派发，不能在pending reducer中修改）
+    const previous = getState().auth.user;
+    dispatch(authSlice.actions.userChangesApplied(data));
+    try {
+      const response = await authApi.updateProfile(data);
+      return response.data;
+    } catch (error) {
+      if (previous) {
+        dispatch(authSlice.actions.userRestored(previous));
+      }
+      return rejectWithValue(toApiError(error));
     }
   }
 );
 
 // 异步action：检查认证状态
 export const checkAuthStatus = createAsyncThunk<
-  User | null,
+  AccountSession,
   void,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'auth/checkAuthStatus',
-  async (_, { rejectWithValue }) => {
+  async (_, { dispatch }) => {
     try {
+      // 恢复上次使用的账户（同时切换到该账户的服务器）
+      const account = await accountsApi.restoreActiveAccount();
+      // 没有token或refresh token已过期时直接视为未登录，不发起请求
       const hasToken = await authApi.hasValidToken();
       if (!hasToken) {
-        return null;
+        if (account) {
+          await authApi.logout();
+        }
+        return buildSession(null);
+      }
+
+      // 有缓存的用户信息时先显示缓存，在后台从服务器更新（离线时也能进入应用）
+      if (account) {
+        const cache = await dispatch(restoreCache()).unwrap();
+        if (cache?.user) {
+          dispatch(getCurrentUser());
+          return buildSession(cache.user);
+        }
       }
       
       const response = await authApi.getCurrentUser();
-      return response.data;
+      // 旧版本只保存了一组token，迁移为账户
+      if (!account) {
+        await accountsApi.adoptLegacyTokens(response.data.username);
+      }
+      return buildSession(response.data);
     } catch (error) {
-      // Token无效，清除存储
-      await authApi.logout();
-      return null;
+      // Token无效时移除该账户；网络错误等临时失败保留账户，恢复后可以再次登录
+      if (toApiError(error).code === 'AUTHENTICATION_FAILED') {
+        await authApi.logout();
+      }
+      return buildSession(null);
     }
   }
 );
 
-// 异步action：用户登出
-export const logoutUser = createAsyncThunk<void, void>(
+// 异步action：切换到另一个已登录的账户
+export const switchAccount = createAsyncThunk<
+  AccountSession,
+  string,
+  { rejectValue: ApiError }
+>(
+  'auth/switchAccount',
+  async (accountId, { rejectWithValue }) => {
+    const previousAccountId = accountsApi.getActiveAccountId();
+    try {
+      await accountsApi.activateAccount(accountId);
+      // refresh token已过期时不必请求服务器
+      if (!(await authApi.hasValidToken())) {
+        throw createApiError(t('account.sessionExpired'), { status: 401 });
+      }
+      const response = await authApi.getCurrentUser();
+      return buildSession(response.data);
+    } catch (error) {
+      // 切换失败时回到原来的账户
+      if (previousAccountId) {
+        await accountsApi.activateAccount(previousAccountId);
+      }
+      const apiError = toApiError(error);
+      return rejectWithValue(
+        apiError.status === 401
+          ? { ...apiError, message: t('account.switchExpired') }
+          : apiError
+      );
+    }
+  }
+);
+
+// 异步action：移除一个未在使用的账户
+export const removeAccount = createAsyncThunk<Account[], string>(
+  'auth/removeAccount',
+  async (accountId) => {
+    await accountsApi.removeAccount(accountId);
+    return accountsApi.getAccounts();
+  }
+);
+
+// 异步action：用户登出（退出当前账户，还有其他账户时切换到其中一个）
+export const logoutUser = createAsyncThunk<AccountSession, void>(
   'auth/logout',
   async () => {
     await authApi.logout();
+
+    for (const account of await accountsApi.getAccounts()) {
+      try {
+        await accountsApi.activateAccount(account.id);
+        if (!(await authApi.hasValidToken())) {
+          continue;
+        }
+        const response = await authApi.getCurrentUser();
+        return buildSession(response.data);
+      } catch (error) {
+        console.log('切换到其他账户失败:', error);
+      }
+    }
+
+    await accountsApi.clearActiveAccount();
+    return buildSession(null);
   }
 );
 
+// 应用账户状态，没有用户信息时视为未登录
+const applySession = (state: AuthState, session: AccountSession) => {
+  state.user = session.user;
+  state.accounts = session.accounts;
+  state.activeAccountId = session.user ? session.activeAccountId : null;
+  state.isAuthenticated = !!session.user;
+};
+
 // 创建slice
 const authSlice = createSlice({
   name: 'auth',
@@ -122,13 +265,28 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
-    // 清除认证状态（用于登出）
+    // 清除认证状态（用于登出和登录失效）
     clearAuth: (state) => {
       state.user = null;
       state.tokens = null;
+      state.activeAccountId = null;
       state.isAuthenticated = false;
       state.error = null;
     },
+    // 乐观更新个人资料（新头像先显示本地图片）
+    userChangesApplied: (state, action: PayloadAction<ProfileUpdateData>) => {
+      if (state.user) {
+        const { avatar, ...fields } = action.payload;
+        Object.assign(state.user, fields);
+        if (avatar) {
+          state.user.avatar = avatar.uri;
+        }
+      }
+    },
+    // 修改个人资料失败时恢复原来的用户信息
+    userRestored: (state, action: PayloadAction<User>) => {
+      state.user = action.payload;
+    },
   },
   extraReducers: (builder) => {
     // 处理登录
@@ -141,12 +299,14 @@ const authSlice = createSlice({
         state.isLoading = false;
         state.user = action.payload.user;
         state.tokens = action.payload.tokens;
+        state.accounts = action.payload.accounts;
+        state.activeAccountId = action.payload.activeAccountId;
         state.isAuthenticated = true;
         state.error = null;
       })
       .addCase(loginUser.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '登录失败';
+        state.error = action.payload?.message || t('auth.loginFailed');
         state.isAuthenticated = false;
       });
 
@@ -162,7 +322,7 @@ const authSlice = createSlice({
       })
       .addCase(getCurrentUser.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '获取用户信息失败';
+        state.error = action.payload?.message || t('auth.fetchUserFailed');
       });
 
     // 处理检查认证状态
@@ -172,13 +332,7 @@ const authSlice = createSlice({
       })
       .addCase(checkAuthStatus.fulfilled, (state, action) => {
         state.isLoading = false;
-        if (action.payload) {
-          state.user = action.payload;
-          state.isAuthenticated = true;
-        } else {
-          state.user = null;
-          state.isAuthenticated = false;
-        }
+        applySession(state, action.payload);
       })
       .addCase(checkAuthStatus.rejected, (state) => {
         state.isLoading = false;
@@ -186,14 +340,40 @@ const authSlice = createSlice({
         state.isAuthenticated = false;
       });
 
+    // 处理切换和移除账户
+    builder
+      .addCase(switchAccount.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(switchAccount.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.tokens = null;
+        applySession(state, action.payload);
+      })
+      .addCase(switchAccount.rejected, (state) => {
+        state.isLoading = false;
+      })
+      .addCase(removeAccount.fulfilled, (state, action) => {
+        state.accounts = action.payload;
+      });
+
     // 处理登出
     builder
-      .addCase(logoutUser.fulfilled, (state) => {
+      .addCase(logoutUser.fulfilled, (state, action) => {
         console.log('logoutUser.fulfilled reducer executed'); // 添加日志
-        state.user = null;
         state.tokens = null;
-        state.isAuthenticated = false;
         state.error = null;
+        applySession(state, action.payload);
+      });
+
+    // 处理修改个人资料：成功后以服务器返回的数据为准
+    builder
+      .addCase(updateProfile.fulfilled, (state, action) => {
+        // 请求期间切换了账户时忽略
+        if (state.user?.id === action.payload.id) {
+          state.user = action.payload;
+        }
       });
   },
 });
@@ -204,9 +384,19 @@ export const { clearError, clearAuth } = authSlice.actions;
 // 导出reducer
 export default authSlice.reducer;
 
+// 当前身份发生变化（登录、切换账户、登出、登录失效），图片和分组等缓存需要清空
+export const isAccountChanged = isAnyOf(
+  loginUser.fulfilled,
+  switchAccount.fulfilled,
+  logoutUser.fulfilled,
+  clearAuth
+);
+
 // 选择器
 export const selectAuth = (state: { auth: AuthState }) => state.auth;
 export const selectUser = (state: { auth: AuthState }) => state.auth.user;
 export const selectIsAuthenticated = (state: { auth: AuthState }) => state.auth.isAuthenticated;
 export const selectAuthLoading = (state: { auth: AuthState }) => state.auth.isLoading;
 export const selectAuthError = (state: { auth: AuthState }) => state.auth.error;
+export const selectAccounts = (state: { auth: AuthState }) => state.auth.accounts;
+export const selectActiveAccountId = (state: { auth: AuthState }) => state.auth.activeAccountId;
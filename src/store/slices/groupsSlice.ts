@@ -4,12 +4,16 @@
  */
 
 import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { GroupsState, Group, ApiError } from '../../types';
+import { GroupsState, Group, ApiError, GroupFormData, GroupImagesChange } from '../../types';
 import { groupsApi } from '../../services/api';
+import { toApiError } from '../../utils/errorHandling';
+import { t } from '../../i18n';
+import { cacheRestored, isAccountChanged } from './authSlice';
 
 // 初始状态
 const initialState: GroupsState = {
   groups: [],
+  updatedAt: null,
   isLoading: false,
   error: null,
 };
@@ -18,7 +22,7 @@ const initialState: GroupsState = {
 export const fetchGroups = createAsyncThunk<
   Group[],
   void,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'groups/fetchGroups',
   async (_, { rejectWithValue }) => {
@@ -26,8 +30,7 @@ export const fetchGroups = createAsyncThunk<
       const response = await groupsApi.getGroups();
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      return rejectWithValue(apiError.message);
+      return rejectWithValue(toApiError(error));
     }
   }
 );
@@ -36,7 +39,7 @@ export const fetchGroups = createAsyncThunk<
 export const fetchGroupById = createAsyncThunk<
   Group,
   number,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'groups/fetchGroupById',
   async (groupId, { rejectWithValue }) => {
@@ -44,8 +47,74 @@ export const fetchGroupById = createAsyncThunk<
       const response = await groupsApi.getGroup(groupId);
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      return rejectWithValue(apiError.message);
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：创建分组
+export const createGroup = createAsyncThunk<
+  Group,
+  GroupFormData,
+  { rejectValue: ApiError }
+>(
+  'groups/createGroup',
+  async (data, { rejectWithValue }) => {
+    try {
+      const response = await groupsApi.createGroup(data);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：更新分组信息
+export const updateGroup = createAsyncThunk<
+  Group,
+  { id: number; changes: Partial<GroupFormData> },
+  { rejectValue: ApiError }
+>(
+  'groups/updateGroup',
+  async ({ id, changes }, { rejectWithValue }) => {
+    try {
+      const response = await groupsApi.updateGroup(id, changes);
+      return response.data;
+    } catch (error) {
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：删除分组
+export const deleteGroup = createAsyncThunk<
+  number,
+  number,
+  { rejectValue: ApiError }
+>(
+  'groups/deleteGroup',
+  async (groupId, { rejectWithValue }) => {
+    try {
+      await groupsApi.deleteGroup(groupId);
+      return groupId;
+    } catch (error) {
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：向分组添加或移除图片（imagesSlice会同步更新图片的groups）
+export const updateGroupImages = createAsyncThunk<
+  void,
+  { groupId: number } & GroupImagesChange,
+  { rejectValue: ApiError }
+>(
+  'groups/updateGroupImages',
+  async ({ groupId, add, remove }, { rejectWithValue }) => {
+    try {
+      await groupsApi.updateGroupImages(groupId, { add, remove });
+    } catch (error) {
+      return rejectWithValue(toApiError(error));
     }
   }
 );
@@ -70,11 +139,12 @@ const groupsSlice = createSlice({
       .addCase(fetchGroups.fulfilled, (state, action) => {
         state.isLoading = false;
         state.groups = action.payload;
+        state.updatedAt = Date.now();
         state.error = null;
       })
       .addCase(fetchGroups.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '获取分组列表失败';
+        state.error = action.payload?.message || t('groups.fetchFailed');
       });
 
     // 处理获取分组详情
@@ -99,8 +169,46 @@ const groupsSlice = createSlice({
       })
       .addCase(fetchGroupById.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '获取分组详情失败';
+        state.error = action.payload?.message || t('groups.fetchDetailFailed');
       });
+
+    // 处理创建、更新和删除分组（保存状态由页面自行管理，不影响列表的isLoading）
+    builder
+      .addCase(createGroup.fulfilled, (state, action) => {
+        state.groups.push(action.payload);
+      })
+      .addCase(createGroup.rejected, (state, action) => {
+        state.error = action.payload?.message || t('groups.createFailed');
+      })
+      .addCase(updateGroup.fulfilled, (state, action) => {
+        const index = state.groups.findIndex(group => group.id === action.payload.id);
+        if (index !== -1) {
+          state.groups[index] = action.payload;
+        }
+      })
+      .addCase(updateGroup.rejected, (state, action) => {
+        state.error = action.payload?.message || t('groups.updateFailed');
+      })
+      .addCase(deleteGroup.fulfilled, (state, action) => {
+        state.groups = state.groups.filter(group => group.id !== action.payload);
+      })
+      .addCase(deleteGroup.rejected, (state, action) => {
+        state.error = action.payload?.message || t('groups.deleteFailed');
+      })
+      .addCase(updateGroupImages.rejected, (state, action) => {
+        state.error = action.payload?.message || t('groups.updateImagesFailed');
+      });
+
+    // 恢复离线缓存，已从服务器获取过分组列表时不覆盖
+    builder.addCase(cacheRestored, (state, action) => {
+      if (state.updatedAt === null) {
+        state.groups = action.payload.groups;
+        state.updatedAt = action.payload.groupsUpdatedAt;
+      }
+    });
+
+    // 切换身份后清空缓存，避免显示上一个账户的数据
+    builder.addMatcher(isAccountChanged, () => initialState);
   },
 });
 
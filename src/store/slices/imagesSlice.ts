@@ -1,46 +1,195 @@
 /**
  * 图片状态管理
  * 处理图片列表、详情等相关状态
+ *
+ * 图片数据只在实体表中保存一份，各个列表（所有图片、我的图片、分组、搜索结果）
+ * 只保存有序的图片ID，修改一张图片后所有列表都会看到最新数据。
  */
 
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { ImagesState, Image, ApiError } from '../../types';
+import {
+  createSlice,
+  createAsyncThunk,
+  createEntityAdapter,
+  createSelector,
+  PayloadAction,
+} from '@reduxjs/toolkit';
+import {
+  ImagesState,
+  Image,
+  ApiError,
+  ImageUploadData,
+  ImageUpdateData,
+  ImageListQuery,
+  ImageListState,
+  ImageQueryParams,
+  PageResult,
+  BatchImageAction,
+  BatchImageFailure,
+  BatchImageResult,
+} from '../../types';
 import { imagesApi } from '../../services/api';
+import { matchesImageQuery } from '../../utils/imageFilter';
+import { createApiError, toApiError } from '../../utils/errorHandling';
+import { runWithConcurrency } from '../../utils';
+import { t } from '../../i18n';
+import { deleteGroup, updateGroupImages } from './groupsSlice';
+import { cacheRestored, isAccountChanged } from './authSlice';
+
+// 图片实体表
+const imagesAdapter = createEntityAdapter<Image>();
+
+/**
+ * 根据查询条件生成列表key
+ * 所有图片为 all，我的图片为 mine，分组为 group:1，搜索为 search:关键词，
+ * 多个条件用 | 连接，如 mine|search:猫|orientation:landscape
+ */
+export const getImageListKey = (query: ImageListQuery | void): string => {
+  if (!query) return 'all';
+  const parts: string[] = [];
+  if (query.mine) parts.push('mine');
+  if (query.groupId !== undefined) parts.push(`group:${query.groupId}`);
+  if (query.search) parts.push(`search:${query.search}`);
+  if (query.owner) parts.push(`owner:${query.owner}`);
+  if (query.uploadedAfter) parts.push(`after:${query.uploadedAfter}`);
+  if (query.uploadedBefore) parts.push(`before:${query.uploadedBefore}`);
+  if (query.minWidth) parts.push(`minWidth:${query.minWidth}`);
+  if (query.minHeight) parts.push(`minHeight:${query.minHeight}`);
+  if (query.orientation) parts.push(`orientation:${query.orientation}`);
+  return parts.length > 0 ? parts.join('|') : 'all';
+};
+
+// 将列表查询条件转换为接口参数
+const toQueryParams = (query: ImageListQuery | void): ImageQueryParams => ({
+  mine: query?.mine,
+  group: query?.groupId,
+  search: query?.search,
+  owner: query?.owner,
+  uploaded_after: query?.uploadedAfter,
+  uploaded_before: query?.uploadedBefore,
+  min_width: query?.minWidth,
+  min_height: query?.minHeight,
+  orientation: query?.orientation,
+});
+
+// 只保留符合查询条件的图片（兼容不支持部分筛选参数的后端）
+const filterResults = (results: Image[], query: ImageListQuery | void): Image[] => {
+  return results.filter(img => matchesImageQuery(img, query));
+};
+
+const emptyList: ImageListState = {
+  ids: [],
+  nextParams: null,
+  count: null,
+  isLoadingMore: false,
+  updatedAt: null,
+  firstPageSize: 0,
+  firstPageNextParams: null,
+};
+
+// 删除图片前的快照，用于失败时恢复到原来的位置
+interface DeletedImageSnapshot {
+  image: Image;
+  positions: Record<string, number>;
+  wasCurrent: boolean;
+}
+
+// 批量操作时同时发出的请求数
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * 计算批量操作对一张图片的修改，不需要修改时返回null
+ */
+const getBatchChanges = (image: Image, action: BatchImageAction): ImageUpdateData | null => {
+  switch (action.type) {
+    case 'addToGroups': {
+      const added = action.groupIds.filter(id => !image.groups.includes(id));
+      return added.length > 0 ? { groups: [...image.groups, ...added] } : null;
+    }
+    case 'removeFromGroups': {
+      const groups = image.groups.filter(id => !action.groupIds.includes(id));
+      return groups.length !== image.groups.length ? { groups } : null;
+    }
+    case 'update':
+      return action.changes;
+    default:
+      return null;
+  }
+};
+
+/**
+ * 同步分组列表中的图片（分组列表未加载时忽略）
+ */
+const applyGroupMembership = (state: ImagesState, groupId: number, add: number[], remove: number[]) => {
+  const list = state.lists[getImageListKey({ groupId })];
+  if (!list) return;
+  const before = list.ids.length;
+  list.ids = list.ids.filter(id => !remove.includes(id));
+  const added = add.filter(id => !list.ids.includes(id));
+  list.ids.unshift(...added);
+  if (list.count !== null) {
+    list.count += list.ids.length - before;
+  }
+};
 
 // 初始状态
-const initialState: ImagesState = {
-  images: [],
-  allImages: [],
-  userImages: [],
-  currentImage: null,
+const initialState: ImagesState = imagesAdapter.getInitialState({
+  lists: {},
+  currentList: 'all',
+  currentImageId: null,
+  filter: {},
+  uploads: {},
   isLoading: false,
   error: null,
-};
+});
 
-// 异步action：获取图片列表
+// 异步action：获取图片列表的第一页
 export const fetchImages = createAsyncThunk<
-  Image[],
-  { mine?: boolean } | void,
-  { rejectValue: string }
+  PageResult<Image>,
+  ImageListQuery | void,
+  { rejectValue: ApiError }
 >(
   'images/fetchImages',
-  async (params, { rejectWithValue }) => {
+  async (query, { rejectWithValue }) => {
     try {
-      const mine = params?.mine;
-      const response = await imagesApi.getImages(mine);
+      const response = await imagesApi.getImages(toQueryParams(query));
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      return rejectWithValue(apiError.message);
+      return rejectWithValue(toApiError(error));
     }
   }
 );
 
+// 异步action：加载图片列表的下一页（用于无限滚动）
+export const fetchMoreImages = createAsyncThunk<
+  PageResult<Image>,
+  ImageListQuery | void,
+  { state: { images: ImagesState }; rejectValue: ApiError }
+>(
+  'images/fetchMoreImages',
+  async (query, { getState, rejectWithValue }) => {
+    try {
+      const { nextParams } = getState().images.lists[getImageListKey(query)];
+      // 下一页的参数中已经包含了原始查询条件
+      const response = await imagesApi.getImages({ ...toQueryParams(query), ...nextParams });
+      return response.data;
+    } catch (error) {
+      return rejectWithValue(toApiError(error));
+    }
+  },
+  {
+    // 没有下一页或正在加载时不重复请求
+    condition: (query, { getState }) => {
+      const list = getState().images.lists[getImageListKey(query)];
+      return !!list?.nextParams && !list.isLoadingMore;
+    },
+  }
+);
+
 // 异步action：获取图片详情
 export const fetchImageById = createAsyncThunk<
   Image,
   number,
-  { rejectValue: string }
+  { rejectValue: ApiError }
 >(
   'images/fetchImageById',
   async (imageId, { rejectWithValue }) => {
@@ -48,12 +197,129 @@ export const fetchImageById = createAsyncThunk<
       const response = await imagesApi.getImage(imageId);
       return response.data;
     } catch (error) {
-      const apiError = error as ApiError;
-      return rejectWithValue(apiError.message);
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：上传图片
+export const uploadImage = createAsyncThunk<
+  Image,
+  { uploadId: string; data: ImageUploadData },
+  { rejectValue: ApiError }
+>(
+  'images/uploadImage',
+  async ({ uploadId, data }, { dispatch, rejectWithValue }) => {
+    try {
+      const response = await imagesApi.uploadImage(data, (progress) => {
+        dispatch(imagesSlice.actions.setUploadProgress({ uploadId, progress }));
+      });
+      return response.data;
+    } catch (error) {
+      // 保留完整的错误信息，上传队列需要据此判断是否可以重试
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：更新图片信息（乐观更新，失败时回滚）
+export const updateImage = createAsyncThunk<
+  Image,
+  { id: number; changes: ImageUpdateData },
+  { state: { images: ImagesState }; rejectValue: ApiError }
+>(
+  'images/updateImage',
+  async ({ id, changes }, { getState, dispatch, rejectWithValue }) => {
+    // 先保存原始数据再立即应用修改（pending action在此之前已经派发，不能在pending reducer中修改）
+    const previous = getState().images.entities[id];
+    dispatch(imagesSlice.actions.imageChangesApplied({ id, changes }));
+    try {
+      const response = await imagesApi.updateImage(id, changes);
+      return response.data;
+    } catch (error) {
+      if (previous) {
+        dispatch(imagesSlice.actions.imageRestored(previous));
+      }
+      return rejectWithValue(toApiError(error));
+    }
+  }
+);
+
+// 异步action：删除图片（乐观更新，失败时回滚）
+export const deleteImage = createAsyncThunk<
+  number,
+  number,
+  { state: { images: ImagesState }; rejectValue: ApiError }
+>(
+  'images/deleteImage',
+  async (imageId, { getState, dispatch, rejectWithValue }) => {
+    const state = getState().images;
+    const image = state.entities[imageId];
+    const snapshot: DeletedImageSnapshot | null = image
+      ? {
+          image,
+          positions: Object.fromEntries(
+            Object.entries(state.lists).map(([key, list]) => [key, list.ids.indexOf(imageId)])
+          ),
+          wasCurrent: state.currentImageId === imageId,
+        }
+      : null;
+    dispatch(imagesSlice.actions.imageRemoved(imageId));
+
+    try {
+      await imagesApi.deleteImage(imageId);
+      return imageId;
+    } catch (error) {
+      if (snapshot) {
+        dispatch(imagesSlice.actions.imageDeleteReverted(snapshot));
+      }
+      return rejectWithValue(toApiError(error));
     }
   }
 );
 
+// 异步action：对多张图片执行同一操作
+// 逐张调用删除或更新（各自乐观更新并在失败时回滚），单张失败不影响其他图片，结果中按图片记录失败原因
+export const batchImageAction = createAsyncThunk<
+  BatchImageResult,
+  { ids: number[]; action: BatchImageAction },
+  { state: { images: ImagesState } }
+>(
+  'images/batchImageAction',
+  async ({ ids, action }, { getState, dispatch }) => {
+    const succeeded = new Set<number>();
+    const failed: BatchImageFailure[] = [];
+
+    await runWithConcurrency(ids, BATCH_CONCURRENCY, async id => {
+      try {
+        if (action.type === 'delete') {
+          await dispatch(deleteImage(id)).unwrap();
+        } else {
+          const image = getState().images.entities[id];
+          if (!image) {
+            throw createApiError(t('imageDetail.notFound'), { code: 'NOT_FOUND' });
+          }
+          const changes = getBatchChanges(image, action);
+          if (changes) {
+            await dispatch(updateImage({ id, changes })).unwrap();
+          }
+        }
+        succeeded.add(id);
+      } catch (error) {
+        failed.push({ id, error: toApiError(error) });
+      }
+    });
+
+    // 按选择的顺序返回
+    return {
+      succeeded: ids.filter(id => succeeded.has(id)),
+      failed: ids
+        .map(id => failed.find(failure => failure.id === id))
+        .filter((failure): failure is BatchImageFailure => !!failure),
+    };
+  }
+);
+
 // 创建slice
 const imagesSlice = createSlice({
   name: 'images',
@@ -65,24 +331,101 @@ const imagesSlice = createSlice({
     },
     // 清除当前图片
     clearCurrentImage: (state) => {
-      state.currentImage = null;
+      state.currentImageId = null;
     },
     // 设置当前图片（从列表中选择）
-    setCurrentImage: (state, action) => {
-      const image = state.images.find(img => img.id === action.payload);
-      if (image) {
-        state.currentImage = image;
+    setCurrentImage: (state, action: PayloadAction<number>) => {
+      if (state.entities[action.payload]) {
+        state.currentImageId = action.payload;
       }
     },
+    // 替换画廊页的筛选条件
+    setImageFilter: (state, action: PayloadAction<ImageListQuery>) => {
+      state.filter = action.payload;
+    },
+    // 修改部分筛选条件，值为空时移除该条件
+    updateImageFilter: (state, action: PayloadAction<Partial<ImageListQuery>>) => {
+      const filter: Record<string, unknown> = { ...state.filter, ...action.payload };
+      Object.keys(filter).forEach(key => {
+        if (filter[key] === undefined || filter[key] === '') {
+          delete filter[key];
+        }
+      });
+      state.filter = filter as ImageListQuery;
+    },
+    // 清除搜索和筛选条件，保留“我的图片”模式
+    clearImageFilter: (state) => {
+      state.filter = state.filter.mine ? { mine: true } : {};
+    },
     // 切换显示模式（显示所有图片或用户图片）
     switchToAllImages: (state) => {
-      if (state.allImages.length > 0) {
-        state.images = state.allImages;
+      if (state.lists.all?.ids.length) {
+        state.currentList = 'all';
       }
     },
     switchToUserImages: (state) => {
-      if (state.userImages.length > 0) {
-        state.images = state.userImages;
+      if (state.lists.mine?.ids.length) {
+        state.currentList = 'mine';
+      }
+    },
+    // 更新上传进度
+    setUploadProgress: (state, action: PayloadAction<{ uploadId: string; progress: number }>) => {
+      const task = state.uploads[action.payload.uploadId];
+      if (task) {
+        task.progress = action.payload.progress;
+      }
+    },
+    // 移除已结束的上传记录
+    clearUpload: (state, action: PayloadAction<string>) => {
+      delete state.uploads[action.payload];
+    },
+    clearFinishedUploads: (state) => {
+      Object.keys(state.uploads).forEach(id => {
+        if (state.uploads[id].status !== 'uploading') {
+          delete state.uploads[id];
+        }
+      });
+    },
+    // 立即应用对图片的修改
+    imageChangesApplied: (state, action: PayloadAction<{ id: number; changes: ImageUpdateData }>) => {
+      imagesAdapter.updateOne(state, action.payload);
+    },
+    // 立即从实体表和所有列表中移除图片
+    imageRemoved: (state, action: PayloadAction<number>) => {
+      const imageId = action.payload;
+      imagesAdapter.removeOne(state, imageId);
+      Object.values(state.lists).forEach(list => {
+        const index = list.ids.indexOf(imageId);
+        if (index !== -1) {
+          list.ids.splice(index, 1);
+          if (list.count !== null) {
+            list.count -= 1;
+          }
+        }
+      });
+      if (state.currentImageId === imageId) {
+        state.currentImageId = null;
+      }
+    },
+    // 更新失败时恢复原始数据
+    imageRestored: (state, action: PayloadAction<Image>) => {
+      imagesAdapter.setOne(state, action.payload);
+    },
+    // 删除失败时将图片放回原来的位置
+    imageDeleteReverted: (state, action: PayloadAction<DeletedImageSnapshot>) => {
+      const { image, positions, wasCurrent } = action.payload;
+      imagesAdapter.setOne(state, image);
+      Object.entries(positions).forEach(([key, position]) => {
+        const list = state.lists[key];
+        if (list && position !== -1 && !list.ids.includes(image.id)) {
+          list.ids.splice(Math.min(position, list.ids.length), 0, image.id);
+          if (list.count !== null) {
+            list.count += 1;
+          }
+        }
+      });
+      if (wasCurrent) {
+        state.currentImageId = image.id;
       }
     },
   },
@@ -95,21 +438,62 @@ const imagesSlice = createSlice({
       })
       .addCase(fetchImages.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.images = action.payload;
-        
-        // 根据请求参数更新相应的缓存
-        const isMineRequest = action.meta.arg?.mine;
-        if (isMineRequest) {
-          state.userImages = action.payload;
-        } else {
-          state.allImages = action.payload;
+        const { count, nextParams } = action.payload;
+        const results = filterResults(action.payload.results, action.meta.arg);
+        imagesAdapter.upsertMany(state, action.payload.results);
+
+        // 用第一页替换对应列表
+        const listKey = getImageListKey(action.meta.arg);
+        state.lists[listKey] = {
+          ids: results.map(img => img.id),
+          nextParams,
+          // 后端忽略了筛选参数时，总数不可信
+          count: results.length === action.payload.results.length ? count : null,
+          isLoadingMore: false,
+          updatedAt: Date.now(),
+          firstPageSize: results.length,
+          firstPageNextParams: nextParams,
+        };
+        // 只有所有图片和我的图片会成为首页当前显示的列表
+        if (listKey === 'all' || listKey === 'mine') {
+          state.currentList = listKey;
         }
-        
+
         state.error = null;
       })
       .addCase(fetchImages.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '获取图片列表失败';
+        state.error = action.payload?.message || t('images.fetchFailed');
+      });
+
+    // 处理加载下一页
+    builder
+      .addCase(fetchMoreImages.pending, (state, action) => {
+        const list = state.lists[getImageListKey(action.meta.arg)];
+        if (list) {
+          list.isLoadingMore = true;
+        }
+      })
+      .addCase(fetchMoreImages.fulfilled, (state, action) => {
+        const list = state.lists[getImageListKey(action.meta.arg)];
+        const { count, nextParams } = action.payload;
+        const results = filterResults(action.payload.results, action.meta.arg);
+        imagesAdapter.upsertMany(state, action.payload.results);
+        if (!list) return;
+
+        // 翻页期间可能有新上传的图片，按ID去重
+        const existingIds = new Set(list.ids);
+        list.ids.push(...results.map(img => img.id).filter(id => !existingIds.has(id)));
+        list.nextParams = nextParams;
+        list.count = results.length === action.payload.results.length ? count ?? list.count : null;
+        list.isLoadingMore = false;
+      })
+      .addCase(fetchMoreImages.rejected, (state, action) => {
+        const list = state.lists[getImageListKey(action.meta.arg)];
+        if (list) {
+          list.isLoadingMore = false;
+        }
+        state.error = action.payload?.message || t('images.fetchMoreFailed');
       });
 
     // 处理获取图片详情
@@ -120,45 +504,217 @@ const imagesSlice = createSlice({
       })
       .addCase(fetchImageById.fulfilled, (state, action) => {
         state.isLoading = false;
-        state.currentImage = action.payload;
-        
-        // 同时更新所有相关列表中的对应项
-        const updateImageInList = (list: Image[]) => {
-          const index = list.findIndex(img => img.id === action.payload.id);
-          if (index !== -1) {
-            list[index] = action.payload;
-          }
-        };
-        
-        updateImageInList(state.images);
-        updateImageInList(state.allImages);
-        updateImageInList(state.userImages);
-        
+        imagesAdapter.setOne(state, action.payload);
+        state.currentImageId = action.payload.id;
         state.error = null;
       })
       .addCase(fetchImageById.rejected, (state, action) => {
         state.isLoading = false;
-        state.error = action.payload || '获取图片详情失败';
+        state.error = action.payload?.message || t('images.fetchDetailFailed');
+      });
+
+    // 处理更新图片：成功后以服务器返回的数据为准
+    builder
+      .addCase(updateImage.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(updateImage.fulfilled, (state, action) => {
+        imagesAdapter.setOne(state, action.payload);
+      })
+      .addCase(updateImage.rejected, (state, action) => {
+        // 字段错误由编辑表单显示在对应的输入框下
+        if (!action.payload || Object.keys(action.payload.fieldErrors).length === 0) {
+          state.error = action.payload?.message || t('images.updateFailed');
+        }
       });
+
+    // 处理删除图片
+    builder
+      .addCase(deleteImage.pending, (state) => {
+        state.error = null;
+      })
+      .addCase(deleteImage.rejected, (state, action) => {
+        state.error = action.payload?.message || t('images.deleteFailed');
+      });
+
+    // 分组成员变化时同步图片的groups和分组列表
+    builder
+      .addCase(updateGroupImages.fulfilled, (state, action) => {
+        const { groupId, add, remove } = action.meta.arg;
+        add.forEach(id => {
+          const image = state.entities[id];
+          if (image && !image.groups.includes(groupId)) {
+            image.groups.push(groupId);
+          }
+        });
+        remove.forEach(id => {
+          const image = state.entities[id];
+          if (image) {
+            image.groups = image.groups.filter(group => group !== groupId);
+          }
+        });
+
+        applyGroupMembership(state, groupId, add, remove);
+      })
+      .addCase(deleteGroup.fulfilled, (state, action) => {
+        const groupId = action.payload;
+        Object.values(state.entities).forEach(image => {
+          if (image && image.groups.includes(groupId)) {
+            image.groups = image.groups.filter(group => group !== groupId);
+          }
+        });
+        delete state.lists[getImageListKey({ groupId })];
+      });
+
+    // 处理批量操作：每张图片的修改已由删除和更新分别处理，这里同步分组列表
+    // 失败由调用方按图片汇总提示，不再显示单张图片的错误
+    builder.addCase(batchImageAction.fulfilled, (state, action) => {
+      const { action: batchAction } = action.meta.arg;
+      const { succeeded } = action.payload;
+      if (batchAction.type === 'addToGroups') {
+        batchAction.groupIds.forEach(groupId => applyGroupMembership(state, groupId, succeeded, []));
+      } else if (batchAction.type === 'removeFromGroups') {
+        batchAction.groupIds.forEach(groupId => applyGroupMembership(state, groupId, [], succeeded));
+      }
+      state.error = null;
+    });
+
+    // 处理上传图片（进度按文件单独记录，不影响列表的isLoading）
+    builder
+      .addCase(uploadImage.pending, (state, action) => {
+        const { uploadId, data } = action.meta.arg;
+        state.uploads[uploadId] = {
+          id: uploadId,
+          fileName: data.file.name,
+          progress: 0,
+          status: 'uploading',
+          error: null,
+        };
+      })
+      .addCase(uploadImage.fulfilled, (state, action) => {
+        const task = state.uploads[action.meta.arg.uploadId];
+        if (task) {
+          task.progress = 1;
+          task.status = 'success';
+        }
+
+        // 新上传的图片插入到所有图片、我的图片和所属分组列表的最前面
+        const image = action.payload;
+        imagesAdapter.addOne(state, image);
+        const listKeys = ['all', 'mine', ...image.groups.map(groupId => getImageListKey({ groupId }))];
+        listKeys.forEach(key => {
+          const list = state.lists[key];
+          if (list && !list.ids.includes(image.id)) {
+            list.ids.unshift(image.id);
+            if (list.count !== null) {
+              list.count += 1;
+            }
+          }
+        });
+      })
+      .addCase(uploadImage.rejected, (state, action) => {
+        const task = state.uploads[action.meta.arg.uploadId];
+        if (task) {
+          task.status = 'error';
+          task.error = action.payload?.message || t('images.uploadFailed');
+        }
+      });
+
+    // 恢复离线缓存，只补充还没有的列表和图片，不覆盖已从服务器获取的数据
+    builder.addCase(cacheRestored, (state, action) => {
+      imagesAdapter.addMany(state, action.payload.images);
+      Object.entries(action.payload.imageLists).forEach(([key, list]) => {
+        if (!state.lists[key]) {
+          state.lists[key] = { ...list, isLoadingMore: false };
+        }
+      });
+    });
+
+    // 切换身份后清空缓存，避免显示上一个账户的数据
+    builder.addMatcher(isAccountChanged, () => initialState);
   },
 });
 
 // 导出actions
-export const { 
-  clearError, 
-  clearCurrentImage, 
-  setCurrentImage, 
-  switchToAllImages, 
-  switchToUserImages 
+export const {
+  clearError,
+  clearCurrentImage,
+  setCurrentImage,
+  setImageFilter,
+  updateImageFilter,
+  clearImageFilter,
+  switchToAllImages,
+  switchToUserImages,
+  clearUpload,
+  clearFinishedUploads,
 } = imagesSlice.actions;
 
 // 导出reducer
 export default imagesSlice.reducer;
 
 // 选择器
-export const selectImages = (state: { images: ImagesState }) => state.images.images;
-export const selectAllImages = (state: { images: ImagesState }) => state.images.allImages;
-export const selectUserImages = (state: { images: ImagesState }) => state.images.userImages;
-export const selectCurrentImage = (state: { images: ImagesState }) => state.images.currentImage;
-export const selectImagesLoading = (state: { images: ImagesState }) => state.images.isLoading;
-export const selectImagesError = (state: { images: ImagesState }) => state.images.error;
+type ImagesRootState = { images: ImagesState };
+
+const { selectEntities, selectById } = imagesAdapter.getSelectors(
+  (state: ImagesRootState) => state.images
+);
+
+// 按列表key选择列表状态，不存在时返回空列表
+export const selectImageList = (state: ImagesRootState, listKey: string): ImageListState =>
+  state.images.lists[listKey] ?? emptyList;
+
+// 按列表key选择图片（带缓存，只有列表或其中的图片变化时才重新计算）
+export const selectImagesForList = createSelector(
+  [selectEntities, (state: ImagesRootState, listKey: string) => selectImageList(state, listKey).ids],
+  (entities, ids) => ids.map(id => entities[id]).filter((img): img is Image => !!img)
+);
+
+// 分组中的图片：优先使用服务器返回的分组列表，尚未加载时从已缓存的图片中筛选
+export const selectGroupImages = createSelector(
+  [
+    selectEntities,
+    (state: ImagesRootState, groupId: number) => state.images.lists[getImageListKey({ groupId })]?.ids,
+    (state: ImagesRootState) => state.images.ids,
+    (state: ImagesRootState, groupId: number) => groupId,
+  ],
+  (entities, listIds, allIds, groupId) => {
+    const ids = listIds ?? allIds.filter(id => entities[id]?.groups.includes(groupId));
+    return ids.map(id => entities[id]).filter((img): img is Image => !!img);
+  }
+);
+
+// 已缓存的图片中符合查询条件的部分，按上传时间倒序（用于服务器结果返回前或离线时显示）
+export const selectCachedImagesMatching = createSelector(
+  [
+    selectEntities,
+    (state: ImagesRootState) => state.images.ids,
+    (state: ImagesRootState, query: ImageListQuery) => query,
+    (state: ImagesRootState, query: ImageListQuery, currentUserId?: number) => currentUserId,
+  ],
+  (entities, ids, query, currentUserId) =>
+    ids
+      .map(id => entities[id])
+      .filter((img): img is Image => !!img && matchesImageQuery(img, query, currentUserId))
+      .sort((a, b) => b.uploaded_at.localeCompare(a.uploaded_at))
+);
+
+// 列表是否已从服务器加载过
+export const selectHasImageList = (state: ImagesRootState, listKey: string) =>
+  !!state.images.lists[listKey];
+export const selectImageFilter = (state: ImagesRootState) => state.images.filter;
+export const selectCurrentList = (state: ImagesRootState) => state.images.currentList;
+export const selectImages = (state: ImagesRootState) =>
+  selectImagesForList(state, state.images.currentList);
+export const selectAllImages = (state: ImagesRootState) => selectImagesForList(state, 'all');
+export const selectUserImages = (state: ImagesRootState) => selectImagesForList(state, 'mine');
+export const selectImageById = (state: ImagesRootState, imageId: number) => selectById(state, imageId);
+export const selectCurrentImage = (state: ImagesRootState) =>
+  state.images.currentImageId !== null ? selectById(state, state.images.currentImageId) ?? null : null;
+export const selectImagesLoading = (state: ImagesRootState) => state.images.isLoading;
+export const selectImagesError = (state: ImagesRootState) => state.images.error;
+// 图片总数：优先使用服务器返回的count，未分页时使用已加载的数量
+export const selectImagesCount = (state: ImagesRootState, listKey: string) => {
+  const list = selectImageList(state, listKey);
+  return list.count ?? list.ids.length;
+};
+export const selectUploads = (state: ImagesRootState) => state.images.uploads;
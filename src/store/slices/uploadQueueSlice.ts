@@ -0,0 +1,275 @@
+/**
+ * 离线上传队列状态管理
+ * 保存待上传的图片，在网络恢复或应用重启后自动重试
+ */
+
+import { createSlice, createAsyncThunk, createSelector, PayloadAction } from '@reduxjs/toolkit';
+import {
+  UploadQueueState,
+  QueuedUpload,
+  ImageUploadData,
+  AuthState,
+  FieldErrors,
+} from '../../types';
+import {
+  loadQueue,
+  saveQueue,
+  persistUploadFile,
+  removeUploadFile,
+  getRetryDelay,
+  isTransientError,
+  scheduleQueueRetry,
+} from '../../services/uploadQueue';
+import { getFieldErrorMessages, toApiError } from '../../utils/errorHandling';
+import { t } from '../../i18n';
+import { uploadImage } from './imagesSlice';
+
+type QueueRootState = { uploadQueue: UploadQueueState; auth: AuthState };
+
+// 上传是否属于当前账户（旧版本保存的项目没有账户信息，由任意账户上传）
+const belongsToAccount = (item: QueuedUpload, accountId: string | null) =>
+  !item.accountId || item.accountId === accountId;
+
+// 初始状态
+const initialState: UploadQueueState = {
+  items: [],
+  isRestored: false,
+  isProcessing: false,
+  isOnline: true,
+};
+
+// 异步action：从设备存储恢复队列
+export const restoreUploadQueue = createAsyncThunk<QueuedUpload[], void>(
+  'uploadQueue/restore',
+  async () => {
+    const items = await loadQueue();
+    // 应用被杀死时正在上传的项目需要重新上传
+    return items.map(item => (item.status === 'uploading' ? { ...item, status: 'pending' } : item));
+  }
+);
+
+// 异步action：将图片加入上传队列并立即尝试上传
+export const enqueueUploads = createAsyncThunk<
+  QueuedUpload[],
+  { id: string; data: ImageUploadData }[],
+  { state: QueueRootState }
+>(
+  'uploadQueue/enqueue',
+  async (uploads, { dispatch, getState }) => {
+    // 先恢复已保存的队列，避免覆盖尚未读取的数据
+    if (!getState().uploadQueue.isRestored) {
+      await dispatch(restoreUploadQueue());
+    }
+
+    const now = Date.now();
+    const accountId = getState().auth.activeAccountId;
+    const items: QueuedUpload[] = [];
+
+    for (const { id, data } of uploads) {
+      const file = await persistUploadFile(id, data.file);
+      items.push({
+        id,
+        data: { ...data, file },
+        attempts: 0,
+        lastError: null,
+        status: 'pending',
+        nextAttemptAt: now,
+        createdAt: now,
+        accountId,
+      });
+    }
+
+    dispatch(uploadQueueSlice.actions.uploadsAdded(items));
+    await saveQueue(getState().uploadQueue.items);
+    dispatch(processUploadQueue());
+    return items;
+  }
+);
+
+// 异步action：依次上传队列中到期的项目
+export const processUploadQueue = createAsyncThunk<
+  void,
+  void,
+  { state: QueueRootState }
+>(
+  'uploadQueue/process',
+  async (_, { dispatch, getState }) => {
+    while (true) {
+      const { items, isOnline } = getState().uploadQueue;
+      if (!isOnline || !getState().auth.isAuthenticated) {
+        break;
+      }
+
+      // 只上传当前账户的项目，其他账户的项目等切换回去后再上传
+      const now = Date.now();
+      const accountId = getState().auth.activeAccountId;
+      const next = items.find(item =>
+        item.status === 'pending' && item.nextAttemptAt <= now && belongsToAccount(item, accountId)
+      );
+      if (!next) {
+        break;
+      }
+
+      dispatch(uploadQueueSlice.actions.uploadStarted(next.id));
+      const result = await dispatch(uploadImage({ uploadId: next.id, data: next.data }));
+
+      if (uploadImage.fulfilled.match(result)) {
+        dispatch(uploadQueueSlice.actions.uploadRemoved(next.id));
+        await removeUploadFile(next.data.file);
+      } else {
+        const apiError = result.payload || toApiError(result.error, t('images.uploadFailed'));
+        const attempts = next.attempts + 1;
+        dispatch(uploadQueueSlice.actions.uploadFailed({
+          id: next.id,
+          error: apiError.message,
+          fieldErrors: getFieldErrorMessages(apiError),
+          retryAt: isTransientError(apiError) ? Date.now() + getRetryDelay(attempts) : null,
+        }));
+      }
+
+      await saveQueue(getState().uploadQueue.items);
+    }
+
+    // 安排最近一次到期重试
+    const pendingTimes = getState().uploadQueue.items
+      .filter(item => item.status === 'pending' && belongsToAccount(item, getState().auth.activeAccountId))
+      .map(item => item.nextAttemptAt);
+    if (pendingTimes.length > 0 && getState().uploadQueue.isOnline) {
+      scheduleQueueRetry(Math.min(...pendingTimes) - Date.now(), () => {
+        dispatch(processUploadQueue());
+      });
+    }
+  },
+  {
+    // 同一时间只处理一次队列
+    condition: (_, { getState }) => {
+      const { uploadQueue } = getState();
+      return uploadQueue.isRestored && !uploadQueue.isProcessing;
+    },
+  }
+);
+
+// 异步action：手动重试某个上传（包括不可自动重试的失败项），可同时修改被后端拒绝的名称
+export const retryUpload = createAsyncThunk<
+  void,
+  { id: string; name?: string },
+  { state: QueueRootState }
+>(
+  'uploadQueue/retry',
+  async (retry, { dispatch, getState }) => {
+    dispatch(uploadQueueSlice.actions.uploadReset(retry));
+    await saveQueue(getState().uploadQueue.items);
+    dispatch(processUploadQueue());
+  }
+);
+
+// 异步action：从队列中移除某个上传
+export const removeUpload = createAsyncThunk<void, string, { state: QueueRootState }>(
+  'uploadQueue/remove',
+  async (id, { dispatch, getState }) => {
+    const item = getState().uploadQueue.items.find(queued => queued.id === id);
+    dispatch(uploadQueueSlice.actions.uploadRemoved(id));
+    await saveQueue(getState().uploadQueue.items);
+    if (item) {
+      await removeUploadFile(item.data.file);
+    }
+  }
+);
+
+// 创建slice
+const uploadQueueSlice = createSlice({
+  name: 'uploadQueue',
+  initialState,
+  reducers: {
+    // 更新网络状态
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    uploadsAdded: (state, action: PayloadAction<QueuedUpload[]>) => {
+      state.items.push(...action.payload);
+    },
+    uploadStarted: (state, action: PayloadAction<string>) => {
+      const item = state.items.find(queued => queued.id === action.payload);
+      if (item) {
+        item.status = 'uploading';
+      }
+    },
+    // retryAt 为 null 表示错误不可自动重试
+    uploadFailed: (
+      state,
+      action: PayloadAction<{ id: string; error: string; fieldErrors: FieldErrors; retryAt: number | null }>
+    ) => {
+      const item = state.items.find(queued => queued.id === action.payload.id);
+      if (item) {
+        item.attempts += 1;
+        item.lastError = action.payload.error;
+        item.fieldErrors = action.payload.fieldErrors;
+        if (action.payload.retryAt === null) {
+          item.status = 'failed';
+        } else {
+          item.status = 'pending';
+          item.nextAttemptAt = action.payload.retryAt;
+        }
+      }
+    },
+    uploadReset: (state, action: PayloadAction<{ id: string; name?: string }>) => {
+      const item = state.items.find(queued => queued.id === action.payload.id);
+      if (item) {
+        item.status = 'pending';
+        item.nextAttemptAt = Date.now();
+        item.fieldErrors = {};
+        if (action.payload.name !== undefined) {
+          item.data.name = action.payload.name;
+        }
+      }
+    },
+    uploadRemoved: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(queued => queued.id !== action.payload);
+    },
+  },
+  extraReducers: (builder) => {
+    // 处理恢复队列
+    builder
+      .addCase(restoreUploadQueue.fulfilled, (state, action) => {
+        // 保留恢复完成前新加入的项目
+        const restoredIds = new Set(action.payload.map(item => item.id));
+        state.items = [
+          ...action.payload,
+          ...state.items.filter(item => !restoredIds.has(item.id)),
+        ];
+        state.isRestored = true;
+      })
+      .addCase(restoreUploadQueue.rejected, (state) => {
+        state.isRestored = true;
+      });
+
+    // 处理队列执行状态
+    builder
+      .addCase(processUploadQueue.pending, (state) => {
+        state.isProcessing = true;
+      })
+      .addCase(processUploadQueue.fulfilled, (state) => {
+        state.isProcessing = false;
+      })
+      .addCase(processUploadQueue.rejected, (state) => {
+        state.isProcessing = false;
+      });
+  },
+});
+
+// 导出actions
+export const { setOnline } = uploadQueueSlice.actions;
+
+// 导出reducer
+export default uploadQueueSlice.reducer;
+
+// 选择器（只包含当前账户的上传）
+export const selectUploadQueue = createSelector(
+  [
+    (state: QueueRootState) => state.uploadQueue.items,
+    (state: QueueRootState) => state.auth.activeAccountId,
+  ],
+  (items, accountId) => items.filter(item => belongsToAccount(item, accountId))
+);
+export const selectQueuedUploadCount = (state: QueueRootState) => selectUploadQueue(state).length;
+export const selectIsOnline = (state: { uploadQueue: UploadQueueState }) => state.uploadQueue.isOnline;
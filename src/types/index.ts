@@ -3,6 +3,8 @@
  * 基于共享类型定义，增加移动端特定的类型
  */
 
+import type { EntityState } from '@reduxjs/toolkit';
+
 // 导入共享类型（实际项目中应该从shared模块导入）
 export interface User {
   id: number;
@@ -10,6 +12,7 @@ export interface User {
   email: string;
   first_name: string;
   last_name: string;
+  avatar?: string | null;    // 头像地址
   images?: number[];
   is_staff: boolean;
 }
@@ -27,6 +30,16 @@ export interface Image {
   owner_username: string;
   uploaded_at: string;
   updated_at: string;
+  thumbnail?: string | null;   // 缩略图地址（后端生成时提供）
+  medium?: string | null;      // 中等尺寸版本地址
+  variants?: ImageVariant[];   // 带尺寸的缩放版本
+}
+
+// 后端生成的图片缩放版本
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
 }
 
 export interface Group {
@@ -36,41 +49,221 @@ export interface Group {
   created_at: string;
 }
 
+// 创建或编辑分组时提交的数据
+export interface GroupFormData {
+  name: string;
+  description: string;
+}
+
+// 批量修改分组中的图片
+export interface GroupImagesChange {
+  add: number[];
+  remove: number[];
+}
+
 export interface AuthTokens {
   access: string;
   refresh: string;
 }
 
+// 已登录的账户（token按账户ID分别保存在安全存储中）
+export interface Account {
+  id: string;                // 由用户名和服务器地址生成
+  serverUrl: string;
+  username: string;
+}
+
 export interface AuthState {
   user: User | null;
   tokens: AuthTokens | null;
+  accounts: Account[];       // 所有保持登录的账户
+  activeAccountId: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
 }
 
-export interface ImagesState {
-  images: Image[];           // 当前显示的图片列表（可能是所有图片或用户图片）
-  allImages: Image[];        // 所有图片的缓存
-  userImages: Image[];       // 用户图片的缓存
-  currentImage: Image | null;
+// 登录、切换账户等操作完成后的账户状态
+export interface AccountSession {
+  user: User | null;         // 当前账户的用户信息，没有可用账户时为null
+  accounts: Account[];
+  activeAccountId: string | null;
+}
+
+// 上传图片时选择的本地文件
+export interface ImageUploadFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+// 上传图片时提交的数据
+export interface ImageUploadData {
+  file: ImageUploadFile;
+  name: string;
+  description: string;
+  groups: number[];
+}
+
+// 编辑图片时可修改的字段
+export interface ImageUpdateData {
+  name?: string;
+  description?: string;
+  groups?: number[];
+}
+
+// 对多张图片执行的批量操作
+export type BatchImageAction =
+  | { type: 'delete' }
+  | { type: 'addToGroups'; groupIds: number[] }
+  | { type: 'removeFromGroups'; groupIds: number[] }
+  | { type: 'update'; changes: ImageUpdateData };
+
+// 批量操作中失败的一张图片
+export interface BatchImageFailure {
+  id: number;
+  error: ApiError;
+}
+
+// 批量操作的结果，逐张记录成功和失败
+export interface BatchImageResult {
+  succeeded: number[];
+  failed: BatchImageFailure[];
+}
+
+// 单个文件的上传进度
+export interface UploadTask {
+  id: string;
+  fileName: string;
+  progress: number;          // 0 ~ 1
+  status: 'uploading' | 'success' | 'error';
+  error: string | null;
+}
+
+// 图片方向
+export type ImageOrientation = 'landscape' | 'portrait' | 'square';
+
+// 图片列表的查询条件，每种查询对应一个有序的图片ID列表
+export interface ImageListQuery {
+  mine?: boolean;
+  groupId?: number;
+  search?: string;                 // 匹配名称、描述和上传者
+  owner?: string;                  // 上传者用户名
+  uploadedAfter?: string;          // 上传日期范围（YYYY-MM-DD，包含当天）
+  uploadedBefore?: string;
+  minWidth?: number;               // 最低分辨率
+  minHeight?: number;
+  orientation?: ImageOrientation;
+}
+
+// 一个查询对应的图片列表（只保存ID，图片数据保存在实体表中）
+export interface ImageListState {
+  ids: number[];
+  nextParams: Record<string, string> | null; // 下一页的查询参数（页码或游标），null表示没有更多
+  count: number | null;      // 服务器返回的总数（游标分页可能没有）
+  isLoadingMore: boolean;
+  updatedAt: number | null;  // 第一页最近一次从服务器获取的时间戳（毫秒）
+  firstPageSize: number;     // 第一页的图片数量，离线缓存只保存第一页
+  firstPageNextParams: Record<string, string> | null; // 第一页返回的下一页参数
+}
+
+export interface ImagesState extends EntityState<Image, number> {
+  lists: Record<string, ImageListState>; // 按列表key（all、mine、group:1、search:xxx）保存
+  currentList: string;       // 当前显示的列表key
+  currentImageId: number | null;
+  filter: ImageListQuery;    // 画廊页当前的搜索和筛选条件
+  uploads: Record<string, UploadTask>; // 按上传ID记录的上传进度
   isLoading: boolean;
   error: string | null;
 }
 
+// 离线上传队列中的一项
+export interface QueuedUpload {
+  id: string;                // 同时作为imagesSlice中的上传ID
+  data: ImageUploadData;     // file.uri 指向应用私有目录中的副本
+  attempts: number;
+  lastError: string | null;
+  fieldErrors?: FieldErrors; // 上次失败时后端返回的字段错误（如名称不合法）
+  status: 'pending' | 'uploading' | 'failed'; // failed 表示不可自动重试的错误
+  nextAttemptAt: number;     // 下次允许尝试的时间戳（毫秒）
+  createdAt: number;
+  accountId?: string | null; // 上传所属的账户，只在该账户登录时上传
+}
+
+export interface UploadQueueState {
+  items: QueuedUpload[];
+  isRestored: boolean;       // 是否已从设备存储中恢复
+  isProcessing: boolean;
+  isOnline: boolean;
+}
+
+// 支持的语言
+export type Locale = 'zh-CN' | 'en';
+
+// 用户选择的语言，system 表示跟随系统
+export type LanguagePreference = Locale | 'system';
+
+// 应用锁设置
+export interface AppLockSettings {
+  enabled: boolean;
+  timeoutMs: number;         // 在后台停留多久后需要重新解锁
+}
+
+// 应用锁的运行状态
+export interface AppLockStatus {
+  isLocked: boolean;
+  failedAttempts: number;
+  lockedOutUntil: number | null;   // 连续失败后禁止解锁直到该时间
+  backgroundedAt: number | null;   // 进入后台的时间
+  unlockedAt: number | null;       // 上次解锁成功的时间
+}
+
+export interface AppLockState extends AppLockStatus {
+  settings: AppLockSettings;
+  isRestored: boolean;       // 是否已从设备存储中恢复设置
+  isAuthenticating: boolean;
+}
+
 export interface GroupsState {
   groups: Group[];
+  updatedAt: number | null;  // 最近一次从服务器获取分组列表的时间戳（毫秒）
   isLoading: boolean;
   error: string | null;
 }
 
+// 图片网格的布局：方格、瀑布流、按行对齐
+export type GridLayoutMode = 'square' | 'masonry' | 'justified';
+
+// 每个页面记住的网格布局设置
+export interface GridLayoutSettings {
+  mode: GridLayoutMode;
+  columns: number;           // 列数，按行对齐时决定目标行高
+}
+
+// 按账户保存在设备上的离线缓存
+export interface PersistedCache {
+  version: number;           // 缓存结构的版本，结构变化时通过迁移升级
+  savedAt: number;
+  user: User | null;
+  images: Image[];           // 缓存的列表中用到的图片
+  imageLists: Record<string, ImageListState>;
+  groups: Group[];
+  groupsUpdatedAt: number | null;
+}
+
 // 移动端特定类型
 export type NavigationParamList = {
   Login: undefined;
   Home: undefined;
   Gallery: undefined;
-  ImageDetail: { imageId: number };
+  ImageDetail: { imageId: number; list?: ImageListQuery }; // list为进入详情前所在的列表，用于前后切换
+  GroupDetail: { groupId: number };
+  GroupEditor: { groupId?: number }; // 不传groupId表示新建分组
+  Upload: undefined;
   Profile: undefined;
+  AddAccount: undefined;     // 已登录时添加另一个账户
+  Register: undefined;
+  ForgotPassword: undefined;
 };
 
 export interface LoginCredentials {
@@ -78,14 +271,89 @@ export interface LoginCredentials {
   password: string;
 }
 
+export interface RegisterData {
+  username: string;
+  email: string;
+  password: string;
+}
+
+// 修改个人资料时提交的数据（avatar为新选择的头像文件）
+export interface ProfileUpdateData {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  avatar?: ImageUploadFile;
+}
+
+export interface PasswordChangeData {
+  old_password: string;
+  new_password: string;
+}
+
+// 按字段分组的错误信息，key为字段名（用于表单显示，每个字段一条）
+export type FieldErrors = Record<string, string>;
+
+// 后端返回的字段校验错误，嵌套字段用点号连接（如 items.0.name）
+export type ApiFieldErrors = Record<string, string[]>;
+
 export interface ApiResponse<T> {
   data: T;
   status: number;
   message?: string;
 }
 
+// Django REST framework的分页响应（页码分页和游标分页）
+export interface PaginatedResponse<T> {
+  count?: number;
+  next: string | null;
+  previous: string | null;
+  results: T[];
+}
+
+// 统一后的分页结果
+export interface PageResult<T> {
+  results: T[];
+  count: number | null;
+  nextParams: Record<string, string> | null;
+}
+
+// 获取图片列表的查询参数
+export interface ImageQueryParams {
+  mine?: boolean;
+  group?: number;
+  search?: string;
+  owner?: string;
+  uploaded_after?: string;
+  uploaded_before?: string;
+  min_width?: number;
+  min_height?: number;
+  orientation?: ImageOrientation;
+  page_size?: number;
+  [key: string]: string | number | boolean | undefined; // 分页参数（page、cursor等）
+}
+
+// 预设的服务器
+export interface ServerPreset {
+  name: string;              // 显示名称，如“开发环境”
+  url: string;               // 服务器地址，不包含/api前缀
+}
+
+// 稳定的错误码，界面根据错误码而不是提示文字判断错误类型
+export type ApiErrorCode =
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT'
+  | 'VALIDATION_ERROR'
+  | 'AUTHENTICATION_FAILED'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'THROTTLED'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN_ERROR';
+
 export interface ApiError {
   message: string;
   status?: number;
-  code?: string;
+  code: ApiErrorCode;
+  fieldErrors: ApiFieldErrors; // 后端返回的字段错误（如 email、username），没有时为空对象
+  retryable: boolean;          // 稍后重试是否可能成功（网络问题、限流、服务器错误）
 }
@@ -0,0 +1,104 @@
+/**
+ * 应用锁判断逻辑
+ * 根据设置、前后台切换时间和解锁失败次数决定是否需要解锁，不依赖任何原生模块
+ */
+
+import { AppLockSettings, AppLockStatus } from '../types';
+
+// 解锁成功后的宽限期：系统验证弹窗会让应用短暂进入后台，这段时间内的切换不计入
+export const UNLOCK_GRACE_MS = 3 * 1000;
+// 连续失败多少次后暂时禁止解锁
+export const MAX_FAILED_ATTEMPTS = 5;
+// 禁止解锁的时长
+export const LOCKOUT_MS = 30 * 1000;
+
+// 可选的后台锁定时间（毫秒）
+export const LOCK_TIMEOUT_OPTIONS: number[] = [0, 60 * 1000, 5 * 60 * 1000, 15 * 60 * 1000];
+
+export const DEFAULT_APP_LOCK_SETTINGS: AppLockSettings = {
+  enabled: false,
+  timeoutMs: 60 * 1000,
+};
+
+export const INITIAL_APP_LOCK_STATUS: AppLockStatus = {
+  isLocked: false,
+  failedAttempts: 0,
+  lockedOutUntil: null,
+  backgroundedAt: null,
+  unlockedAt: null,
+};
+
+/**
+ * 冷启动时的锁定状态：开启应用锁时需要先解锁
+ */
+export const getLaunchStatus = (settings: AppLockSettings): AppLockStatus => ({
+  ...INITIAL_APP_LOCK_STATUS,
+  isLocked: settings.enabled,
+});
+
+/**
+ * 应用进入后台：记录时间，已锁定或处于解锁宽限期时忽略
+ */
+export const handleBackground = (status: AppLockStatus, now: number): AppLockStatus => {
+  if (status.isLocked || status.backgroundedAt !== null) {
+    return status;
+  }
+  if (status.unlockedAt !== null && now - status.unlockedAt < UNLOCK_GRACE_MS) {
+    return status;
+  }
+  return { ...status, backgroundedAt: now };
+};
+
+/**
+ * 应用回到前台：在后台停留达到设置的时间后锁定
+ */
+export const handleForeground = (
+  settings: AppLockSettings,
+  status: AppLockStatus,
+  now: number
+): AppLockStatus => {
+  if (status.backgroundedAt === null) {
+    return status;
+  }
+  const shouldLock = settings.enabled && now - status.backgroundedAt >= settings.timeoutMs;
+  return {
+    ...status,
+    isLocked: status.isLocked || shouldLock,
+    backgroundedAt: null,
+  };
+};
+
+/**
+ * 解锁成功：清除失败记录
+ */
+export const handleUnlockSuccess = (status: AppLockStatus, now: number): AppLockStatus => ({
+  ...status,
+  isLocked: false,
+  failedAttempts: 0,
+  lockedOutUntil: null,
+  backgroundedAt: null,
+  unlockedAt: now,
+});
+
+/**
+ * 解锁失败：累计失败次数，达到上限后暂时禁止解锁
+ */
+export const handleUnlockFailure = (status: AppLockStatus, now: number): AppLockStatus => {
+  const failedAttempts = status.failedAttempts + 1;
+  if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+    return { ...status, failedAttempts: 0, lockedOutUntil: now + LOCKOUT_MS };
+  }
+  return { ...status, failedAttempts };
+};
+
+/**
+ * 距离可以再次尝试解锁还有多久（毫秒），0表示现在可以解锁
+ */
+export const getLockoutRemaining = (status: AppLockStatus, now: number): number =>
+  status.lockedOutUntil === null ? 0 : Math.max(status.lockedOutUntil - now, 0);
+
+/**
+ * 验证失败的原因是否计入失败次数（用户或系统取消不计入）
+ */
+export const isCountedFailure = (error: string | undefined): boolean =>
+  error !== 'user_cancel' && error !== 'system_cancel' && error !== 'app_cancel';
@@ -0,0 +1,36 @@
+/**
+ * 确认对话框
+ * 封装需要用户确认的危险操作（Web端的Alert不支持按钮回调）
+ */
+
+import { Alert, Platform } from 'react-native';
+import { t } from '../i18n';
+
+/**
+ * 弹出确认对话框
+ * @param title 标题
+ * @param message 提示内容
+ * @param confirmText 确认按钮文本
+ * @returns 用户是否确认
+ */
+export const confirmAction = (
+  title: string,
+  message: string,
+  confirmText: string = t('common.confirm')
+): Promise<boolean> => {
+  if (Platform.OS === 'web') {
+    return Promise.resolve(window.confirm(`${title}\n\n${message}`));
+  }
+
+  return new Promise(resolve => {
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: t('common.cancel'), style: 'cancel', onPress: () => resolve(false) },
+        { text: confirmText, style: 'destructive', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+};
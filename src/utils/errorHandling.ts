@@ -1,117 +1,151 @@
 /**
  * 错误处理工具函数
- * 用于处理和分类不同类型的登录错误
+ * 用于创建和分类API错误，以及校验表单输入
  */
 
-export interface LoginError {
-  type: 'network' | 'validation' | 'authentication' | 'server' | 'unknown';
+import { ApiError, ApiErrorCode, FieldErrors, RegisterData } from '../types';
+import { MessageKey, t } from '../i18n';
+import { isValidEmail, isValidUsername } from './index';
+
+export type ErrorType = 'network' | 'validation' | 'authentication' | 'server' | 'unknown';
+
+export interface ParsedError {
+  type: ErrorType;
   message: string;
   originalError?: any;
   retryable: boolean;
 }
 
+export type LoginError = ParsedError;
+
+// 各错误码的默认提示
+const DEFAULT_ERROR_MESSAGES: Record<ApiErrorCode, MessageKey> = {
+  NETWORK_ERROR: 'error.network',
+  TIMEOUT: 'error.timeout',
+  VALIDATION_ERROR: 'error.validation',
+  AUTHENTICATION_FAILED: 'error.authentication',
+  PERMISSION_DENIED: 'error.permissionDenied',
+  NOT_FOUND: 'error.notFound',
+  THROTTLED: 'error.throttled',
+  SERVER_ERROR: 'error.server',
+  UNKNOWN_ERROR: 'error.unknown',
+};
+
+// 错误码对应的错误类型
+const ERROR_TYPES: Record<ApiErrorCode, ErrorType> = {
+  NETWORK_ERROR: 'network',
+  TIMEOUT: 'network',
+  VALIDATION_ERROR: 'validation',
+  AUTHENTICATION_FAILED: 'authentication',
+  PERMISSION_DENIED: 'authentication',
+  NOT_FOUND: 'unknown',
+  THROTTLED: 'server',
+  SERVER_ERROR: 'server',
+  UNKNOWN_ERROR: 'unknown',
+};
+
+const RETRYABLE_CODES: ApiErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'THROTTLED', 'SERVER_ERROR'];
+
 /**
- * 解析登录错误并返回用户友好的错误信息
+ * 根据HTTP状态码得到错误码
  */
-export const parseLoginError = (error: any): LoginError => {
-  // 网络错误
-  if (!error.status && error.message?.includes('网络')) {
-    return {
-      type: 'network',
-      message: '网络连接失败，请检查网络设置后重试',
-      originalError: error,
-      retryable: true,
-    };
-  }
-
-  // 根据HTTP状态码分类
-  switch (error.status) {
-    case 400:
-      return {
-        type: 'validation',
-        message: '用户名或密码格式不正确，请检查输入',
-        originalError: error,
-        retryable: false,
-      };
-
-    case 401:
-      return {
-        type: 'authentication',
-        message: '用户名或密码错误，请重新输入',
-        originalError: error,
-        retryable: false,
-      };
-
-    case 403:
-      return {
-        type: 'authentication',
-        message: '账户被禁用或权限不足，请联系管理员',
-        originalError: error,
-        retryable: false,
-      };
-
-    case 429:
-      return {
-        type: 'server',
-        message: '登录尝试过于频繁，请稍后再试',
-        originalError: error,
-        retryable: true,
-      };
-
-    case 500:
-    case 502:
-    case 503:
-      return {
-        type: 'server',
-        message: '服务器临时不可用，请稍后重试',
-        originalError: error,
-        retryable: true,
-      };
+export const getErrorCodeForStatus = (status?: number): ApiErrorCode => {
+  if (!status) return 'UNKNOWN_ERROR';
+  if (status === 400 || status === 422) return 'VALIDATION_ERROR';
+  if (status === 401) return 'AUTHENTICATION_FAILED';
+  if (status === 403) return 'PERMISSION_DENIED';
+  if (status === 404) return 'NOT_FOUND';
+  if (status === 408) return 'TIMEOUT';
+  if (status === 429) return 'THROTTLED';
+  if (status >= 500) return 'SERVER_ERROR';
+  return 'UNKNOWN_ERROR';
+};
 
-    default:
-      // 检查具体错误消息
-      const errorMessage = error.message || '';
-      
-      if (errorMessage.includes('用户名')) {
-        return {
-          type: 'validation',
-          message: '用户名不存在，请检查用户名是否正确',
-          originalError: error,
-          retryable: false,
-        };
-      }
-      
-      if (errorMessage.includes('密码')) {
-        return {
-          type: 'authentication',
-          message: '密码错误，请重新输入正确的密码',
-          originalError: error,
-          retryable: false,
-        };
-      }
-      
-      if (errorMessage.includes('超时') || errorMessage.includes('timeout')) {
-        return {
-          type: 'network',
-          message: '连接超时，请检查网络后重试',
-          originalError: error,
-          retryable: true,
-        };
-      }
-
-      return {
-        type: 'unknown',
-        message: '登录失败，请稍后重试',
-        originalError: error,
-        retryable: true,
-      };
+/**
+ * 创建ApiError，未指定的错误码和是否可重试根据状态码推断
+ */
+export const createApiError = (
+  message: string | undefined,
+  options: Partial<Omit<ApiError, 'message'>> = {}
+): ApiError => {
+  const code = options.code ?? getErrorCodeForStatus(options.status);
+  return {
+    message: message || t(DEFAULT_ERROR_MESSAGES[code]),
+    status: options.status,
+    code,
+    fieldErrors: options.fieldErrors ?? {},
+    retryable: options.retryable ?? RETRYABLE_CODES.includes(code),
+  };
+};
+
+/**
+ * 将捕获到的任意错误转换为ApiError（已是ApiError时原样返回）
+ */
+export const toApiError = (error: unknown, fallbackMessage?: string): ApiError => {
+  if (error && typeof error === 'object') {
+    const candidate = error as Partial<ApiError>;
+    if (candidate.code && candidate.fieldErrors && typeof candidate.retryable === 'boolean') {
+      return candidate as ApiError;
+    }
+    return createApiError(candidate.message || fallbackMessage, {
+      status: candidate.status,
+      code: candidate.code && candidate.code in DEFAULT_ERROR_MESSAGES ? candidate.code : undefined,
+      fieldErrors: candidate.fieldErrors,
+    });
   }
+  return createApiError(typeof error === 'string' ? error : fallbackMessage);
+};
+
+/**
+ * 取出每个字段的错误信息，用于显示在对应的输入框下
+ */
+export const getFieldErrorMessages = (error: unknown): FieldErrors =>
+  Object.fromEntries(
+    Object.entries(toApiError(error).fieldErrors).map(([field, messages]) => [field, messages.join(', ')])
+  );
+
+/**
+ * 解析请求错误并返回用户友好的错误信息
+ * @param messages 按错误码覆盖默认提示，未覆盖时优先使用后端返回的信息
+ */
+export const parseApiError = (
+  error: any,
+  messages: Partial<Record<ApiErrorCode, string>> = {}
+): ParsedError => {
+  const apiError = toApiError(error);
+  return {
+    type: ERROR_TYPES[apiError.code],
+    message: messages[apiError.code] ?? apiError.message,
+    originalError: error,
+    retryable: apiError.retryable,
+  };
+};
+
+// 登录时各类错误的提示
+const LOGIN_ERROR_MESSAGES: Record<ApiErrorCode, MessageKey> = {
+  NETWORK_ERROR: 'loginError.network',
+  TIMEOUT: 'loginError.timeout',
+  VALIDATION_ERROR: 'loginError.validation',
+  AUTHENTICATION_FAILED: 'loginError.authentication',
+  PERMISSION_DENIED: 'loginError.permissionDenied',
+  NOT_FOUND: 'loginError.notFound',
+  THROTTLED: 'loginError.throttled',
+  SERVER_ERROR: 'loginError.server',
+  UNKNOWN_ERROR: 'loginError.unknown',
+};
+
+/**
+ * 解析登录错误并返回用户友好的错误信息
+ */
+export const parseLoginError = (error: any): LoginError => {
+  const code = toApiError(error).code;
+  return parseApiError(error, { [code]: t(LOGIN_ERROR_MESSAGES[code]) });
 };
 
 /**
  * 获取错误类型对应的提示类型
  */
-export const getErrorMessageType = (errorType: LoginError['type']): 'error' | 'warning' | 'info' => {
+export const getErrorMessageType = (errorType: ErrorType): 'error' | 'warning' | 'info' => {
   switch (errorType) {
     case 'network':
       return 'warning';
@@ -128,46 +162,165 @@ export const getErrorMessageType = (errorType: LoginError['type']): 'error' | 'w
 /**
  * 获取重试建议文本
  */
-export const getRetryButtonText = (errorType: LoginError['type']): string => {
+export const getRetryButtonText = (errorType: ErrorType): string => {
   switch (errorType) {
     case 'network':
-      return '重新连接';
-    case 'server':
-      return '重试';
+      return t('errorMessage.reconnect');
     case 'authentication':
-      return '重新输入';
+      return t('errorMessage.reenter');
+    case 'server':
     default:
-      return '重试';
+      return t('common.retry');
   }
 };
 
 /**
- * 输入验证函数
+ * 密码输入验证
+ * @param isNewPassword 修改密码时校验新密码，提示中称为“新密码”
+ * @returns 错误信息，没有错误时返回null
  */
-export const validateLoginInput = (username: string, password: string): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
+export const validatePasswordInput = (password: string, isNewPassword = false): string | null => {
+  const label = t(isNewPassword ? 'field.new_password' : 'field.password');
+  if (!password.trim()) {
+    return t(isNewPassword ? 'validation.newPasswordRequired' : 'validation.passwordRequired');
+  }
+  if (password.length < 6) {
+    return t('validation.tooShort', { label, min: 6 });
+  }
+  if (password.length > 128) {
+    return t('validation.tooLong', { label, max: 128 });
+  }
+  return null;
+};
+
+/**
+ * 输入验证函数，fieldErrors 记录每个字段的错误，用于标记对应的输入框
+ */
+export const validateLoginInput = (
+  username: string,
+  password: string
+): { isValid: boolean; errors: string[]; fieldErrors: FieldErrors } => {
+  const fieldErrors: FieldErrors = {};
 
   // 用户名验证
+  const usernameLabel = t('field.username');
   if (!username.trim()) {
-    errors.push('请输入用户名');
+    fieldErrors.username = t('validation.usernameRequired');
   } else if (username.trim().length < 3) {
-    errors.push('用户名至少需要3个字符');
+    fieldErrors.username = t('validation.tooShort', { label: usernameLabel, min: 3 });
   } else if (username.trim().length > 30) {
-    errors.push('用户名不能超过30个字符');
+    fieldErrors.username = t('validation.tooLong', { label: usernameLabel, max: 30 });
   }
 
   // 密码验证
-  if (!password.trim()) {
-    errors.push('请输入密码');
-  } else if (password.length < 6) {
-    errors.push('密码至少需要6个字符');
-  } else if (password.length > 128) {
-    errors.push('密码不能超过128个字符');
+  const passwordError = validatePasswordInput(password);
+  if (passwordError) {
+    fieldErrors.password = passwordError;
   }
 
+  const errors = Object.values(fieldErrors);
   return {
     isValid: errors.length === 0,
     errors,
+    fieldErrors,
+  };
+};
+
+/**
+ * 邮箱输入验证
+ * @returns 错误信息，没有错误时返回null
+ */
+export const validateEmailInput = (email: string): string | null => {
+  if (!email.trim()) {
+    return t('validation.emailRequired');
+  }
+  if (!isValidEmail(email.trim())) {
+    return t('validation.emailInvalid');
+  }
+  return null;
+};
+
+/**
+ * 注册表单验证，返回每个字段的第一条错误
+ */
+export const validateRegisterInput = (
+  data: RegisterData & { confirmPassword: string }
+): { isValid: boolean; fieldErrors: FieldErrors } => {
+  // 用户名和密码的长度规则与登录一致
+  const fieldErrors: FieldErrors = { ...validateLoginInput(data.username, data.password).fieldErrors };
+
+  if (!fieldErrors.username && !isValidUsername(data.username.trim())) {
+    fieldErrors.username = t('validation.usernameFormat');
+  }
+
+  const emailError = validateEmailInput(data.email);
+  if (emailError) {
+    fieldErrors.email = emailError;
+  }
+
+  if (!fieldErrors.password && data.password !== data.confirmPassword) {
+    fieldErrors.confirmPassword = t('validation.passwordMismatch');
+  }
+
+  return {
+    isValid: Object.keys(fieldErrors).length === 0,
+    fieldErrors,
+  };
+};
+
+/**
+ * 个人资料表单验证，返回每个字段的错误
+ */
+export const validateProfileInput = (data: {
+  first_name: string;
+  last_name: string;
+  email: string;
+}): { isValid: boolean; fieldErrors: FieldErrors } => {
+  const fieldErrors: FieldErrors = {};
+
+  if (data.first_name.trim().length > 150) {
+    fieldErrors.first_name = t('validation.tooLong', { label: t('field.first_name'), max: 150 });
+  }
+  if (data.last_name.trim().length > 150) {
+    fieldErrors.last_name = t('validation.tooLong', { label: t('field.last_name'), max: 150 });
+  }
+  const emailError = validateEmailInput(data.email);
+  if (emailError) {
+    fieldErrors.email = emailError;
+  }
+
+  return {
+    isValid: Object.keys(fieldErrors).length === 0,
+    fieldErrors,
+  };
+};
+
+/**
+ * 修改密码表单验证，字段名与后端一致（old_password、new_password）
+ */
+export const validatePasswordChangeInput = (data: {
+  oldPassword: string;
+  newPassword: string;
+  confirmPassword: string;
+}): { isValid: boolean; fieldErrors: FieldErrors } => {
+  const fieldErrors: FieldErrors = {};
+
+  if (!data.oldPassword) {
+    fieldErrors.old_password = t('validation.oldPasswordRequired');
+  }
+
+  const newPasswordError = validatePasswordInput(data.newPassword, true);
+  if (newPasswordError) {
+    fieldErrors.new_password = newPasswordError;
+  } else if (data.newPassword === data.oldPassword) {
+    fieldErrors.new_password = t('validation.newPasswordSame');
+  } else if (data.newPassword !== data.confirmPassword) {
+    fieldErrors.confirmPassword = t('validation.passwordMismatch');
+  }
+
+  return {
+    isValid: Object.keys(fieldErrors).length === 0,
+    fieldErrors,
   };
 };
 
@@ -0,0 +1,180 @@
+/**
+ * 图片网格布局计算
+ * 根据图片宽高比计算瀑布流和按行对齐布局中每张图片的位置，以及可见范围
+ */
+
+import { getAspectRatio } from './index';
+
+export interface LayoutItem {
+  width: number;
+  height: number;
+}
+
+export interface LayoutFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GridLayout {
+  frames: LayoutFrame[];   // 与输入的图片一一对应
+  height: number;          // 内容总高度
+}
+
+export const MIN_GRID_COLUMNS = 1;
+export const MAX_GRID_COLUMNS = 6;
+
+// 宽高比的范围，超出范围的全景图和长图按范围边界裁剪显示
+const MIN_ASPECT_RATIO = 1 / 3;
+const MAX_ASPECT_RATIO = 3;
+
+/**
+ * 将列数限制在支持的范围内
+ */
+export const clampColumns = (columns: number): number =>
+  Math.min(Math.max(Math.round(columns), MIN_GRID_COLUMNS), MAX_GRID_COLUMNS);
+
+/**
+ * 计算用于布局的宽高比，尺寸未知时按正方形处理
+ */
+const getLayoutAspectRatio = (item: LayoutItem): number => {
+  if (!(item.width > 0) || !(item.height > 0)) return 1;
+  return Math.min(Math.max(getAspectRatio(item.width, item.height), MIN_ASPECT_RATIO), MAX_ASPECT_RATIO);
+};
+
+/**
+ * 瀑布流布局：列宽相同，每张图片放入当前最短的一列
+ */
+export const computeMasonryLayout = (
+  items: LayoutItem[],
+  containerWidth: number,
+  columns: number,
+  spacing: number
+): GridLayout => {
+  const columnCount = clampColumns(columns);
+  const columnWidth = (containerWidth - spacing * (columnCount - 1)) / columnCount;
+  const columnHeights: number[] = new Array(columnCount).fill(0);
+
+  const frames = items.map(item => {
+    const column = columnHeights.indexOf(Math.min(...columnHeights));
+    const height = columnWidth / getLayoutAspectRatio(item);
+    const frame = {
+      x: column * (columnWidth + spacing),
+      y: columnHeights[column],
+      width: columnWidth,
+      height,
+    };
+    columnHeights[column] += height + spacing;
+    return frame;
+  });
+
+  return {
+    frames,
+    height: items.length > 0 ? Math.max(...columnHeights) - spacing : 0,
+  };
+};
+
+/**
+ * 按行对齐布局的目标行高，列数越多行越矮
+ */
+export const getTargetRowHeight = (containerWidth: number, columns: number): number =>
+  containerWidth / clampColumns(columns);
+
+/**
+ * 按行对齐布局：每行的图片保持宽高比并撑满容器宽度，行高接近目标行高
+ * 最后一行不足一行时按目标行高显示，不拉伸
+ */
+export const computeJustifiedLayout = (
+  items: LayoutItem[],
+  containerWidth: number,
+  targetRowHeight: number,
+  spacing: number
+): GridLayout => {
+  const frames: LayoutFrame[] = [];
+  let y = 0;
+  let rowStart = 0;
+  let rowAspectRatio = 0;
+
+  // 以指定行高放置从rowStart到end（不含）的图片
+  const placeRow = (end: number, rowHeight: number) => {
+    let x = 0;
+    for (let i = rowStart; i < end; i++) {
+      const width = rowHeight * getLayoutAspectRatio(items[i]);
+      frames.push({ x, y, width, height: rowHeight });
+      x += width + spacing;
+    }
+    y += rowHeight + spacing;
+    rowStart = end;
+    rowAspectRatio = 0;
+  };
+
+  items.forEach((item, index) => {
+    rowAspectRatio += getLayoutAspectRatio(item);
+    const count = index - rowStart + 1;
+    const availableWidth = containerWidth - spacing * (count - 1);
+    if (rowAspectRatio * targetRowHeight >= availableWidth) {
+      placeRow(index + 1, availableWidth / rowAspectRatio);
+    }
+  });
+  if (rowStart < items.length) {
+    placeRow(items.length, targetRowHeight);
+  }
+
+  return { frames, height: frames.length > 0 ? y - spacing : 0 };
+};
+
+/**
+ * 计算与可见区域相交的图片范围
+ * @returns start到end（不含）之间包含所有与 [top, bottom] 相交的图片
+ */
+export const getVisibleRange = (
+  frames: LayoutFrame[],
+  top: number,
+  bottom: number
+): { start: number; end: number } => {
+  let start = -1;
+  let end = -1;
+  frames.forEach((frame, index) => {
+    if (frame.y <= bottom && frame.y + frame.height >= top) {
+      if (start === -1) start = index;
+      end = index + 1;
+    }
+  });
+  return start === -1 ? { start: 0, end: 0 } : { start, end };
+};
+
+/**
+ * 方格布局：每行固定列数，格子大小相同
+ * @param count 图片数量
+ * @param columnSpacing 同一行格子之间的间距
+ * @param rowPitch 相邻两行顶部之间的距离（格子高度加行间距）
+ */
+export const computeSquareLayout = (
+  count: number,
+  containerWidth: number,
+  columns: number,
+  itemHeight: number,
+  columnSpacing: number,
+  rowPitch: number
+): GridLayout => {
+  const columnCount = clampColumns(columns);
+  const itemWidth = (containerWidth - columnSpacing * (columnCount - 1)) / columnCount;
+  const frames = Array.from({ length: count }, (_, index) => ({
+    x: (index % columnCount) * (itemWidth + columnSpacing),
+    y: Math.floor(index / columnCount) * rowPitch,
+    width: itemWidth,
+    height: itemHeight,
+  }));
+  const rows = Math.ceil(count / columnCount);
+  return { frames, height: rows > 0 ? (rows - 1) * rowPitch + itemHeight : 0 };
+};
+
+/**
+ * 查找包含指定点的图片
+ * @returns 图片的索引，点落在间距或空白处时返回-1
+ */
+export const findFrameAtPoint = (frames: LayoutFrame[], x: number, y: number): number =>
+  frames.findIndex(
+    frame => x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height
+  );
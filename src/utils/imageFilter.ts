@@ -0,0 +1,88 @@
+/**
+ * 图片筛选工具
+ * 在本地按查询条件筛选图片，用于后端不支持某些筛选参数、离线或输入过程中的即时结果
+ */
+
+import { Image, ImageListQuery, ImageOrientation } from '../types';
+
+/**
+ * 根据宽高判断图片方向
+ */
+export const getImageOrientation = (image: Pick<Image, 'width' | 'height'>): ImageOrientation => {
+  if (image.width > image.height) return 'landscape';
+  if (image.width < image.height) return 'portrait';
+  return 'square';
+};
+
+/**
+ * 验证日期字符串格式（YYYY-MM-DD）
+ */
+export const isValidDateString = (value: string): boolean => {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+};
+
+/**
+ * 判断图片是否符合查询条件
+ * @param currentUserId 当前用户ID，提供时才会按“我的图片”筛选
+ */
+export const matchesImageQuery = (
+  image: Image,
+  query: ImageListQuery | void,
+  currentUserId?: number
+): boolean => {
+  if (!query) return true;
+
+  if (query.mine && currentUserId !== undefined && image.owner !== currentUserId) {
+    return false;
+  }
+  if (query.groupId !== undefined && !image.groups.includes(query.groupId)) {
+    return false;
+  }
+
+  const keyword = query.search?.trim().toLowerCase();
+  if (keyword) {
+    const fields = [image.name, image.description, image.owner_username];
+    if (!fields.some(field => field?.toLowerCase().includes(keyword))) {
+      return false;
+    }
+  }
+
+  const owner = query.owner?.trim().toLowerCase();
+  if (owner && !image.owner_username.toLowerCase().includes(owner)) {
+    return false;
+  }
+
+  // 只比较日期部分，范围包含起止当天
+  const uploadedDate = image.uploaded_at.slice(0, 10);
+  if (query.uploadedAfter && uploadedDate < query.uploadedAfter) {
+    return false;
+  }
+  if (query.uploadedBefore && uploadedDate > query.uploadedBefore) {
+    return false;
+  }
+
+  if (query.minWidth && image.width < query.minWidth) {
+    return false;
+  }
+  if (query.minHeight && image.height < query.minHeight) {
+    return false;
+  }
+  if (query.orientation && getImageOrientation(image) !== query.orientation) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * 统计已设置的筛选条件数量（不包括搜索关键词和“我的图片”）
+ */
+export const countActiveFilters = (query: ImageListQuery): number => {
+  return [
+    query.owner,
+    query.uploadedAfter || query.uploadedBefore,
+    query.minWidth || query.minHeight,
+    query.orientation,
+    query.groupId !== undefined,
+  ].filter(Boolean).length;
+};
@@ -0,0 +1,62 @@
+/**
+ * 图片缩放版本工具函数
+ * 根据显示尺寸选择后端生成的最小可用版本，没有缩放版本时使用原图
+ */
+
+import { Image, ImageVariant } from '../types';
+
+// 后端只返回地址、没有返回尺寸时，按以下长边尺寸估计缩略图和中等尺寸版本
+export const THUMBNAIL_SIZE = 300;
+export const MEDIUM_SIZE = 1024;
+
+/**
+ * 按长边缩小到指定尺寸（不放大）
+ */
+const scaleToLongEdge = (image: Image, maxSize: number): { width: number; height: number } => {
+  const scale = Math.min(maxSize / Math.max(image.width, image.height, 1), 1);
+  return {
+    width: Math.round(image.width * scale),
+    height: Math.round(image.height * scale),
+  };
+};
+
+/**
+ * 获取图片的所有版本，按宽度从小到大排列，原图排在最后
+ */
+export const getImageVariants = (image: Image): ImageVariant[] => {
+  const original: ImageVariant = { url: image.image, width: image.width, height: image.height };
+  const candidates: ImageVariant[] = [...(image.variants ?? [])];
+  if (image.thumbnail) {
+    candidates.push({ url: image.thumbnail, ...scaleToLongEdge(image, THUMBNAIL_SIZE) });
+  }
+  if (image.medium) {
+    candidates.push({ url: image.medium, ...scaleToLongEdge(image, MEDIUM_SIZE) });
+  }
+
+  // 不比原图小的版本没有意义
+  const variants = candidates
+    .filter(variant => !!variant.url && variant.width > 0 && variant.width < image.width)
+    .sort((a, b) => a.width - b.width);
+  return [...variants, original];
+};
+
+/**
+ * 选择覆盖显示尺寸的最小版本
+ * @param displayWidth 显示宽度（点）
+ * @param displayHeight 显示高度（点），按cover方式显示时图片的两边都不能小于显示区域
+ * @param pixelRatio 设备像素比
+ */
+export const selectImageVariant = (
+  image: Image,
+  displayWidth: number,
+  displayHeight: number,
+  pixelRatio: number = 1
+): ImageVariant => {
+  const variants = getImageVariants(image);
+  const requiredWidth = displayWidth * pixelRatio;
+  const requiredHeight = displayHeight * pixelRatio;
+  return (
+    variants.find(variant => variant.width >= requiredWidth && variant.height >= requiredHeight) ??
+    variants[variants.length - 1]
+  );
+};
@@ -3,48 +3,6 @@
  * 提供通用的工具函数
  */
 
-/**
- * 格式化文件大小
- * @param bytes 字节数
- * @returns 格式化后的文件大小字符串
- */
-export const formatFileSize = (bytes: number): string => {
-  if (bytes === 0) return '0 Bytes';
-  
-  const k = 1024;
-  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  
-  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-};
-
-/**
- * 格式化日期
- * @param dateString ISO日期字符串
- * @returns 格式化后的日期字符串
- */
-export const formatDate = (dateString: string): string => {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffTime = Math.abs(now.getTime() - date.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  
-  if (diffDays === 1) {
-    return '1天前';
-  } else if (diffDays < 7) {
-    return `${diffDays}天前`;
-  } else if (diffDays < 30) {
-    const weeks = Math.floor(diffDays / 7);
-    return `${weeks}周前`;
-  } else if (diffDays < 365) {
-    const months = Math.floor(diffDays / 30);
-    return `${months}个月前`;
-  } else {
-    const years = Math.floor(diffDays / 365);
-    return `${years}年前`;
-  }
-};
-
 /**
  * 获取图片纵横比
  * @param width 图片宽度
@@ -176,3 +134,49 @@ export const safeGet = (obj: any, path: string, defaultValue: any = undefined):
   
   return current;
 };
+
+/**
+ * 解析URL中的查询参数
+ * React Native的URL实现不完整，这里手动解析
+ * @param url 完整URL或查询字符串
+ * @returns 参数对象
+ */
+export const parseQueryString = (url: string): Record<string, string> => {
+  const queryIndex = url.indexOf('?');
+  const query = queryIndex === -1 ? url : url.substring(queryIndex + 1);
+  const params: Record<string, string> = {};
+
+  const decode = (text: string) => decodeURIComponent(text.replace(/\+/g, ' '));
+
+  query.split('#')[0].split('&').forEach(pair => {
+    if (!pair) return;
+    // 只按第一个=分割，值中可能包含=（如base64编码的token）
+    const separator = pair.indexOf('=');
+    const key = separator === -1 ? pair : pair.substring(0, separator);
+    const value = separator === -1 ? '' : pair.substring(separator + 1);
+    params[decode(key)] = decode(value);
+  });
+
+  return params;
+};
+
+/**
+ * 以有限的并发数依次处理每一项
+ * @param items 要处理的项
+ * @param concurrency 同时处理的最大数量
+ * @param worker 处理函数
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
@@ -0,0 +1,55 @@
+/**
+ * JWT工具函数
+ * 只解析payload读取过期时间，不校验签名（签名由服务器校验）
+ */
+
+// access token在过期前多久提前刷新
+export const ACCESS_TOKEN_REFRESH_LEEWAY_MS = 60 * 1000;
+
+// base64url解码为UTF-8字符串
+const decodeBase64Url = (input: string): string => {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  // 逐字节转成百分号编码再解码，正确处理payload中的中文
+  return decodeURIComponent(
+    Array.from(binary, char => `%${char.charCodeAt(0).toString(16).padStart(2, '0')}`).join('')
+  );
+};
+
+/**
+ * 解析JWT的payload
+ * @param token JWT字符串
+ * @returns payload对象，格式不正确时返回null
+ */
+export const decodeJwtPayload = (token: string): Record<string, unknown> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    const payload = JSON.parse(decodeBase64Url(parts[1]));
+    return payload && typeof payload === 'object' ? payload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * 读取token的过期时间
+ * @param token JWT字符串
+ * @returns 过期时间的毫秒时间戳，没有exp声明时返回null
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+};
+
+/**
+ * 判断token是否已过期（或将在leeway毫秒内过期）
+ * 无法读取过期时间的token视为未过期，交给服务器判断
+ */
+export const isTokenExpired = (token: string, leewayMs = 0, now = Date.now()): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - leewayMs <= now;
+};
@@ -0,0 +1,74 @@
+/**
+ * LRU缓存索引
+ * 记录每个缓存文件的大小和最近使用时间，超出容量时按最久未使用的顺序淘汰
+ * 只处理索引数据，不涉及文件读写
+ */
+
+export interface LruEntry {
+  key: string;
+  size: number;          // 字节
+  lastAccessed: number;  // 最近一次使用的时间戳（毫秒）
+}
+
+export type LruIndex<T extends LruEntry = LruEntry> = Record<string, T>;
+
+/**
+ * 计算索引中所有条目的总大小
+ */
+export const getTotalSize = (index: LruIndex): number =>
+  Object.values(index).reduce((total, entry) => total + entry.size, 0);
+
+/**
+ * 记录一次使用，条目不存在时原样返回
+ */
+export const touchEntry = <T extends LruEntry>(index: LruIndex<T>, key: string, now: number): LruIndex<T> => {
+  const entry = index[key];
+  if (!entry) return index;
+  return { ...index, [key]: { ...entry, lastAccessed: now } };
+};
+
+/**
+ * 添加或替换条目
+ */
+export const addEntry = <T extends LruEntry>(index: LruIndex<T>, entry: T): LruIndex<T> => ({
+  ...index,
+  [entry.key]: entry,
+});
+
+/**
+ * 删除条目
+ */
+export const removeEntries = <T extends LruEntry>(index: LruIndex<T>, keys: string[]): LruIndex<T> => {
+  if (keys.length === 0) return index;
+  const next = { ...index };
+  keys.forEach(key => {
+    delete next[key];
+  });
+  return next;
+};
+
+/**
+ * 选出需要淘汰的条目，使剩余的总大小不超过容量
+ * @param budget 容量（字节）
+ * @param keep 不淘汰的条目（如刚加入的文件），自身超出容量时也会被淘汰
+ * @returns 按最久未使用排序的待淘汰key
+ */
+export const selectEvictions = (index: LruIndex, budget: number, keep?: string): string[] => {
+  let total = getTotalSize(index);
+  if (total <= budget) return [];
+
+  const candidates = Object.values(index).sort((a, b) => {
+    // 保留的条目排在最后，只有淘汰其他所有条目仍超出容量时才淘汰
+    if (a.key === keep) return 1;
+    if (b.key === keep) return -1;
+    return a.lastAccessed - b.lastAccessed;
+  });
+
+  const evicted: string[] = [];
+  for (const entry of candidates) {
+    if (total <= budget) break;
+    evicted.push(entry.key);
+    total -= entry.size;
+  }
+  return evicted;
+};
@@ -0,0 +1,30 @@
+/**
+ * 多选辅助函数
+ * 计算点选和拖动范围选择后的选中图片
+ */
+
+/**
+ * 切换一项的选中状态
+ */
+export const toggleSelection = (selectedIds: number[], id: number): number[] =>
+  selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id];
+
+/**
+ * 拖动选择：在拖动开始前的选择上加入起点到当前位置之间的所有项
+ * 往回拖动时，超出当前范围的项恢复为拖动开始前的状态
+ * @param ids 按显示顺序排列的所有项
+ * @param baseIds 拖动开始前已选中的项
+ * @param anchorIndex 拖动起点的索引
+ * @param currentIndex 当前位置的索引
+ */
+export const selectRange = (
+  ids: number[],
+  baseIds: number[],
+  anchorIndex: number,
+  currentIndex: number
+): number[] => {
+  const start = Math.max(Math.min(anchorIndex, currentIndex), 0);
+  const end = Math.max(anchorIndex, currentIndex);
+  const rangeIds = ids.slice(start, end + 1).filter(id => !baseIds.includes(id));
+  return [...baseIds, ...rangeIds];
+};
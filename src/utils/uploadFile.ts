@@ -0,0 +1,18 @@
+/**
+ * 上传文件工具函数
+ */
+
+import * as ImagePicker from 'expo-image-picker';
+import { ImageUploadFile } from '../types';
+
+/**
+ * 根据相册/相机的选择结果生成上传文件信息
+ */
+export const toUploadFile = (asset: ImagePicker.ImagePickerAsset): ImageUploadFile => {
+  const fileName = asset.fileName || asset.uri.split('/').pop() || `image_${Date.now()}.jpg`;
+  return {
+    uri: asset.uri,
+    name: fileName,
+    type: asset.mimeType || 'image/jpeg',
+  };
+};